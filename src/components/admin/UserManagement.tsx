@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, UserCheck, UserX, ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { createNotification, notificationTemplates } from '@/services/notificationService';
+
+interface Profile {
+  id: string;
+  full_name: string;
+  email: string;
+  role: string;
+  status: string;
+  requested_role: string | null;
+  department?: string;
+  created_at: string;
+}
+
+interface UserManagementProps {
+  userId: string;
+}
+
+const UserManagement: React.FC<UserManagementProps> = ({ userId }) => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState('all');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch users",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateProfile = async (profileId: string, updates: { role?: string; status?: string; requested_role?: string | null }) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('id', profileId);
+
+    if (error) throw error;
+  };
+
+  const changeRole = async (profile: Profile, role: string) => {
+    if (profile.id === userId) {
+      toast({
+        title: "Invalid Action",
+        description: "You cannot change your own role",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await updateProfile(profile.id, { role });
+      await createNotification({
+        userId: profile.id,
+        ...notificationTemplates.roleChanged(role),
+        data: { role }
+      });
+
+      toast({
+        title: "Success",
+        description: `${profile.full_name} is now a ${role}`,
+      });
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleActive = async (profile: Profile) => {
+    if (profile.id === userId) {
+      toast({
+        title: "Invalid Action",
+        description: "You cannot deactivate your own account",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const status = profile.status === 'deactivated' ? 'active' : 'deactivated';
+
+    try {
+      await updateProfile(profile.id, { status });
+      toast({
+        title: "Success",
+        description: status === 'active' ? "Account reactivated" : "Account deactivated",
+      });
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error updating account status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update account status",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const approveRequest = async (profile: Profile) => {
+    try {
+      await updateProfile(profile.id, {
+        role: profile.requested_role || 'supervisor',
+        status: 'active',
+        requested_role: null,
+      });
+      await createNotification({
+        userId: profile.id,
+        ...notificationTemplates.accountApproved(),
+      });
+
+      toast({
+        title: "Success",
+        description: `${profile.full_name} has been approved`,
+      });
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error approving request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rejectRequest = async (profile: Profile) => {
+    try {
+      await updateProfile(profile.id, { status: 'deactivated', requested_role: null });
+      toast({
+        title: "Request Rejected",
+        description: `${profile.full_name}'s request has been rejected`,
+      });
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error rejecting request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'active': return <Badge className="bg-emerald-100 text-emerald-800">Active</Badge>;
+      case 'pending': return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+      case 'deactivated': return <Badge className="bg-red-100 text-red-800">Deactivated</Badge>;
+      default: return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const pendingProfiles = profiles.filter(p => p.status === 'pending');
+  const filteredProfiles = profiles.filter(p => {
+    const matchesSearch =
+      p.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      p.email.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesRole = roleFilter === 'all' || p.role === roleFilter;
+    return matchesSearch && matchesRole;
+  });
+
+  if (loading) {
+    return <div className="text-center py-8">Loading users...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">User Management</h2>
+        <p className="text-muted-foreground">Manage roles and access for everyone in the organization</p>
+      </div>
+
+      {/* Pending Approvals */}
+      {pendingProfiles.length > 0 && (
+        <Card className="border-l-4 border-l-yellow-400">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-yellow-600" />
+              Pending Approvals
+              <Badge className="bg-yellow-100 text-yellow-800">{pendingProfiles.length}</Badge>
+            </CardTitle>
+            <CardDescription>Supervisor sign-ups waiting for review</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {pendingProfiles.map((profile) => (
+              <div key={profile.id} className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
+                <div>
+                  <p className="font-medium">{profile.full_name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {profile.email} • requested {profile.requested_role || 'supervisor'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => approveRequest(profile)}>
+                    <UserCheck className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => rejectRequest(profile)}>
+                    <UserX className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Search and Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-center gap-2">
+            <Search className="h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search users by name or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="flex-1"
+            />
+            <Select value={roleFilter} onValueChange={setRoleFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Roles</SelectItem>
+                <SelectItem value="intern">Interns</SelectItem>
+                <SelectItem value="supervisor">Supervisors</SelectItem>
+                <SelectItem value="admin">Admins</SelectItem>
+                <SelectItem value="kiosk">Kiosks</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* User Table */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Name</th>
+                  <th className="text-left p-2">Email</th>
+                  <th className="text-left p-2">Department</th>
+                  <th className="text-left p-2">Role</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredProfiles.map((profile) => (
+                  <tr key={profile.id} className="border-b">
+                    <td className="p-2 font-medium">{profile.full_name}</td>
+                    <td className="p-2">{profile.email}</td>
+                    <td className="p-2">{profile.department || '-'}</td>
+                    <td className="p-2">
+                      <Select
+                        value={profile.role}
+                        onValueChange={(value) => changeRole(profile, value)}
+                        disabled={profile.id === userId || profile.status === 'pending'}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="intern">Intern</SelectItem>
+                          <SelectItem value="supervisor">Supervisor</SelectItem>
+                          <SelectItem value="admin">Admin</SelectItem>
+                          <SelectItem value="kiosk">Kiosk</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">{getStatusBadge(profile.status)}</td>
+                    <td className="p-2">
+                      {profile.status !== 'pending' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleActive(profile)}
+                          disabled={profile.id === userId}
+                        >
+                          {profile.status === 'deactivated' ? 'Reactivate' : 'Deactivate'}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filteredProfiles.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No users found
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UserManagement;
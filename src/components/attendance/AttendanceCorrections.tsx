@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ClipboardEdit, Check, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchInternSupervisorIds } from '@/services/assignmentService';
+import { createNotification, notifyMultipleUsers, notificationTemplates } from '@/services/notificationService';
+import {
+  fetchCorrections,
+  submitCorrection,
+  reviewCorrection,
+  AttendanceCorrection,
+} from '@/services/attendanceCorrectionService';
+
+interface AttendanceDraft {
+  date: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface AttendanceCorrectionsProps {
+  userRole: string;
+  userId: string;
+  interns?: Profile[];
+  draft?: AttendanceDraft | null;
+  onDraftClose?: () => void;
+}
+
+const toLocalInput = (value: string | null) => value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+const formatTime = (value: string | null) => value ? format(new Date(value), 'hh:mm a') : '-';
+
+const getCorrectionBadge = (status: string) => {
+  switch (status) {
+    case 'approved':
+      return <Badge className="bg-emerald-100 text-emerald-800">Approved</Badge>;
+    case 'rejected':
+      return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+  }
+};
+
+const AttendanceCorrections: React.FC<AttendanceCorrectionsProps> = ({
+  userRole,
+  userId,
+  interns = [],
+  draft,
+  onDraftClose,
+}) => {
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState({ date: '', checkIn: '', checkOut: '', reason: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [rejecting, setRejecting] = useState<AttendanceCorrection | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const { toast } = useToast();
+
+  const internIds = interns.map(intern => intern.id).join(',');
+
+  useEffect(() => {
+    fetchData();
+  }, [userRole, userId, internIds]);
+
+  // Opening from a row in the attendance table pre-fills that day's recorded times
+  useEffect(() => {
+    if (draft) {
+      setForm({
+        date: draft.date,
+        checkIn: toLocalInput(draft.check_in_time),
+        checkOut: toLocalInput(draft.check_out_time),
+        reason: '',
+      });
+      setIsDialogOpen(true);
+    }
+  }, [draft]);
+
+  const fetchData = async () => {
+    const ids = userRole === 'supervisor' ? interns.map(intern => intern.id) : [userId];
+    setCorrections(await fetchCorrections(ids));
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setForm({ date: '', checkIn: '', checkOut: '', reason: '' });
+    onDraftClose?.();
+  };
+
+  const handleSubmit = async () => {
+    if (!form.date || (!form.checkIn && !form.checkOut) || !form.reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the date, at least one corrected time and a reason",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const checkIn = form.checkIn ? new Date(form.checkIn).toISOString() : null;
+    const checkOut = form.checkOut ? new Date(form.checkOut).toISOString() : null;
+
+    // Attendance days follow the UTC date, as check-ins do
+    if ([checkIn, checkOut].some(time => time && (time.slice(0, 10) !== form.date || time > new Date().toISOString()))) {
+      toast({
+        title: "Error",
+        description: "Corrected times must fall on the selected day and cannot be in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const correction = await submitCorrection({
+        userId,
+        date: form.date,
+        checkIn,
+        checkOut,
+        reason: form.reason.trim(),
+      });
+
+      const [{ data: intern }, supervisorIds] = await Promise.all([
+        supabase.from('profiles').select('full_name').eq('id', userId).single(),
+        fetchInternSupervisorIds(userId),
+      ]);
+
+      await notifyMultipleUsers(
+        supervisorIds,
+        notificationTemplates.correctionRequested(intern?.full_name || 'An intern', format(parseISO(form.date), 'MMM dd, yyyy')),
+        { correctionId: correction.id }
+      );
+
+      toast({
+        title: "Success",
+        description: "Correction request sent to your supervisor",
+      });
+
+      closeDialog();
+      fetchData();
+    } catch (error) {
+      console.error('Error requesting correction:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit correction. You may already have a pending request for this day.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = async (correction: AttendanceCorrection, approve: boolean, note?: string) => {
+    try {
+      await reviewCorrection(correction.id, approve, note?.trim());
+
+      const date = format(parseISO(correction.date), 'MMM dd, yyyy');
+      await createNotification({
+        userId: correction.user_id,
+        ...(approve
+          ? notificationTemplates.correctionApproved(date)
+          : notificationTemplates.correctionRejected(date, note!.trim())),
+        data: { correctionId: correction.id }
+      });
+
+      toast({
+        title: "Success",
+        description: approve ? "Correction approved and attendance updated" : "Correction rejected",
+      });
+
+      setRejecting(null);
+      setRejectNote('');
+      fetchData();
+    } catch (error) {
+      console.error('Error reviewing correction:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to review correction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getInternName = (internId: string) => {
+    return interns.find(intern => intern.id === internId)?.full_name || 'Unknown User';
+  };
+
+  const visibleCorrections = userRole === 'supervisor'
+    ? corrections.filter(correction => correction.status === 'pending')
+    : corrections;
+
+  if (userRole === 'supervisor' && visibleCorrections.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardEdit className="h-5 w-5" />
+            {userRole === 'supervisor' ? `Correction Requests (${visibleCorrections.length})` : 'Correction Requests'}
+          </CardTitle>
+          {userRole === 'intern' && (
+            <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+              Request Correction
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  {userRole === 'supervisor' && <th className="text-left p-2">Employee</th>}
+                  <th className="text-left p-2">Date</th>
+                  <th className="text-left p-2">Check In</th>
+                  <th className="text-left p-2">Check Out</th>
+                  <th className="text-left p-2">Reason</th>
+                  <th className="text-left p-2">{userRole === 'supervisor' ? 'Actions' : 'Status'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleCorrections.map((correction) => (
+                  <tr key={correction.id} className="border-b">
+                    {userRole === 'supervisor' && (
+                      <td className="p-2 font-medium">{getInternName(correction.user_id)}</td>
+                    )}
+                    <td className="p-2">{format(parseISO(correction.date), 'MMM dd, yyyy')}</td>
+                    <td className="p-2">{formatTime(correction.proposed_check_in_time)}</td>
+                    <td className="p-2">{formatTime(correction.proposed_check_out_time)}</td>
+                    <td className="p-2 text-muted-foreground max-w-xs">
+                      {correction.reason}
+                      {correction.review_note && (
+                        <span className="block text-xs mt-1">Supervisor: {correction.review_note}</span>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      {userRole === 'supervisor' ? (
+                        <div className="flex gap-2">
+                          <Button size="sm" className="bg-emerald-600 hover:bg-emerald-700" onClick={() => handleReview(correction, true)}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setRejecting(correction)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        getCorrectionBadge(correction.status)
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleCorrections.length === 0 && (
+              <div className="text-center py-6 text-muted-foreground">
+                Forgot to check in or out? Request a correction and your supervisor will review it.
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Attendance Correction</DialogTitle>
+            <DialogDescription>
+              Propose the times that should have been recorded. Leave a time empty to keep it as it is.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="correction_date">Date</Label>
+              <Input
+                id="correction_date"
+                type="date"
+                max={format(new Date(), 'yyyy-MM-dd')}
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="correction_check_in">Check In</Label>
+                <Input
+                  id="correction_check_in"
+                  type="datetime-local"
+                  value={form.checkIn}
+                  onChange={(e) => setForm({ ...form, checkIn: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="correction_check_out">Check Out</Label>
+                <Input
+                  id="correction_check_out"
+                  type="datetime-local"
+                  value={form.checkOut}
+                  onChange={(e) => setForm({ ...form, checkOut: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="correction_reason">Justification</Label>
+              <Textarea
+                id="correction_reason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="e.g. Forgot to check out before leaving at 5 PM"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={submitting}>
+                {submitting ? 'Submitting...' : 'Submit Request'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setRejectNote('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Correction</DialogTitle>
+            <DialogDescription>
+              The intern will see your reason
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Textarea
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              placeholder="Why is this correction rejected?"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRejecting(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => rejecting && handleReview(rejecting, false, rejectNote)}
+                disabled={!rejectNote.trim()}
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AttendanceCorrections;
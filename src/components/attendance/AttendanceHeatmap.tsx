@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Flame, Trophy, Percent, MapPin } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
+import { formatBikramSambat } from '@/lib/bikramSambat';
+import { attendanceStatusClasses, attendanceStatusLabels, isAttendanceStatus } from '@/services/workScheduleService';
+import { formatReportHours } from '@/services/attendanceReportService';
+import {
+  fetchAttendanceHistory,
+  getHeatmapStart,
+  getMonthlyAttendance,
+  AttendanceHistory,
+  HeatmapDay,
+  HeatmapMode,
+} from '@/services/attendanceHeatmapService';
+
+interface AttendanceHeatmapProps {
+  internId: string;
+  department?: string | null;
+}
+
+type DayTone = NonNullable<HeatmapDay['cell']> | 'none' | 'hours-1' | 'hours-2' | 'hours-3' | 'hours-4';
+
+const toneClasses: Record<DayTone, string> = {
+  present: 'bg-emerald-500 text-white',
+  late: 'bg-amber-400 text-white',
+  early_leave: 'bg-orange-400 text-white',
+  half_day: 'bg-sky-400 text-white',
+  absent: 'bg-red-500 text-white',
+  on_leave: 'bg-purple-400 text-white',
+  holiday: 'bg-indigo-300 text-white',
+  off: 'bg-gray-100 text-muted-foreground',
+  none: 'bg-gray-200 text-gray-700',
+  'hours-1': 'bg-emerald-200 text-emerald-900',
+  'hours-2': 'bg-emerald-400 text-white',
+  'hours-3': 'bg-emerald-600 text-white',
+  'hours-4': 'bg-emerald-800 text-white',
+};
+
+const statusLegend: { tone: DayTone; label: string }[] = [
+  ...Object.entries(attendanceStatusLabels).map(([status, label]) => ({ tone: status as DayTone, label })),
+  { tone: 'holiday', label: 'Holiday' },
+  { tone: 'off', label: 'Day off' },
+  { tone: 'none', label: 'Not recorded' },
+];
+
+const hoursTones: DayTone[] = ['none', 'hours-1', 'hours-2', 'hours-3', 'hours-4'];
+
+// Hours are shaded against the schedule's required hours, so a full day is the third shade
+const getDayTone = (day: HeatmapDay, mode: HeatmapMode, requiredHours: number): DayTone => {
+  if (mode === 'status') return day.cell || 'none';
+  if (day.workedMinutes === 0) return day.cell === 'off' || day.cell === 'holiday' ? day.cell : 'none';
+
+  const ratio = day.workedMinutes / (requiredHours * 60);
+  if (ratio < 0.5) return 'hours-1';
+  if (ratio < 0.9) return 'hours-2';
+  if (ratio < 1.1) return 'hours-3';
+  return 'hours-4';
+};
+
+const getDayLabel = (day: HeatmapDay) => {
+  if (day.cell === 'holiday') return day.holidayName || 'Holiday';
+  if (day.cell === 'off') return 'Day off';
+  if (!day.cell && day.beforeJoining) return 'Before joining';
+  if (!day.cell) return 'Not recorded';
+  return attendanceStatusLabels[day.cell];
+};
+
+const AttendanceHeatmap: React.FC<AttendanceHeatmapProps> = ({ internId, department }) => {
+  const [history, setHistory] = useState<AttendanceHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<HeatmapMode>('status');
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const { showBikramSambat } = useBikramSambat();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchHistory();
+  }, [internId, department]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      setHistory(await fetchAttendanceHistory(internId, department));
+    } catch (error) {
+      console.error('Error fetching attendance history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load attendance history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectDay = (date: Date) => {
+    setSelectedKey(format(date, 'yyyy-MM-dd'));
+    setMonth(startOfMonth(date));
+  };
+
+  if (loading || !history) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const weeks: HeatmapDay[][] = [];
+  history.days.forEach((day, index) => {
+    if (index % 7 === 0) weeks.push([]);
+    weeks[weeks.length - 1].push(day);
+  });
+
+  const monthly = getMonthlyAttendance(history.days, month);
+  const selectedDay = history.days.find(day => day.key === selectedKey) || null;
+
+  const modifiers: Record<string, Date[]> = {};
+  history.days.forEach((day) => {
+    const tone = getDayTone(day, mode, history.requiredHours);
+    modifiers[tone] = modifiers[tone] || [];
+    modifiers[tone].push(day.date);
+  });
+  if (selectedDay) modifiers.chosen = [selectedDay.date];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Attendance History</CardTitle>
+            <CardDescription>The past year of check-ins. Click a day to see its record.</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant={mode === 'status' ? 'default' : 'outline'} size="sm" onClick={() => setMode('status')}>
+              Status
+            </Button>
+            <Button variant={mode === 'hours' ? 'default' : 'outline'} size="sm" onClick={() => setMode('hours')}>
+              Hours Worked
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-orange-50">
+            <Flame className="h-5 w-5 text-orange-500" />
+            <div>
+              <div className="text-xl font-bold">{history.currentStreak} days</div>
+              <div className="text-xs text-muted-foreground">Current streak</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-amber-50">
+            <Trophy className="h-5 w-5 text-amber-500" />
+            <div>
+              <div className="text-xl font-bold">{history.longestStreak} days</div>
+              <div className="text-xs text-muted-foreground">Longest streak</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-emerald-50">
+            <Percent className="h-5 w-5 text-emerald-600" />
+            <div>
+              <div className="text-xl font-bold">{monthly.percentage === null ? '--' : `${monthly.percentage}%`}</div>
+              <div className="text-xs text-muted-foreground">
+                {format(month, 'MMMM')} · {monthly.attended} of {monthly.workingDays} working days
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <Tabs defaultValue="year" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="year">Year</TabsTrigger>
+            <TabsTrigger value="month">Month</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="year">
+            <div className="overflow-x-auto pb-2">
+              <div className="inline-flex gap-[3px]">
+                <div className="flex flex-col gap-[3px] pt-4 pr-1 text-[10px] text-muted-foreground">
+                  {['Sun', '', 'Tue', '', 'Thu', '', 'Sat'].map((label, index) => (
+                    <span key={index} className="h-3 leading-3">{label}</span>
+                  ))}
+                </div>
+                {weeks.map((week, index) => {
+                  const showMonth = index === 0 || week[0].date.getMonth() !== weeks[index - 1][0].date.getMonth();
+                  return (
+                    <div key={week[0].key} className="flex flex-col gap-[3px]">
+                      <span className="h-4 text-[10px] text-muted-foreground whitespace-nowrap">
+                        {showMonth ? format(week[0].date, 'MMM') : ''}
+                      </span>
+                      {week.map((day) => (
+                        <button
+                          key={day.key}
+                          type="button"
+                          title={`${format(day.date, 'MMM dd, yyyy')}: ${getDayLabel(day)}${day.workedMinutes > 0 ? ` · ${formatReportHours(day.workedMinutes)}h` : ''}`}
+                          onClick={() => selectDay(day.date)}
+                          className={`h-3 w-3 rounded-sm ${toneClasses[getDayTone(day, mode, history.requiredHours)]} ${day.key === selectedKey ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                        />
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="month">
+            <Calendar
+              month={month}
+              onMonthChange={setMonth}
+              fromMonth={getHeatmapStart()}
+              toMonth={new Date()}
+              disabled={{ after: new Date() }}
+              onDayClick={(date, dayModifiers) => !dayModifiers.disabled && selectDay(date)}
+              modifiers={modifiers}
+              modifiersClassNames={{ ...toneClasses, chosen: 'ring-2 ring-primary' }}
+              className="rounded-md border w-fit"
+            />
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {mode === 'status' ? (
+            statusLegend.map(({ tone, label }) => (
+              <span key={tone} className="flex items-center gap-1">
+                <span className={`h-3 w-3 rounded-sm ${toneClasses[tone]}`} />
+                {label}
+              </span>
+            ))
+          ) : (
+            <span className="flex items-center gap-1">
+              Less
+              {hoursTones.map((tone) => (
+                <span key={tone} className={`h-3 w-3 rounded-sm ${toneClasses[tone]}`} />
+              ))}
+              More than {history.requiredHours}h
+            </span>
+          )}
+        </div>
+
+        <div className="rounded-lg border p-4">
+          {selectedDay ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">{format(selectedDay.date, 'EEEE, MMMM dd, yyyy')}</p>
+                  {showBikramSambat && (
+                    <p className="text-xs text-muted-foreground">{formatBikramSambat(selectedDay.date)}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {selectedDay.record?.is_remote && (
+                    <Badge variant="outline" className="gap-1">
+                      <MapPin className="h-3 w-3" />
+                      Remote
+                    </Badge>
+                  )}
+                  {selectedDay.record && isAttendanceStatus(selectedDay.record.status) ? (
+                    <Badge className={attendanceStatusClasses[selectedDay.record.status]}>
+                      {attendanceStatusLabels[selectedDay.record.status]}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">{getDayLabel(selectedDay)}</Badge>
+                  )}
+                </div>
+              </div>
+              {selectedDay.record ? (
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Check In</div>
+                    <div className="font-medium">
+                      {selectedDay.record.check_in_time ? format(new Date(selectedDay.record.check_in_time), 'hh:mm a') : '--'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Check Out</div>
+                    <div className="font-medium">
+                      {selectedDay.record.check_out_time ? format(new Date(selectedDay.record.check_out_time), 'hh:mm a') : '--'}
+                      {selectedDay.record.auto_checked_out && (
+                        <Badge variant="outline" className="ml-2">Auto</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Hours</div>
+                    <div className="font-medium">{formatReportHours(selectedDay.workedMinutes)}h</div>
+                  </div>
+                  {selectedDay.record.notes && (
+                    <p className="col-span-3 text-muted-foreground">{selectedDay.record.notes}</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No attendance was recorded on this day</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-center text-muted-foreground">Select a day to see its check-in and check-out times</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttendanceHeatmap;
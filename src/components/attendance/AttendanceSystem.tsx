@@ -6,10 +6,26 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Calendar, Clock, CheckCircle, XCircle, Users, Edit } from 'lucide-react';
+import { Calendar, Clock, CheckCircle, XCircle, Users, Edit, ClipboardEdit, QrCode, MapPin } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
+import { formatBikramSambat } from '@/lib/bikramSambat';
 import { format } from 'date-fns';
+import { fetchAssignedInternIds, fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchCohorts, fetchCohortInternIds } from '@/services/cohortService';
+import { editAttendance, fetchAttendanceAudit, AttendanceAuditEntry } from '@/services/attendanceCorrectionService';
+import { fetchHolidays, Holiday } from '@/services/holidayService';
+import { getCurrentPosition, getMapUrl } from '@/services/geofenceService';
+import {
+  attendanceStatusLabels,
+  attendanceStatusClasses,
+  isAttendanceStatus,
+  AttendanceStatus,
+} from '@/services/workScheduleService';
+import AttendanceCorrections from '@/components/attendance/AttendanceCorrections';
+import CheckInQrCode from '@/components/attendance/CheckInQrCode';
 
 interface AttendanceRecord {
   id: string;
@@ -19,6 +35,14 @@ interface AttendanceRecord {
   check_out_time: string | null;
   status: string;
   notes: string | null;
+  check_in_latitude?: number | null;
+  check_in_longitude?: number | null;
+  check_in_accuracy?: number | null;
+  check_out_latitude?: number | null;
+  check_out_longitude?: number | null;
+  check_out_accuracy?: number | null;
+  is_remote?: boolean;
+  auto_checked_out?: boolean;
   profiles?: {
     full_name: string;
     email: string;
@@ -32,6 +56,11 @@ interface Profile {
   email: string;
 }
 
+interface Cohort {
+  id: string;
+  name: string;
+}
+
 interface AttendanceSystemProps {
   userRole: string;
 }
@@ -45,9 +74,16 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
   const [allAttendance, setAllAttendance] = useState<AttendanceRecord[]>([]);
   const [interns, setInterns] = useState<Profile[]>([]);
   const [selectedIntern, setSelectedIntern] = useState<string>('all');
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [selectedCohort, setSelectedCohort] = useState<string>('all');
   const [editingAttendance, setEditingAttendance] = useState<AttendanceRecord | null>(null);
   const [editCheckIn, setEditCheckIn] = useState('');
   const [editCheckOut, setEditCheckOut] = useState('');
+  const [editReason, setEditReason] = useState('');
+  const [auditEntries, setAuditEntries] = useState<AttendanceAuditEntry[]>([]);
+  const [correctionDraft, setCorrectionDraft] = useState<AttendanceRecord | null>(null);
+  const [todayHoliday, setTodayHoliday] = useState<Holiday | null>(null);
+  const { showBikramSambat } = useBikramSambat();
 
   useEffect(() => {
     if (user) {
@@ -58,7 +94,17 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
         fetchAllAttendance();
       }
     }
-  }, [user, userRole, selectedIntern]);
+  }, [user, userRole, selectedIntern, selectedCohort]);
+
+  useEffect(() => {
+    if (userRole === 'supervisor') {
+      fetchCohortOptions();
+    }
+  }, [userRole]);
+
+  useEffect(() => {
+    fetchTodayHoliday();
+  }, []);
 
   // Real-time subscriptions
   useEffect(() => {
@@ -86,22 +132,31 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
     return () => {
       supabase.removeChannel(attendanceSubscription);
     };
-  }, [user, userRole, selectedIntern]);
+  }, [user, userRole, selectedIntern, selectedCohort]);
 
-  const fetchInterns = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, full_name, role, email')
-        .eq('role', 'intern')
-        .order('full_name');
+  const fetchTodayHoliday = async () => {
+    const today = new Date().toISOString().split('T')[0];
+    const [holiday] = await fetchHolidays(today, today);
+    setTodayHoliday(holiday || null);
+  };
 
-      if (error) {
-        console.error('Error fetching interns:', error);
-        return;
-      }
+  const fetchCohortOptions = async () => {
+    const data = await fetchCohorts();
+    setCohorts(data);
+  };
+
+  // Narrow a list of intern ids to the selected cohort
+  const filterByCohort = async (internIds: string[]) => {
+    if (selectedCohort === 'all') return internIds;
+    const cohortInternIds = await fetchCohortInternIds(selectedCohort);
+    return internIds.filter(id => cohortInternIds.includes(id));
+  };
 
-      setInterns(data || []);
+  const fetchInterns = async () => {
+    try {
+      const data = await fetchAssignedInterns(user!.id);
+      const internIds = await filterByCohort(data.map(intern => intern.id));
+      setInterns(data.filter(intern => internIds.includes(intern.id)));
     } catch (error) {
       console.error('Error:', error);
     }
@@ -160,6 +215,9 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
 
       if (selectedIntern !== 'all') {
         query = query.eq('user_id', selectedIntern);
+      } else {
+        const internIds = await filterByCohort(await fetchAssignedInternIds(user!.id));
+        query = query.in('user_id', internIds);
       }
 
       const { data, error } = await query;
@@ -196,6 +254,7 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
     try {
       const today = new Date().toISOString().split('T')[0];
       const now = new Date().toISOString();
+      const position = await getCurrentPosition();
 
       const { error } = await supabase
         .from('attendance')
@@ -203,14 +262,17 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
           user_id: user!.id,
           date: today,
           check_in_time: now,
-          status: 'present'
+          status: 'present',
+          check_in_latitude: position?.latitude,
+          check_in_longitude: position?.longitude,
+          check_in_accuracy: position?.accuracy,
         });
 
       if (error) {
         console.error('Error checking in:', error);
         toast({
           title: "Error",
-          description: "Failed to check in. Please try again.",
+          description: error.message || "Failed to check in. Please try again.",
           variant: "destructive",
         });
         return;
@@ -231,10 +293,16 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
   const handleCheckOut = async () => {
     try {
       const now = new Date().toISOString();
+      const position = await getCurrentPosition();
 
       const { error } = await supabase
         .from('attendance')
-        .update({ check_out_time: now })
+        .update({
+          check_out_time: now,
+          check_out_latitude: position?.latitude,
+          check_out_longitude: position?.longitude,
+          check_out_accuracy: position?.accuracy,
+        })
         .eq('id', todayAttendance!.id);
 
       if (error) {
@@ -262,30 +330,22 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
   const handleEditAttendance = async () => {
     if (!editingAttendance) return;
 
-    try {
-      const updateData: any = {};
-      
-      if (editCheckIn) {
-        updateData.check_in_time = new Date(editCheckIn).toISOString();
-      }
-      
-      if (editCheckOut) {
-        updateData.check_out_time = new Date(editCheckOut).toISOString();
-      }
-
-      const { error } = await supabase
-        .from('attendance')
-        .update(updateData)
-        .eq('id', editingAttendance.id);
+    if (!editReason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for the change.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-      if (error) {
-        toast({
-          title: "Error",
-          description: "Failed to update attendance.",
-          variant: "destructive",
-        });
-        return;
-      }
+    try {
+      await editAttendance(
+        editingAttendance.id,
+        editReason.trim(),
+        editCheckIn ? new Date(editCheckIn).toISOString() : undefined,
+        editCheckOut ? new Date(editCheckOut).toISOString() : undefined
+      );
 
       toast({
         title: "Success",
@@ -295,20 +355,73 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
       setEditingAttendance(null);
       setEditCheckIn('');
       setEditCheckOut('');
+      setEditReason('');
       fetchAllAttendance();
     } catch (error) {
       console.error('Error updating attendance:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to update attendance.",
+        variant: "destructive",
+      });
     }
   };
 
-  const openEditDialog = (record: AttendanceRecord) => {
+  const openEditDialog = async (record: AttendanceRecord) => {
     setEditingAttendance(record);
     setEditCheckIn(record.check_in_time ? format(new Date(record.check_in_time), "yyyy-MM-dd'T'HH:mm") : '');
     setEditCheckOut(record.check_out_time ? format(new Date(record.check_out_time), "yyyy-MM-dd'T'HH:mm") : '');
+    setEditReason('');
+    setAuditEntries([]);
+    setAuditEntries(await fetchAttendanceAudit(record.id));
   };
 
+  // Today's statuses across the interns in view; interns without a record haven't checked in yet
+  const todayDate = new Date().toISOString().split('T')[0];
+  const todayRecords = allAttendance.filter(record => record.date === todayDate);
+  const todaySummary = (Object.keys(attendanceStatusLabels) as AttendanceStatus[]).map(status => ({
+    status,
+    count: todayRecords.filter(record => record.status === status).length,
+  }));
+  const notCheckedInCount = selectedIntern === 'all' ? Math.max(interns.length - todayRecords.length, 0) : 0;
+
+  const renderLocationLink = (label: string, latitude?: number | null, longitude?: number | null, accuracy?: number | null) => {
+    if (latitude == null || longitude == null) return null;
+    return (
+      <a
+        href={getMapUrl(latitude, longitude)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-1 text-xs text-primary hover:underline whitespace-nowrap"
+      >
+        <MapPin className="h-3 w-3" />
+        {label}{accuracy != null && ` ±${Math.round(accuracy)} m`}
+      </a>
+    );
+  };
+
+  const renderLocation = (record: AttendanceRecord) => {
+    if (!record.check_in_time) return '-';
+
+    const checkIn = renderLocationLink('In', record.check_in_latitude, record.check_in_longitude, record.check_in_accuracy);
+    const checkOut = renderLocationLink('Out', record.check_out_latitude, record.check_out_longitude, record.check_out_accuracy);
+
+    return (
+      <div className="space-y-1">
+        {record.is_remote && <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">Remote</Badge>}
+        {checkIn}
+        {checkOut}
+        {!checkIn && !checkOut && <span className="text-xs text-muted-foreground">Not shared</span>}
+      </div>
+    );
+  };
+
+  const formatAuditTime = (value: string | null) => value ? format(new Date(value), 'MMM dd, hh:mm a') : 'none';
+
   const getStatusBadge = (record: AttendanceRecord) => {
-    if (record.check_out_time) {
+    if (record.status !== 'present' && isAttendanceStatus(record.status)) {
+      return <Badge className={attendanceStatusClasses[record.status]}>{attendanceStatusLabels[record.status]}</Badge>;
+    } else if (record.check_out_time) {
       return <Badge variant="default" className="bg-emerald-500 hover:bg-emerald-600">Complete</Badge>;
     } else if (record.check_in_time) {
       return <Badge variant="secondary">Checked In</Badge>;
@@ -336,6 +449,25 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
         
         {userRole === 'supervisor' && (
           <div className="flex items-center gap-4">
+            <Select
+              value={selectedCohort}
+              onValueChange={(value) => {
+                setSelectedCohort(value);
+                setSelectedIntern('all');
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select cohort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Cohorts</SelectItem>
+                {cohorts.map((cohort) => (
+                  <SelectItem key={cohort.id} value={cohort.id}>
+                    {cohort.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <div className="flex items-center gap-2">
               <Users className="h-4 w-4 text-muted-foreground" />
               <Select value={selectedIntern} onValueChange={setSelectedIntern}>
@@ -362,12 +494,17 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
             <CardTitle className="flex items-center gap-2">
               <Calendar className="h-5 w-5 text-primary" />
               Today's Attendance - {format(new Date(), 'MMMM dd, yyyy')}
+              {showBikramSambat && (
+                <span className="text-sm font-normal text-muted-foreground">({formatBikramSambat(new Date())})</span>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-4">
-                {todayAttendance ? (
+                {todayAttendance?.status === 'on_leave' ? (
+                  <span className="text-muted-foreground">You are on approved leave today</span>
+                ) : todayAttendance ? (
                   <div className="flex items-center gap-4">
                     {todayAttendance.check_in_time && (
                       <div className="flex items-center gap-2">
@@ -375,6 +512,9 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                         <span className="text-sm text-muted-foreground">
                           Checked in: {format(new Date(todayAttendance.check_in_time), 'hh:mm a')}
                         </span>
+                        {todayAttendance.is_remote && (
+                          <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">Remote</Badge>
+                        )}
                       </div>
                     )}
                     {todayAttendance.check_out_time && (
@@ -383,24 +523,28 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                         <span className="text-sm text-muted-foreground">
                           Checked out: {format(new Date(todayAttendance.check_out_time), 'hh:mm a')}
                         </span>
+                        {todayAttendance.auto_checked_out && (
+                          <Badge variant="outline" title="Checked out automatically at the end of the day">Auto</Badge>
+                        )}
                       </div>
                     )}
                   </div>
+                ) : todayHoliday ? (
+                  <span className="text-muted-foreground">Today is a holiday: {todayHoliday.name}</span>
                 ) : (
                   <span className="text-muted-foreground">No attendance marked today</span>
                 )}
               </div>
               <div className="flex gap-2">
-                {!todayAttendance?.check_in_time ? (
-                  <Button onClick={handleCheckIn} className="bg-emerald-600 hover:bg-emerald-700">
-                    <Clock className="h-4 w-4 mr-2" />
-                    Check In
-                  </Button>
+                {todayAttendance?.status === 'on_leave' ? (
+                  <Badge className={attendanceStatusClasses.on_leave}>
+                    {attendanceStatusLabels.on_leave}
+                  </Badge>
                 ) : !todayAttendance?.check_out_time ? (
-                  <Button onClick={handleCheckOut} variant="outline">
-                    <Clock className="h-4 w-4 mr-2" />
-                    Check Out
-                  </Button>
+                  <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <QrCode className="h-4 w-4" />
+                    Scan the QR code at the office to check {todayAttendance?.check_in_time ? 'out' : 'in'}
+                  </span>
                 ) : (
                   <Badge variant="default" className="bg-emerald-500">
                     Day Complete
@@ -419,6 +563,9 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
             <CardTitle className="flex items-center gap-2">
               <Calendar className="h-5 w-5 text-accent" />
               Supervisor Attendance - {format(new Date(), 'MMMM dd, yyyy')}
+              {showBikramSambat && (
+                <span className="text-sm font-normal text-muted-foreground">({formatBikramSambat(new Date())})</span>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -432,6 +579,9 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                         <span className="text-sm text-muted-foreground">
                           Checked in: {format(new Date(todayAttendance.check_in_time), 'hh:mm a')}
                         </span>
+                        {todayAttendance.is_remote && (
+                          <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">Remote</Badge>
+                        )}
                       </div>
                     )}
                     {todayAttendance.check_out_time && (
@@ -440,14 +590,36 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                         <span className="text-sm text-muted-foreground">
                           Checked out: {format(new Date(todayAttendance.check_out_time), 'hh:mm a')}
                         </span>
+                        {todayAttendance.auto_checked_out && (
+                          <Badge variant="outline" title="Checked out automatically at the end of the day">Auto</Badge>
+                        )}
                       </div>
                     )}
                   </div>
+                ) : todayHoliday ? (
+                  <span className="text-muted-foreground">Today is a holiday: {todayHoliday.name}</span>
                 ) : (
                   <span className="text-muted-foreground">No attendance marked today</span>
                 )}
               </div>
               <div className="flex gap-2">
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <QrCode className="h-4 w-4 mr-2" />
+                      Check-in QR
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-sm">
+                    <DialogHeader>
+                      <DialogTitle>Intern Check-in</DialogTitle>
+                    </DialogHeader>
+                    <p className="text-sm text-muted-foreground">
+                      Your interns scan this code with their phone camera to check in or out. It changes every 30 seconds.
+                    </p>
+                    <CheckInQrCode />
+                  </DialogContent>
+                </Dialog>
                 {!todayAttendance?.check_in_time ? (
                   <Button onClick={handleCheckIn} className="bg-emerald-600 hover:bg-emerald-700">
                     <Clock className="h-4 w-4 mr-2" />
@@ -469,6 +641,41 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
         </Card>
       )}
 
+      {(userRole === 'intern' || userRole === 'supervisor') && (
+        <AttendanceCorrections
+          userRole={userRole}
+          userId={user!.id}
+          interns={interns}
+          draft={correctionDraft}
+          onDraftClose={() => setCorrectionDraft(null)}
+        />
+      )}
+
+      {userRole === 'supervisor' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Today's Summary
+              {todayHoliday && <Badge variant="outline">Holiday: {todayHoliday.name}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+              {todaySummary.map(({ status, count }) => (
+                <div key={status} className={`rounded-lg p-3 ${attendanceStatusClasses[status]}`}>
+                  <div className="text-2xl font-bold">{count}</div>
+                  <div className="text-xs">{attendanceStatusLabels[status]}</div>
+                </div>
+              ))}
+              <div className="rounded-lg p-3 bg-gray-100 text-gray-700">
+                <div className="text-2xl font-bold">{notCheckedInCount}</div>
+                <div className="text-xs">Not Checked In</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Attendance */}
       <Card>
         <CardHeader>
@@ -486,7 +693,8 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                   <th className="text-left p-2">Check In</th>
                   <th className="text-left p-2">Check Out</th>
                   <th className="text-left p-2">Status</th>
-                  {userRole === 'supervisor' && <th className="text-left p-2">Actions</th>}
+                  {userRole === 'supervisor' && <th className="text-left p-2">Location</th>}
+                  <th className="text-left p-2">Actions</th>
                 </tr>
               </thead>
               <tbody>
@@ -497,7 +705,12 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                         {(record as any).user_name || 'Unknown User'}
                       </td>
                     )}
-                    <td className="p-2">{format(new Date(record.date), 'MMM dd, yyyy')}</td>
+                    <td className="p-2">
+                      {format(new Date(record.date), 'MMM dd, yyyy')}
+                      {showBikramSambat && (
+                        <span className="block text-xs text-muted-foreground">{formatBikramSambat(record.date)}</span>
+                      )}
+                    </td>
                     <td className="p-2">
                       {record.check_in_time 
                         ? format(new Date(record.check_in_time), 'hh:mm a')
@@ -509,8 +722,12 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                         ? format(new Date(record.check_out_time), 'hh:mm a')
                         : '-'
                       }
+                      {record.auto_checked_out && (
+                        <Badge variant="outline" className="ml-2" title="Checked out automatically at the end of the day">Auto</Badge>
+                      )}
                     </td>
                     <td className="p-2">{getStatusBadge(record)}</td>
+                    {userRole === 'supervisor' && <td className="p-2">{renderLocation(record)}</td>}
                     {userRole === 'supervisor' && (
                       <td className="p-2">
                         <Dialog>
@@ -523,7 +740,7 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                               <Edit className="h-4 w-4" />
                             </Button>
                           </DialogTrigger>
-                          <DialogContent>
+                          <DialogContent className="max-h-[90vh] overflow-y-auto">
                             <DialogHeader>
                               <DialogTitle>Edit Attendance</DialogTitle>
                             </DialogHeader>
@@ -544,14 +761,57 @@ const AttendanceSystem: React.FC<AttendanceSystemProps> = ({ userRole }) => {
                                   onChange={(e) => setEditCheckOut(e.target.value)}
                                 />
                               </div>
-                              <Button onClick={handleEditAttendance} className="w-full">
+                              <div>
+                                <label className="text-sm font-medium">Reason for Change</label>
+                                <Textarea
+                                  value={editReason}
+                                  onChange={(e) => setEditReason(e.target.value)}
+                                  placeholder="Recorded in the attendance history"
+                                />
+                              </div>
+                              <Button onClick={handleEditAttendance} className="w-full" disabled={!editReason.trim()}>
                                 Update Attendance
                               </Button>
+                              <div className="space-y-2">
+                                <h4 className="text-sm font-medium">Change History</h4>
+                                {auditEntries.map((entry) => (
+                                  <div key={entry.id} className="text-xs border rounded-md p-2 space-y-1">
+                                    <div className="flex items-center justify-between">
+                                      <span className="font-medium">{entry.editor_name}</span>
+                                      <span className="text-muted-foreground">{format(new Date(entry.created_at), 'MMM dd, yyyy hh:mm a')}</span>
+                                    </div>
+                                    {entry.old_check_in_time !== entry.new_check_in_time && (
+                                      <p>Check in: {formatAuditTime(entry.old_check_in_time)} &rarr; {formatAuditTime(entry.new_check_in_time)}</p>
+                                    )}
+                                    {entry.old_check_out_time !== entry.new_check_out_time && (
+                                      <p>Check out: {formatAuditTime(entry.old_check_out_time)} &rarr; {formatAuditTime(entry.new_check_out_time)}</p>
+                                    )}
+                                    <p className="text-muted-foreground">
+                                      {entry.source === 'correction' ? 'Intern correction request: ' : ''}{entry.reason}
+                                    </p>
+                                  </div>
+                                ))}
+                                {auditEntries.length === 0 && (
+                                  <p className="text-xs text-muted-foreground">No manual changes yet</p>
+                                )}
+                              </div>
                             </div>
                           </DialogContent>
                         </Dialog>
                       </td>
                     )}
+                    {userRole === 'intern' && (
+                      <td className="p-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Request correction"
+                          onClick={() => setCorrectionDraft(record)}
+                        >
+                          <ClipboardEdit className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
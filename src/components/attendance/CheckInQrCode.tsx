@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Progress } from '@/components/ui/progress';
+import { issueAttendanceToken, getCheckInUrl, TOKEN_WINDOW_MS } from '@/services/attendanceTokenService';
+
+interface CheckInQrCodeProps {
+  size?: number;
+}
+
+const CheckInQrCode: React.FC<CheckInQrCodeProps> = ({ size = 256 }) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [remainingMs, setRemainingMs] = useState(TOKEN_WINDOW_MS);
+
+  useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout>;
+
+    // Refresh on the window boundary so the code on screen is never one the server has expired
+    const refresh = async () => {
+      try {
+        setToken(await issueAttendanceToken());
+        setError(null);
+      } catch (error) {
+        console.error('Error issuing check-in code:', error);
+        setError((error as { message?: string })?.message || 'Failed to load check-in code');
+      }
+      refreshTimer = setTimeout(refresh, TOKEN_WINDOW_MS - (Date.now() % TOKEN_WINDOW_MS));
+    };
+
+    refresh();
+    const countdown = setInterval(() => {
+      setRemainingMs(TOKEN_WINDOW_MS - (Date.now() % TOKEN_WINDOW_MS));
+    }, 1000);
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearInterval(countdown);
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center">{error}</p>;
+  }
+
+  if (!token) {
+    return (
+      <div className="flex items-center justify-center" style={{ width: size, height: size }}>
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="bg-white p-4 rounded-lg">
+        <QRCodeSVG value={getCheckInUrl(token)} size={size} />
+      </div>
+      <div className="w-full space-y-1">
+        <Progress value={(remainingMs / TOKEN_WINDOW_MS) * 100} className="h-1" />
+        <p className="text-xs text-muted-foreground text-center">
+          New code in {Math.ceil(remainingMs / 1000)}s
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CheckInQrCode;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Edit, Trash2, LocateFixed, MapPin } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchDepartments } from '@/services/workScheduleService';
+import {
+  fetchGeofences,
+  saveGeofence,
+  deleteGeofence,
+  getCurrentPosition,
+  getMapUrl,
+  enforcementLabels,
+  GeofenceEnforcement,
+  OfficeGeofence,
+} from '@/services/geofenceService';
+
+type GeofenceForm = Omit<OfficeGeofence, 'id' | 'latitude' | 'longitude'> & {
+  id?: string;
+  latitude: string;
+  longitude: string;
+};
+
+const ALL_DEPARTMENTS = 'all';
+
+const emptyGeofence: GeofenceForm = {
+  name: '',
+  department: null,
+  latitude: '',
+  longitude: '',
+  radius_meters: 200,
+  enforcement: 'flag',
+};
+
+const GeofenceSettings: React.FC = () => {
+  const [geofences, setGeofences] = useState<OfficeGeofence[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<GeofenceForm | null>(null);
+  const [locating, setLocating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    const [geofenceData, departmentData] = await Promise.all([fetchGeofences(), fetchDepartments()]);
+    setGeofences(geofenceData);
+    setDepartments(departmentData);
+    setLoading(false);
+  };
+
+  const fillCurrentLocation = async () => {
+    if (!editing) return;
+
+    setLocating(true);
+    const position = await getCurrentPosition();
+    setLocating(false);
+
+    if (!position) {
+      toast({
+        title: "Error",
+        description: "Could not get your location. Check that location access is allowed.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEditing({
+      ...editing,
+      latitude: position.latitude.toFixed(6),
+      longitude: position.longitude.toFixed(6),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const latitude = parseFloat(editing.latitude);
+    const longitude = parseFloat(editing.longitude);
+
+    if (!editing.name.trim() || isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      toast({
+        title: "Error",
+        description: "Enter a name and a valid latitude and longitude",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveGeofence({ ...editing, name: editing.name.trim(), latitude, longitude });
+      toast({
+        title: "Success",
+        description: "Geofence saved",
+      });
+      setEditing(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving geofence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save geofence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (geofence: OfficeGeofence) => {
+    try {
+      await deleteGeofence(geofence.id);
+      toast({
+        title: "Success",
+        description: `${geofence.name} removed`,
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting geofence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete geofence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Office Geofences</CardTitle>
+          <CardDescription>
+            Check-ins outside a department's offices are marked remote or rejected. Without any geofence, check-ins are accepted anywhere.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setEditing(emptyGeofence)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Geofence
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Office</th>
+                <th className="text-left p-2">Department</th>
+                <th className="text-left p-2">Location</th>
+                <th className="text-left p-2">Radius</th>
+                <th className="text-left p-2">Outside the Fence</th>
+                <th className="text-left p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {geofences.map((geofence) => (
+                <tr key={geofence.id} className="border-b">
+                  <td className="p-2 font-medium">{geofence.name}</td>
+                  <td className="p-2">
+                    {geofence.department || <Badge variant="outline">All departments</Badge>}
+                  </td>
+                  <td className="p-2">
+                    <a
+                      href={getMapUrl(geofence.latitude, geofence.longitude)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <MapPin className="h-3 w-3" />
+                      {geofence.latitude.toFixed(5)}, {geofence.longitude.toFixed(5)}
+                    </a>
+                  </td>
+                  <td className="p-2">{geofence.radius_meters} m</td>
+                  <td className="p-2">
+                    <Badge variant={geofence.enforcement === 'reject' ? 'destructive' : 'secondary'}>
+                      {enforcementLabels[geofence.enforcement]}
+                    </Badge>
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({
+                        ...geofence,
+                        latitude: String(geofence.latitude),
+                        longitude: String(geofence.longitude),
+                      })}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(geofence)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {geofences.length === 0 && (
+            <div className="text-center py-6 text-muted-foreground">
+              No geofences yet. Add your office to start recording remote check-ins.
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Geofence' : 'New Geofence'}</DialogTitle>
+            <DialogDescription>
+              Stand in the office and use your current location, or paste coordinates from a map
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="geofence_name">Office Name</Label>
+                  <Input
+                    id="geofence_name"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    placeholder="e.g. Head Office"
+                  />
+                </div>
+                <div>
+                  <Label>Department</Label>
+                  <Select
+                    value={editing.department || ALL_DEPARTMENTS}
+                    onValueChange={(value) => setEditing({ ...editing, department: value === ALL_DEPARTMENTS ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                      {departments.map((department) => (
+                        <SelectItem key={department} value={department}>
+                          {department}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="geofence_latitude">Latitude</Label>
+                  <Input
+                    id="geofence_latitude"
+                    value={editing.latitude}
+                    onChange={(e) => setEditing({ ...editing, latitude: e.target.value })}
+                    placeholder="27.7172"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="geofence_longitude">Longitude</Label>
+                  <Input
+                    id="geofence_longitude"
+                    value={editing.longitude}
+                    onChange={(e) => setEditing({ ...editing, longitude: e.target.value })}
+                    placeholder="85.3240"
+                  />
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={fillCurrentLocation} disabled={locating}>
+                <LocateFixed className="h-4 w-4 mr-2" />
+                {locating ? 'Locating...' : 'Use My Current Location'}
+              </Button>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="geofence_radius">Radius (meters)</Label>
+                  <Input
+                    id="geofence_radius"
+                    type="number"
+                    min="10"
+                    value={editing.radius_meters}
+                    onChange={(e) => setEditing({ ...editing, radius_meters: Math.max(1, parseInt(e.target.value, 10) || 0) })}
+                  />
+                </div>
+                <div>
+                  <Label>Outside the Fence</Label>
+                  <Select
+                    value={editing.enforcement}
+                    onValueChange={(value) => setEditing({ ...editing, enforcement: value as GeofenceEnforcement })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(enforcementLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave}>
+                  Save Geofence
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default GeofenceSettings;
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Trash2, Download } from 'lucide-react';
+import { format, getISODay, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
+import { formatBikramSambat } from '@/lib/bikramSambat';
+import { getUpcomingHolidayYear, nepaliPublicHolidays } from '@/lib/nepaliHolidays';
+import {
+  fetchHolidays,
+  addHoliday,
+  deleteHoliday,
+  importBundledHolidays,
+  Holiday,
+} from '@/services/holidayService';
+import { defaultWorkingDays, fetchWorkSchedules, getWorkingDays } from '@/services/workScheduleService';
+
+interface HolidayCalendarProps {
+  userId: string;
+}
+
+const HolidayCalendar: React.FC<HolidayCalendarProps> = ({ userId }) => {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [workingDays, setWorkingDays] = useState(defaultWorkingDays);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [importing, setImporting] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+  const { showBikramSambat } = useBikramSambat();
+  const { toast } = useToast();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const importYear = getUpcomingHolidayYear(today);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    const [holidayData, schedules] = await Promise.all([fetchHolidays(), fetchWorkSchedules()]);
+    setHolidays(holidayData);
+    setWorkingDays(getWorkingDays(schedules));
+    setLoading(false);
+  };
+
+  const handleAdd = async () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the date and name of the holiday",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await addHoliday({ date: newHoliday.date, name: newHoliday.name.trim() }, userId);
+      toast({
+        title: "Success",
+        description: "Holiday added",
+      });
+      setIsDialogOpen(false);
+      setNewHoliday({ date: '', name: '' });
+      fetchData();
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add holiday. There may already be a holiday on that date.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    try {
+      await deleteHoliday(holiday.id);
+      toast({
+        title: "Success",
+        description: `${holiday.name} removed from the calendar`,
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete holiday",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importYear) return;
+
+    setImporting(true);
+    try {
+      const imported = await importBundledHolidays(importYear, userId);
+      toast({
+        title: "Success",
+        description: imported > 0
+          ? `Imported ${imported} public holidays for BS ${importYear}`
+          : `All BS ${importYear} public holidays are already on the calendar`,
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error importing holidays:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import public holidays",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const visibleHolidays = showPast ? holidays : holidays.filter(holiday => holiday.date >= today);
+  const pastCount = holidays.length - holidays.filter(holiday => holiday.date >= today).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Holiday Calendar</CardTitle>
+          <CardDescription>
+            No one is marked absent on a holiday, and holidays don't count towards leave or overdue tasks
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleImport}
+            disabled={importing || !importYear}
+            title={importYear ? undefined : 'Every bundled public holiday has passed. Add this year\'s holidays by hand.'}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {importing
+              ? 'Importing...'
+              : importYear
+                ? `Import BS ${importYear} Holidays (${nepaliPublicHolidays[importYear].length})`
+                : 'No Upcoming Nepal Holidays'}
+          </Button>
+          <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Holiday
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Date</th>
+                {showBikramSambat && <th className="text-left p-2">Bikram Sambat</th>}
+                <th className="text-left p-2">Holiday</th>
+                <th className="text-left p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleHolidays.map((holiday) => (
+                <tr key={holiday.id} className="border-b">
+                  <td className="p-2 whitespace-nowrap">{format(parseISO(holiday.date), 'EEE, MMM dd, yyyy')}</td>
+                  {showBikramSambat && (
+                    <td className="p-2 whitespace-nowrap">{formatBikramSambat(holiday.date)}</td>
+                  )}
+                  <td className="p-2 font-medium">
+                    {holiday.name}
+                    {!workingDays.includes(getISODay(parseISO(holiday.date))) && (
+                      <Badge variant="outline" className="ml-2">Day off</Badge>
+                    )}
+                  </td>
+                  <td className="p-2 text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(holiday)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleHolidays.length === 0 && (
+            <div className="text-center py-6 text-muted-foreground">
+              No upcoming holidays. Import the Nepal public holidays or add your own.
+            </div>
+          )}
+          {pastCount > 0 && (
+            <Button variant="link" size="sm" className="mt-2 px-0" onClick={() => setShowPast(!showPast)}>
+              {showPast ? 'Hide past holidays' : `Show ${pastCount} past holidays`}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Holiday</DialogTitle>
+            <DialogDescription>
+              Office closures, local festivals or days the government announces at short notice
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="holiday_date">Date</Label>
+              <Input
+                id="holiday_date"
+                type="date"
+                value={newHoliday.date}
+                onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+              />
+              {newHoliday.date && (
+                <p className="text-xs text-muted-foreground mt-1">{formatBikramSambat(newHoliday.date)}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="holiday_name">Name</Label>
+              <Input
+                id="holiday_name"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                placeholder="e.g. Indra Jatra"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleAdd}>
+                Add Holiday
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default HolidayCalendar;
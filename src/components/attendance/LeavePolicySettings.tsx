@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { fetchLeavePolicies, updateLeavePolicy, leaveTypeLabels, LeavePolicy } from '@/services/leaveService';
+
+const LeavePolicySettings: React.FC = () => {
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLeavePolicies().then((data) => {
+      setPolicies(data);
+      setLoading(false);
+    });
+  }, []);
+
+  const updatePolicy = (leaveType: string, changes: Partial<LeavePolicy>) => {
+    setPolicies(policies.map(policy => policy.leave_type === leaveType ? { ...policy, ...changes } : policy));
+  };
+
+  const savePolicies = async () => {
+    setSaving(true);
+    try {
+      await Promise.all(policies.map(updateLeavePolicy));
+      toast({
+        title: "Success",
+        description: "Leave policy updated",
+      });
+    } catch (error) {
+      console.error('Error updating leave policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update leave policy",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leave Policy</CardTitle>
+        <CardDescription>
+          Yearly allowance per leave type, counted in working days. Leave the allowance empty for unlimited leave.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-2">Leave Type</th>
+              <th className="text-left p-2">Days per Year</th>
+              <th className="text-left p-2">Requires Document</th>
+            </tr>
+          </thead>
+          <tbody>
+            {policies.map((policy) => (
+              <tr key={policy.leave_type} className="border-b">
+                <td className="p-2 font-medium">{leaveTypeLabels[policy.leave_type]}</td>
+                <td className="p-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-28"
+                    value={policy.annual_days ?? ''}
+                    placeholder="Unlimited"
+                    onChange={(e) => updatePolicy(policy.leave_type, {
+                      annual_days: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0),
+                    })}
+                  />
+                </td>
+                <td className="p-2">
+                  <Switch
+                    checked={policy.requires_attachment}
+                    onCheckedChange={(checked) => updatePolicy(policy.leave_type, { requires_attachment: checked })}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-end">
+          <Button onClick={savePolicies} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeavePolicySettings;
@@ -0,0 +1,561 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { CalendarOff, Paperclip, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAssignedInterns, fetchInternSupervisorIds } from '@/services/assignmentService';
+import { createNotification, notifyMultipleUsers, notificationTemplates } from '@/services/notificationService';
+import { fetchHolidays } from '@/services/holidayService';
+import { fetchWorkingDaysByUser } from '@/services/workScheduleService';
+import {
+  fetchLeaveBalances,
+  fetchLeaveRequests,
+  uploadLeaveAttachment,
+  removeLeaveAttachment,
+  getLeaveAttachmentUrl,
+  countLeaveDays,
+  formatLeaveDates,
+  leaveTypeLabels,
+  MAX_LEAVE_ATTACHMENT_SIZE,
+  ALLOWED_LEAVE_ATTACHMENT_TYPES,
+  LeaveBalance,
+  LeaveRequest,
+  LeaveType,
+} from '@/services/leaveService';
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface LeaveRequestsProps {
+  userRole: 'intern' | 'supervisor';
+  userId: string;
+}
+
+const emptyRequest = {
+  leave_type: 'sick' as LeaveType,
+  start_date: '',
+  end_date: '',
+  reason: '',
+};
+
+const getLeaveStatusBadge = (status: string) => {
+  switch (status) {
+    case 'approved':
+      return <Badge className="bg-emerald-100 text-emerald-800">Approved</Badge>;
+    case 'rejected':
+      return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+    case 'cancelled':
+      return <Badge variant="outline">Cancelled</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+  }
+};
+
+const LeaveRequests: React.FC<LeaveRequestsProps> = ({ userRole, userId }) => {
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [interns, setInterns] = useState<Profile[]>([]);
+  const [holidayDates, setHolidayDates] = useState<string[]>([]);
+  const [workingDays, setWorkingDays] = useState<Record<string, number[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newRequest, setNewRequest] = useState(emptyRequest);
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewing, setReviewing] = useState<{ request: LeaveRequest; decision: 'approved' | 'rejected' } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, [userRole, userId]);
+
+  const fetchData = async () => {
+    try {
+      const holidays = await fetchHolidays();
+      setHolidayDates(holidays.map(holiday => holiday.date));
+
+      if (userRole === 'supervisor') {
+        const data = await fetchAssignedInterns(userId);
+        const internIds = data.map(intern => intern.id);
+        setInterns(data);
+
+        const [requestData, workingDayData] = await Promise.all([
+          fetchLeaveRequests(internIds),
+          fetchWorkingDaysByUser(internIds),
+        ]);
+        setRequests(requestData);
+        setWorkingDays(workingDayData);
+      } else {
+        const [requestData, balanceData, workingDayData] = await Promise.all([
+          fetchLeaveRequests([userId]),
+          fetchLeaveBalances(userId),
+          fetchWorkingDaysByUser([userId]),
+        ]);
+        setRequests(requestData);
+        setBalances(balanceData);
+        setWorkingDays(workingDayData);
+      }
+    } catch (error) {
+      console.error('Error fetching leave requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedBalance = balances.find(balance => balance.leave_type === newRequest.leave_type);
+  const requestedDays = countLeaveDays(newRequest.start_date, newRequest.end_date, holidayDates, workingDays[userId]);
+  const remainingDays = selectedBalance?.annual_days != null
+    ? selectedBalance.annual_days - selectedBalance.used_days - selectedBalance.pending_days
+    : null;
+
+  const handleAttachment = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    if (file && (file.size > MAX_LEAVE_ATTACHMENT_SIZE || !ALLOWED_LEAVE_ATTACHMENT_TYPES.includes(file.type))) {
+      toast({
+        title: "Error",
+        description: "Attach a PDF or image no larger than 10 MB",
+        variant: "destructive",
+      });
+      event.target.value = '';
+      return;
+    }
+    setAttachment(file);
+  };
+
+  const submitRequest = async () => {
+    if (!newRequest.start_date || !newRequest.end_date || !newRequest.reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please fill in the dates and a reason",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    let attachmentPath: string | null = null;
+
+    try {
+      if (attachment) {
+        attachmentPath = await uploadLeaveAttachment(userId, attachment);
+      }
+
+      const { data, error } = await supabase
+        .from('leave_requests')
+        .insert({
+          intern_id: userId,
+          leave_type: newRequest.leave_type,
+          start_date: newRequest.start_date,
+          end_date: newRequest.end_date,
+          reason: newRequest.reason.trim(),
+          attachment_path: attachmentPath,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const [{ data: intern }, supervisorIds] = await Promise.all([
+        supabase.from('profiles').select('full_name').eq('id', userId).single(),
+        fetchInternSupervisorIds(userId),
+      ]);
+
+      await notifyMultipleUsers(
+        supervisorIds,
+        notificationTemplates.leaveRequested(
+          intern?.full_name || 'An intern',
+          leaveTypeLabels[newRequest.leave_type].toLowerCase(),
+          formatLeaveDates(newRequest)
+        ),
+        { leaveRequestId: data.id }
+      );
+
+      toast({
+        title: "Success",
+        description: "Leave request submitted",
+      });
+
+      setIsDialogOpen(false);
+      setNewRequest(emptyRequest);
+      setAttachment(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error requesting leave:', error);
+      if (attachmentPath) {
+        // Don't leave an orphaned document behind
+        await removeLeaveAttachment(attachmentPath);
+      }
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to submit leave request",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const updateStatus = async (request: LeaveRequest, status: 'approved' | 'rejected' | 'cancelled', note?: string) => {
+    try {
+      const { error } = await supabase
+        .from('leave_requests')
+        .update(status === 'cancelled' ? { status } : { status, review_note: note?.trim() || null })
+        .eq('id', request.id);
+
+      if (error) throw error;
+
+      const leaveType = leaveTypeLabels[request.leave_type].toLowerCase();
+      if (status === 'approved' || status === 'rejected') {
+        await createNotification({
+          userId: request.intern_id,
+          ...(status === 'approved'
+            ? notificationTemplates.leaveApproved(leaveType, formatLeaveDates(request))
+            : notificationTemplates.leaveRejected(leaveType, formatLeaveDates(request), note!.trim())),
+          data: { leaveRequestId: request.id }
+        });
+      }
+
+      toast({
+        title: "Success",
+        description: `Leave request ${status}`,
+      });
+
+      setReviewing(null);
+      setReviewNote('');
+      fetchData();
+    } catch (error) {
+      console.error('Error updating leave request:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to update leave request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openAttachment = async (path: string) => {
+    const url = await getLeaveAttachmentUrl(path);
+    if (url) window.open(url, '_blank');
+  };
+
+  const getInternName = (internId: string) => {
+    return interns.find(intern => intern.id === internId)?.full_name || 'Unknown';
+  };
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+  const pastRequests = userRole === 'supervisor'
+    ? requests.filter(request => request.status !== 'pending')
+    : requests;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Leave</h2>
+          <p className="text-muted-foreground">
+            {userRole === 'intern' ? 'Request time off and track your leave balance' : 'Review leave requests from your interns'}
+          </p>
+        </div>
+
+        {userRole === 'intern' && (
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <CalendarOff className="h-4 w-4 mr-2" />
+                Request Leave
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Request Leave</DialogTitle>
+                <DialogDescription>
+                  Your supervisor will be notified and can approve or reject the request
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>Leave Type</Label>
+                  <Select
+                    value={newRequest.leave_type}
+                    onValueChange={(value) => setNewRequest({ ...newRequest, leave_type: value as LeaveType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(leaveTypeLabels) as LeaveType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {leaveTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="leave_start">From</Label>
+                    <Input
+                      id="leave_start"
+                      type="date"
+                      value={newRequest.start_date}
+                      onChange={(e) => setNewRequest({
+                        ...newRequest,
+                        start_date: e.target.value,
+                        end_date: newRequest.end_date && newRequest.end_date >= e.target.value ? newRequest.end_date : e.target.value,
+                      })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="leave_end">To</Label>
+                    <Input
+                      id="leave_end"
+                      type="date"
+                      min={newRequest.start_date}
+                      value={newRequest.end_date}
+                      onChange={(e) => setNewRequest({ ...newRequest, end_date: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {requestedDays > 0 && (
+                  <p className={`text-sm ${remainingDays !== null && requestedDays > remainingDays ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {requestedDays} working {requestedDays === 1 ? 'day' : 'days'}
+                    {remainingDays !== null && ` of ${Math.max(remainingDays, 0)} remaining`}
+                  </p>
+                )}
+                <div>
+                  <Label htmlFor="leave_reason">Reason</Label>
+                  <Textarea
+                    id="leave_reason"
+                    value={newRequest.reason}
+                    onChange={(e) => setNewRequest({ ...newRequest, reason: e.target.value })}
+                    placeholder="Why do you need leave?"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="leave_attachment">
+                    Supporting Document {selectedBalance?.requires_attachment ? '(required)' : '(optional)'}
+                  </Label>
+                  <Input
+                    id="leave_attachment"
+                    type="file"
+                    accept={ALLOWED_LEAVE_ATTACHMENT_TYPES.join(',')}
+                    onChange={handleAttachment}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={submitRequest}
+                    disabled={submitting || (selectedBalance?.requires_attachment && !attachment)}
+                  >
+                    {submitting ? 'Submitting...' : 'Submit Request'}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {userRole === 'intern' && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {balances.map((balance) => (
+            <Card key={balance.leave_type}>
+              <CardContent className="p-4 space-y-2">
+                <p className="text-sm text-muted-foreground">{leaveTypeLabels[balance.leave_type]} Leave</p>
+                {balance.annual_days !== null ? (
+                  <>
+                    <p className="text-2xl font-bold">
+                      {Math.max(balance.annual_days - balance.used_days - balance.pending_days, 0)}
+                      <span className="text-sm font-normal text-muted-foreground"> / {balance.annual_days} days left</span>
+                    </p>
+                    <Progress
+                      value={balance.annual_days > 0 ? ((balance.used_days + balance.pending_days) / balance.annual_days) * 100 : 100}
+                      className="h-2"
+                    />
+                  </>
+                ) : (
+                  <p className="text-2xl font-bold">
+                    {balance.used_days}
+                    <span className="text-sm font-normal text-muted-foreground"> days taken</span>
+                  </p>
+                )}
+                {balance.pending_days > 0 && (
+                  <p className="text-xs text-muted-foreground">{balance.pending_days} days awaiting approval</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {userRole === 'supervisor' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Approval ({pendingRequests.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {pendingRequests.map((request) => (
+              <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{getInternName(request.intern_id)}</span>
+                    <Badge variant="outline">{leaveTypeLabels[request.leave_type]}</Badge>
+                  </div>
+                  <p className="text-sm">
+                    {formatLeaveDates(request)} &middot; {countLeaveDays(request.start_date, request.end_date, holidayDates, workingDays[request.intern_id])} working days
+                  </p>
+                  <p className="text-sm text-muted-foreground">{request.reason}</p>
+                  {request.attachment_path && (
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={() => openAttachment(request.attachment_path!)}>
+                      <Paperclip className="h-3 w-3 mr-1" />
+                      View document
+                    </Button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" className="bg-emerald-600 hover:bg-emerald-700" onClick={() => setReviewing({ request, decision: 'approved' })}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setReviewing({ request, decision: 'rejected' })}>
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {pendingRequests.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No leave requests awaiting approval
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{userRole === 'supervisor' ? 'Leave History' : 'Your Leave Requests'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  {userRole === 'supervisor' && <th className="text-left p-2">Intern</th>}
+                  <th className="text-left p-2">Type</th>
+                  <th className="text-left p-2">Dates</th>
+                  <th className="text-left p-2">Days</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Note</th>
+                  <th className="text-left p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {pastRequests.map((request) => (
+                  <tr key={request.id} className="border-b">
+                    {userRole === 'supervisor' && (
+                      <td className="p-2 font-medium">{getInternName(request.intern_id)}</td>
+                    )}
+                    <td className="p-2">{leaveTypeLabels[request.leave_type]}</td>
+                    <td className="p-2">{formatLeaveDates(request)}</td>
+                    <td className="p-2">{countLeaveDays(request.start_date, request.end_date, holidayDates, workingDays[request.intern_id])}</td>
+                    <td className="p-2">{getLeaveStatusBadge(request.status)}</td>
+                    <td className="p-2 text-muted-foreground">{request.review_note || '-'}</td>
+                    <td className="p-2 text-right">
+                      {request.attachment_path && (
+                        <Button variant="ghost" size="sm" onClick={() => openAttachment(request.attachment_path!)}>
+                          <Paperclip className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(request.status === 'pending'
+                        || (request.status === 'approved' && (userRole === 'supervisor' || request.start_date > today))) && (
+                        <Button variant="ghost" size="sm" onClick={() => updateStatus(request, 'cancelled')}>
+                          Cancel
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {pastRequests.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No leave requests yet
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!reviewing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReviewing(null);
+            setReviewNote('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.decision === 'approved' ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+            <DialogDescription>
+              {reviewing && `${getInternName(reviewing.request.intern_id)} - ${leaveTypeLabels[reviewing.request.leave_type]} leave, ${formatLeaveDates(reviewing.request)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="review_note">
+                {reviewing?.decision === 'rejected' ? 'Reason' : 'Note (optional)'}
+              </Label>
+              <Textarea
+                id="review_note"
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder={reviewing?.decision === 'rejected' ? 'Explain why the leave is rejected' : 'Add a note for the intern'}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setReviewing(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => reviewing && updateStatus(reviewing.request, reviewing.decision, reviewNote)}
+                disabled={reviewing?.decision === 'rejected' && !reviewNote.trim()}
+              >
+                {reviewing?.decision === 'approved' ? 'Approve' : 'Reject'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LeaveRequests;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, FileDown, FileSpreadsheet } from 'lucide-react';
+import { addMonths, format, startOfMonth } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { attendanceStatusClasses, attendanceStatusLabels, AttendanceStatus } from '@/services/workScheduleService';
+import {
+  fetchMonthlyReport,
+  exportReportCsv,
+  exportReportPdf,
+  formatReportHours,
+  reportCellCodes,
+  reportTotalColumns,
+  MonthlyReport,
+  ReportCell,
+} from '@/services/attendanceReportService';
+
+interface MonthlyAttendanceReportProps {
+  userId: string;
+}
+
+const getCellClass = (cell: ReportCell) => {
+  if (cell === 'holiday') return 'bg-indigo-100 text-indigo-800';
+  if (cell === 'off' || !cell) return 'text-muted-foreground';
+  return attendanceStatusClasses[cell];
+};
+
+const getCellTitle = (cell: ReportCell) => {
+  if (cell === 'holiday') return 'Holiday';
+  if (cell === 'off') return 'Day off';
+  if (!cell) return 'Not recorded';
+  return attendanceStatusLabels[cell as AttendanceStatus];
+};
+
+const MonthlyAttendanceReport: React.FC<MonthlyAttendanceReportProps> = ({ userId }) => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [report, setReport] = useState<MonthlyReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [userId, month]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const interns = await fetchAssignedInterns(userId);
+      setReport(await fetchMonthlyReport(interns, month));
+    } catch (error) {
+      console.error('Error fetching attendance report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the attendance report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Monthly Attendance Report</CardTitle>
+            <CardDescription>{format(month, 'MMMM yyyy')}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+              This Month
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => report && exportReportCsv(report)} disabled={!report?.rows.length}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button size="sm" onClick={() => report && exportReportPdf(report)} disabled={!report?.rows.length}>
+              <FileDown className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading || !report ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : report.rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No interns assigned to you yet</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 sticky left-0 bg-background min-w-[140px]">Intern</th>
+                    {report.days.map((day, index) => (
+                      <th
+                        key={day.toISOString()}
+                        className={`p-1 text-center font-medium ${report.rows.every(row => row.cells[index] === 'off') ? 'text-muted-foreground' : ''}`}
+                      >
+                        {format(day, 'd')}
+                        <span className="block font-normal">{format(day, 'EEEEE')}</span>
+                      </th>
+                    ))}
+                    {reportTotalColumns.map((column) => (
+                      <th key={column.key} className="p-2 text-center whitespace-nowrap">{column.label}</th>
+                    ))}
+                    <th className="p-2 text-right">Hours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => (
+                    <tr key={row.intern.id} className="border-b">
+                      <td className="p-2 font-medium sticky left-0 bg-background">
+                        {row.intern.full_name}
+                        {row.intern.department && (
+                          <span className="block text-muted-foreground font-normal">{row.intern.department}</span>
+                        )}
+                      </td>
+                      {row.cells.map((cell, index) => (
+                        <td key={index} className="p-0.5 text-center">
+                          <span
+                            title={`${format(report.days[index], 'MMM dd')}: ${getCellTitle(cell)}`}
+                            className={`block rounded px-1 py-1 ${getCellClass(cell)}`}
+                          >
+                            {cell ? reportCellCodes[cell] : '·'}
+                          </span>
+                        </td>
+                      ))}
+                      {reportTotalColumns.map((column) => (
+                        <td key={column.key} className="p-2 text-center">{row.totals[column.key]}</td>
+                      ))}
+                      <td className="p-2 text-right font-medium">{formatReportHours(row.workedMinutes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap gap-3 mt-4 text-xs text-muted-foreground">
+              {Object.entries(reportCellCodes).map(([cell, code]) => (
+                <span key={cell} className="flex items-center gap-1">
+                  <span className={`rounded px-1 ${getCellClass(cell as ReportCell)}`}>{code}</span>
+                  {getCellTitle(cell as ReportCell)}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonthlyAttendanceReport;
@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchWorkSchedules,
+  fetchDepartments,
+  saveWorkSchedule,
+  deleteWorkSchedule,
+  weekdays,
+  WorkSchedule,
+} from '@/services/workScheduleService';
+
+type ScheduleForm = Omit<WorkSchedule, 'id'> & { id?: string };
+
+const emptySchedule: ScheduleForm = {
+  department: '',
+  start_time: '09:00',
+  end_time: '17:00',
+  grace_minutes: 15,
+  required_hours: 8,
+  half_day_hours: 4,
+  working_days: [7, 1, 2, 3, 4, 5],
+  timezone: 'Asia/Kathmandu',
+  reminder_time: '09:30',
+  auto_checkout_time: '20:00',
+};
+
+const formatJobTime = (time: string | null) => time ? time.slice(0, 5) : 'Off';
+
+const WorkScheduleSettings: React.FC = () => {
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ScheduleForm | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    const [scheduleData, departmentData] = await Promise.all([fetchWorkSchedules(), fetchDepartments()]);
+    setSchedules(scheduleData);
+    setDepartments(departmentData);
+    setLoading(false);
+  };
+
+  // Departments that don't have their own schedule yet
+  const availableDepartments = departments.filter(
+    department => !schedules.some(schedule => schedule.department === department && schedule.id !== editing?.id)
+  );
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    if (editing.id === undefined && !editing.department) {
+      toast({
+        title: "Error",
+        description: "Choose the department this schedule applies to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editing.working_days.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one working day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editing.reminder_time && editing.auto_checkout_time && editing.reminder_time.slice(0, 5) >= editing.auto_checkout_time.slice(0, 5)) {
+      toast({
+        title: "Error",
+        description: "The check-in reminder must go out before the automatic check-out",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveWorkSchedule({
+        ...editing,
+        start_time: editing.start_time.slice(0, 5),
+        end_time: editing.end_time.slice(0, 5),
+        reminder_time: editing.reminder_time?.slice(0, 5) || null,
+        auto_checkout_time: editing.auto_checkout_time?.slice(0, 5) || null,
+      });
+      toast({
+        title: "Success",
+        description: "Schedule saved",
+      });
+      setEditing(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save schedule. Check that the end time is after the start time and half-day hours do not exceed required hours.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (schedule: WorkSchedule) => {
+    try {
+      await deleteWorkSchedule(schedule.id);
+      toast({
+        title: "Success",
+        description: `${schedule.department} now follows the default schedule`,
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Work Schedules</CardTitle>
+          <CardDescription>
+            Check-ins are marked late, half day or left early against the intern's department schedule
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setEditing(emptySchedule)} disabled={availableDepartments.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          Department Schedule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Department</th>
+                <th className="text-left p-2">Hours</th>
+                <th className="text-left p-2">Grace</th>
+                <th className="text-left p-2">Required</th>
+                <th className="text-left p-2">Working Days</th>
+                <th className="text-left p-2">Reminder</th>
+                <th className="text-left p-2">Auto Check-out</th>
+                <th className="text-left p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map((schedule) => (
+                <tr key={schedule.id} className="border-b">
+                  <td className="p-2 font-medium">
+                    {schedule.department || <Badge variant="outline">Default</Badge>}
+                  </td>
+                  <td className="p-2">{schedule.start_time.slice(0, 5)} - {schedule.end_time.slice(0, 5)}</td>
+                  <td className="p-2">{schedule.grace_minutes} min</td>
+                  <td className="p-2">{schedule.required_hours}h (half day under {schedule.half_day_hours}h)</td>
+                  <td className="p-2">
+                    {weekdays.filter(day => schedule.working_days.includes(day.value)).map(day => day.label).join(', ')}
+                  </td>
+                  <td className="p-2">{formatJobTime(schedule.reminder_time)}</td>
+                  <td className="p-2">{formatJobTime(schedule.auto_checkout_time)}</td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(schedule)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    {schedule.department && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Schedule' : 'New Department Schedule'}</DialogTitle>
+            <DialogDescription>
+              Times are in {editing?.timezone}
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              {editing.department !== null && (
+                <div>
+                  <Label>Department</Label>
+                  <Select
+                    value={editing.department || undefined}
+                    onValueChange={(value) => setEditing({ ...editing, department: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select department" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableDepartments.map((department) => (
+                        <SelectItem key={department} value={department}>
+                          {department}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="schedule_start">Start</Label>
+                  <Input
+                    id="schedule_start"
+                    type="time"
+                    value={editing.start_time.slice(0, 5)}
+                    onChange={(e) => setEditing({ ...editing, start_time: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="schedule_end">End</Label>
+                  <Input
+                    id="schedule_end"
+                    type="time"
+                    value={editing.end_time.slice(0, 5)}
+                    onChange={(e) => setEditing({ ...editing, end_time: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="schedule_grace">Grace (min)</Label>
+                  <Input
+                    id="schedule_grace"
+                    type="number"
+                    min="0"
+                    value={editing.grace_minutes}
+                    onChange={(e) => setEditing({ ...editing, grace_minutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="schedule_required">Required Hours</Label>
+                  <Input
+                    id="schedule_required"
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={editing.required_hours}
+                    onChange={(e) => setEditing({ ...editing, required_hours: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="schedule_half_day">Half Day Below (hours)</Label>
+                  <Input
+                    id="schedule_half_day"
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={editing.half_day_hours}
+                    onChange={(e) => setEditing({ ...editing, half_day_hours: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Working Days</Label>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  className="justify-start"
+                  value={editing.working_days.map(String)}
+                  onValueChange={(values) => setEditing({ ...editing, working_days: values.map(Number) })}
+                >
+                  {weekdays.map((day) => (
+                    <ToggleGroupItem key={day.value} value={String(day.value)} size="sm">
+                      {day.label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="schedule_reminder">Check-in Reminder</Label>
+                  <Input
+                    id="schedule_reminder"
+                    type="time"
+                    value={editing.reminder_time?.slice(0, 5) || ''}
+                    onChange={(e) => setEditing({ ...editing, reminder_time: e.target.value || null })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Interns who haven't checked in get a notification. Clear to turn off.</p>
+                </div>
+                <div>
+                  <Label htmlFor="schedule_auto_checkout">Auto Check-out</Label>
+                  <Input
+                    id="schedule_auto_checkout"
+                    type="time"
+                    value={editing.auto_checkout_time?.slice(0, 5) || ''}
+                    onChange={(e) => setEditing({ ...editing, auto_checkout_time: e.target.value || null })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Open check-ins close at the end time and mentors hear who was absent.</p>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave}>
+                  Save Schedule
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default WorkScheduleSettings;
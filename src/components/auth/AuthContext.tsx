@@ -8,7 +8,7 @@ interface AuthContextType {
   session: Session | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, fullName: string, role: 'intern' | 'supervisor', phone?: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, fullName: string, inviteToken: string, phone?: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
 }
 
@@ -55,7 +55,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return { error };
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'intern' | 'supervisor', phone?: string) => {
+  const signUp = async (email: string, password: string, fullName: string, inviteToken: string, phone?: string) => {
+    // Sign-up is invitation only; the database trigger rejects accounts without a valid token
+    const { data: invitations, error: inviteError } = await supabase
+      .rpc('get_invitation', { invite_token: inviteToken });
+    const invitation = invitations?.[0];
+
+    if (inviteError || !invitation) {
+      return { error: inviteError || new Error('This invitation is invalid or has expired') };
+    }
+
+    if (invitation.email.toLowerCase() !== email.toLowerCase()) {
+      return { error: new Error('This invitation was issued for a different email address') };
+    }
+
     const { error } = await supabase.auth.signUp({
       email,
       password,
@@ -63,32 +76,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         emailRedirectTo: `${window.location.origin}/`,
         data: {
           full_name: fullName,
-          role: role,
           phone: phone,
+          invite_token: inviteToken,
         },
       },
     });
 
-    // Send notification to all supervisors when a new intern signs up
-    if (!error && role === 'intern') {
+    // Let the inviting supervisor know their intern has joined
+    if (!error && invitation.role === 'intern') {
       try {
-        const { data: supervisors } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('role', 'supervisor');
-
-        if (supervisors && supervisors.length > 0) {
-          const notificationPromises = supervisors.map(supervisor =>
-            createNotification({
-              userId: supervisor.id,
-              title: "New Intern Joined",
-              message: `${fullName} has joined as a new intern`,
-              type: "info",
-              data: { internName: fullName, internRole: role }
-            })
-          );
-          await Promise.all(notificationPromises);
-        }
+        await createNotification({
+          userId: invitation.supervisor_id || invitation.invited_by,
+          title: "New Intern Joined",
+          message: `${fullName} has joined as a new intern`,
+          type: "info",
+          data: { internName: fullName, internRole: invitation.role }
+        });
       } catch (notificationError) {
         console.error('Error sending signup notifications:', notificationError);
       }
@@ -10,7 +10,11 @@ import { Badge } from '@/components/ui/badge';
 import { Calendar, Clock, MapPin, Users, Plus } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
+import { formatBikramSambat } from '@/lib/bikramSambat';
 import { sendEventNotification } from '@/services/notificationService';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchHolidays, Holiday } from '@/services/holidayService';
 
 interface Event {
   id: string;
@@ -43,6 +47,8 @@ const EventCalendar: React.FC<EventCalendarProps> = ({ userRole, userId }) => {
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const { showBikramSambat } = useBikramSambat();
   const { toast } = useToast();
 
   const [newEvent, setNewEvent] = useState({
@@ -62,6 +68,15 @@ const EventCalendar: React.FC<EventCalendarProps> = ({ userRole, userId }) => {
     }
   }, [userRole, userId]);
 
+  useEffect(() => {
+    fetchUpcomingHolidays();
+  }, []);
+
+  const fetchUpcomingHolidays = async () => {
+    const data = await fetchHolidays(new Date().toISOString().split('T')[0]);
+    setHolidays(data.slice(0, 5));
+  };
+
   const fetchEvents = async () => {
     try {
       let query = supabase.from('events').select('*');
@@ -91,14 +106,8 @@ const EventCalendar: React.FC<EventCalendarProps> = ({ userRole, userId }) => {
 
   const fetchInterns = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('role', 'intern');
-
-      if (error) throw error;
-
-      setInterns(data || []);
+      const data = await fetchAssignedInterns(userId);
+      setInterns(data);
     } catch (error) {
       console.error('Error fetching interns:', error);
     }
@@ -186,7 +195,7 @@ const EventCalendar: React.FC<EventCalendarProps> = ({ userRole, userId }) => {
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
     return {
-      date: date.toLocaleDateString(),
+      date: showBikramSambat ? `${date.toLocaleDateString()} (${formatBikramSambat(date)})` : date.toLocaleDateString(),
       time: date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
     };
   };
@@ -405,6 +414,26 @@ const EventCalendar: React.FC<EventCalendarProps> = ({ userRole, userId }) => {
               )}
             </CardContent>
           </Card>
+
+          {holidays.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="text-lg">Upcoming Holidays</CardTitle>
+                <CardDescription>The office is closed on these days</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {holidays.map((holiday) => (
+                  <div key={holiday.id} className="flex justify-between items-start gap-2 text-sm">
+                    <span className="font-medium">{holiday.name}</span>
+                    <span className="text-right text-xs text-muted-foreground">
+                      {new Date(`${holiday.date}T00:00:00`).toLocaleDateString()}
+                      {showBikramSambat && <span className="block">{formatBikramSambat(holiday.date)}</span>}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Event List by Date */}
@@ -428,6 +457,11 @@ const EventCalendar: React.FC<EventCalendarProps> = ({ userRole, userId }) => {
                             month: 'long',
                             day: 'numeric'
                           })}
+                          {showBikramSambat && (
+                            <span className="ml-2 text-sm font-normal text-muted-foreground">
+                              {formatBikramSambat(new Date(date))}
+                            </span>
+                          )}
                         </h3>
                         <div className="space-y-3">
                           {dateEvents.map((event) => {
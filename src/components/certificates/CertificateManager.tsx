@@ -11,6 +11,8 @@ import { Award, Plus, Calendar, User } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { createNotification, notificationTemplates } from '@/services/notificationService';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchInternCohort } from '@/services/cohortService';
 
 interface Certificate {
   id: string;
@@ -81,18 +83,22 @@ const CertificateManager: React.FC<CertificateManagerProps> = ({ userRole, userI
 
   const fetchInterns = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('role', 'intern');
-
-      if (error) throw error;
-      setInterns(data || []);
+      const data = await fetchAssignedInterns(userId);
+      setInterns(data);
     } catch (error) {
       console.error('Error fetching interns:', error);
     }
   };
 
+  // Default the completion date to the end of the intern's cohort
+  const selectIntern = async (internId: string) => {
+    setNewCertificate(current => ({ ...current, intern_id: internId }));
+    const cohort = await fetchInternCohort(internId);
+    if (cohort) {
+      setNewCertificate(current => ({ ...current, completion_date: cohort.end_date }));
+    }
+  };
+
   const createCertificate = async () => {
     if (!newCertificate.certificate_name || !newCertificate.intern_id || !newCertificate.completion_date) {
       toast({
@@ -195,7 +201,7 @@ const CertificateManager: React.FC<CertificateManagerProps> = ({ userRole, userI
               
               <div>
                 <Label htmlFor="intern_id">Select Intern</Label>
-                <Select value={newCertificate.intern_id} onValueChange={(value) => setNewCertificate({ ...newCertificate, intern_id: value })}>
+                <Select value={newCertificate.intern_id} onValueChange={selectIntern}>
                   <SelectTrigger>
                     <SelectValue placeholder="Choose an intern" />
                   </SelectTrigger>
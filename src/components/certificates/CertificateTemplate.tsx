@@ -1,6 +1,7 @@
 import React, { forwardRef } from 'react';
 import { format } from 'date-fns';
 import { Building2 } from 'lucide-react';
+import { formatBikramSambat } from '@/lib/bikramSambat';
 
 interface CertificateData {
   certificate_name: string;
@@ -13,11 +14,13 @@ interface CertificateData {
 
 interface CertificateTemplateProps {
   data: CertificateData;
+  showBikramSambat?: boolean;
 }
 
 const CertificateTemplate = forwardRef<HTMLDivElement, CertificateTemplateProps>(
-  ({ data }, ref) => {
+  ({ data, showBikramSambat = false }, ref) => {
     const formattedDate = data.completion_date ? format(new Date(data.completion_date), 'MMMM dd, yyyy') : '';
+    const bikramSambatDate = showBikramSambat && data.completion_date ? formatBikramSambat(data.completion_date) : '';
     
     return (
       <div
@@ -164,6 +167,11 @@ const CertificateTemplate = forwardRef<HTMLDivElement, CertificateTemplateProps>
                 }}>
                   {formattedDate}
                 </p>
+                {bikramSambatDate && (
+                  <p style={{ fontSize: '0.875rem', color: 'hsl(var(--muted-foreground))' }}>
+                    {bikramSambatDate}
+                  </p>
+                )}
               </div>
               
               {data.performance_rating && (
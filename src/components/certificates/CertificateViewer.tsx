@@ -10,6 +10,8 @@ import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 import CertificateTemplate from './CertificateTemplate';
 import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
+import { formatBikramSambat } from '@/lib/bikramSambat';
 
 interface Certificate {
   id: string;
@@ -33,6 +35,7 @@ const CertificateViewer: React.FC<CertificateViewerProps> = ({ userId }) => {
   const [supervisorNames, setSupervisorNames] = useState<Record<string, string>>({});
   const [internNames, setInternNames] = useState<Record<string, string>>({});
   const certificateRef = useRef<HTMLDivElement>(null);
+  const { showBikramSambat } = useBikramSambat();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -160,6 +163,7 @@ const CertificateViewer: React.FC<CertificateViewerProps> = ({ userId }) => {
                         <Calendar className="h-4 w-4 text-muted-foreground" />
                         <span className="text-sm text-muted-foreground">
                           {format(new Date(certificate.completion_date), 'MMM dd, yyyy')}
+                          {showBikramSambat && ` (${formatBikramSambat(certificate.completion_date)})`}
                         </span>
                       </div>
                     </div>
@@ -198,6 +202,7 @@ const CertificateViewer: React.FC<CertificateViewerProps> = ({ userId }) => {
                       <div className="flex justify-center p-4">
                         <CertificateTemplate
                           ref={certificateRef}
+                          showBikramSambat={showBikramSambat}
                           data={{
                             certificate_name: certificate.certificate_name,
                             intern_name: internNames[certificate.intern_id] || 'Unknown Intern',
@@ -244,6 +249,7 @@ const CertificateViewer: React.FC<CertificateViewerProps> = ({ userId }) => {
       <div className="fixed -left-[9999px] -top-[9999px] opacity-0 pointer-events-none">
         <CertificateTemplate
           ref={certificateRef}
+          showBikramSambat={showBikramSambat}
           data={{
             certificate_name: '',
             intern_name: '',
@@ -0,0 +1,497 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, GraduationCap, Calendar, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface Program {
+  id: string;
+  name: string;
+  department: string | null;
+  description: string | null;
+}
+
+interface Cohort {
+  id: string;
+  program_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  capacity: number | null;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface CohortManagerProps {
+  userId: string;
+}
+
+const CohortManager: React.FC<CohortManagerProps> = ({ userId }) => {
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [enrollmentCounts, setEnrollmentCounts] = useState<Record<string, number>>({});
+  const [cohortSupervisors, setCohortSupervisors] = useState<Record<string, string[]>>({});
+  const [supervisors, setSupervisors] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isProgramDialogOpen, setIsProgramDialogOpen] = useState(false);
+  const [isCohortDialogOpen, setIsCohortDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const [newProgram, setNewProgram] = useState({
+    name: '',
+    department: '',
+    description: '',
+  });
+
+  const [newCohort, setNewCohort] = useState({
+    program_id: '',
+    name: '',
+    start_date: '',
+    end_date: '',
+    capacity: '',
+    supervisor_ids: [] as string[],
+  });
+
+  useEffect(() => {
+    fetchData();
+    fetchSupervisors();
+  }, [userId]);
+
+  const fetchData = async () => {
+    try {
+      const { data: programData, error: programError } = await supabase
+        .from('programs')
+        .select('*')
+        .order('name');
+
+      if (programError) throw programError;
+
+      const { data: cohortData, error: cohortError } = await supabase
+        .from('cohorts')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (cohortError) throw cohortError;
+
+      const { data: enrollments } = await supabase
+        .from('cohort_enrollments')
+        .select('cohort_id');
+
+      const { data: cohortSupervisorData } = await supabase
+        .from('cohort_supervisors')
+        .select('*');
+
+      const counts: Record<string, number> = {};
+      (enrollments || []).forEach(enrollment => {
+        counts[enrollment.cohort_id] = (counts[enrollment.cohort_id] || 0) + 1;
+      });
+
+      const supervisorMap: Record<string, string[]> = {};
+      (cohortSupervisorData || []).forEach(row => {
+        supervisorMap[row.cohort_id] = [...(supervisorMap[row.cohort_id] || []), row.supervisor_id];
+      });
+
+      setPrograms(programData || []);
+      setCohorts(cohortData || []);
+      setEnrollmentCounts(counts);
+      setCohortSupervisors(supervisorMap);
+    } catch (error) {
+      console.error('Error fetching programs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch programs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSupervisors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('role', 'supervisor')
+        .eq('status', 'active')
+        .order('full_name');
+
+      if (error) throw error;
+      setSupervisors(data || []);
+    } catch (error) {
+      console.error('Error fetching supervisors:', error);
+    }
+  };
+
+  const createProgram = async () => {
+    if (!newProgram.name) {
+      toast({
+        title: "Validation Error",
+        description: "Program name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('programs').insert({
+        name: newProgram.name,
+        department: newProgram.department || null,
+        description: newProgram.description || null,
+        created_by: userId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Program created successfully",
+      });
+
+      setNewProgram({ name: '', department: '', description: '' });
+      setIsProgramDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error('Error creating program:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create program",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createCohort = async () => {
+    if (!newCohort.program_id || !newCohort.name || !newCohort.start_date || !newCohort.end_date) {
+      toast({
+        title: "Validation Error",
+        description: "Program, name, start date and end date are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newCohort.end_date < newCohort.start_date) {
+      toast({
+        title: "Validation Error",
+        description: "End date must be after the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data: cohort, error } = await supabase
+        .from('cohorts')
+        .insert({
+          program_id: newCohort.program_id,
+          name: newCohort.name,
+          start_date: newCohort.start_date,
+          end_date: newCohort.end_date,
+          capacity: newCohort.capacity ? parseInt(newCohort.capacity) : null,
+          created_by: userId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (newCohort.supervisor_ids.length > 0) {
+        const { error: supervisorError } = await supabase
+          .from('cohort_supervisors')
+          .insert(newCohort.supervisor_ids.map(supervisorId => ({
+            cohort_id: cohort.id,
+            supervisor_id: supervisorId,
+          })));
+
+        if (supervisorError) throw supervisorError;
+      }
+
+      toast({
+        title: "Success",
+        description: "Cohort created successfully",
+      });
+
+      setNewCohort({
+        program_id: '',
+        name: '',
+        start_date: '',
+        end_date: '',
+        capacity: '',
+        supervisor_ids: [],
+      });
+      setIsCohortDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error('Error creating cohort:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create cohort",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleCohortSupervisor = (supervisorId: string, checked: boolean) => {
+    setNewCohort({
+      ...newCohort,
+      supervisor_ids: checked
+        ? [...newCohort.supervisor_ids, supervisorId]
+        : newCohort.supervisor_ids.filter(id => id !== supervisorId),
+    });
+  };
+
+  const getCohortStatus = (cohort: Cohort) => {
+    const today = new Date().toISOString().split('T')[0];
+    if (cohort.end_date < today) {
+      return <Badge className="bg-gray-100 text-gray-800">Completed</Badge>;
+    }
+    if (cohort.start_date > today) {
+      return <Badge className="bg-blue-100 text-blue-800">Upcoming</Badge>;
+    }
+    return <Badge className="bg-emerald-100 text-emerald-800">Active</Badge>;
+  };
+
+  const getSupervisorNames = (cohortId: string) => {
+    return (cohortSupervisors[cohortId] || [])
+      .map(id => supervisors.find(s => s.id === id)?.full_name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading programs...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Programs & Cohorts</h2>
+          <p className="text-muted-foreground">Organize internships into programs and dated cohorts</p>
+        </div>
+
+        <div className="flex gap-2">
+          <Dialog open={isProgramDialogOpen} onOpenChange={setIsProgramDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                New Program
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Program</DialogTitle>
+                <DialogDescription>A program groups cohorts of the same internship</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="program_name">Program Name</Label>
+                  <Input
+                    id="program_name"
+                    value={newProgram.name}
+                    onChange={(e) => setNewProgram({ ...newProgram, name: e.target.value })}
+                    placeholder="e.g., Software Engineering Internship"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="program_department">Department</Label>
+                  <Input
+                    id="program_department"
+                    value={newProgram.department}
+                    onChange={(e) => setNewProgram({ ...newProgram, department: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="program_description">Description</Label>
+                  <Textarea
+                    id="program_description"
+                    value={newProgram.description}
+                    onChange={(e) => setNewProgram({ ...newProgram, description: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setIsProgramDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={createProgram}>
+                    Create Program
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={isCohortDialogOpen} onOpenChange={setIsCohortDialogOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={programs.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Cohort
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Cohort</DialogTitle>
+                <DialogDescription>Interns in a cohort share start and end dates</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="cohort_program">Program</Label>
+                  <Select value={newCohort.program_id} onValueChange={(value) => setNewCohort({ ...newCohort, program_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a program" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {programs.map((program) => (
+                        <SelectItem key={program.id} value={program.id}>
+                          {program.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="cohort_name">Cohort Name</Label>
+                  <Input
+                    id="cohort_name"
+                    value={newCohort.name}
+                    onChange={(e) => setNewCohort({ ...newCohort, name: e.target.value })}
+                    placeholder="e.g., Summer 2025"
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="cohort_start">Start Date</Label>
+                    <Input
+                      id="cohort_start"
+                      type="date"
+                      value={newCohort.start_date}
+                      onChange={(e) => setNewCohort({ ...newCohort, start_date: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="cohort_end">End Date</Label>
+                    <Input
+                      id="cohort_end"
+                      type="date"
+                      value={newCohort.end_date}
+                      onChange={(e) => setNewCohort({ ...newCohort, end_date: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="cohort_capacity">Capacity</Label>
+                    <Input
+                      id="cohort_capacity"
+                      type="number"
+                      min="1"
+                      value={newCohort.capacity}
+                      onChange={(e) => setNewCohort({ ...newCohort, capacity: e.target.value })}
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label>Supervisors</Label>
+                  <div className="mt-2 space-y-2 max-h-40 overflow-y-auto">
+                    {supervisors.map((supervisor) => (
+                      <label key={supervisor.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={newCohort.supervisor_ids.includes(supervisor.id)}
+                          onCheckedChange={(checked) => toggleCohortSupervisor(supervisor.id, checked === true)}
+                        />
+                        {supervisor.full_name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setIsCohortDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={createCohort}>
+                    Create Cohort
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {programs.length > 0 ? (
+        <div className="space-y-6">
+          {programs.map((program) => {
+            const programCohorts = cohorts.filter(c => c.program_id === program.id);
+
+            return (
+              <Card key={program.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GraduationCap className="h-5 w-5 text-primary" />
+                    {program.name}
+                  </CardTitle>
+                  <CardDescription>
+                    {[program.department, program.description].filter(Boolean).join(' • ') || 'No description'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {programCohorts.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {programCohorts.map((cohort) => (
+                        <div key={cohort.id} className="p-4 rounded-lg border bg-gray-50 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <h4 className="font-semibold">{cohort.name}</h4>
+                            {getCohortStatus(cohort)}
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Calendar className="h-4 w-4" />
+                            {format(new Date(cohort.start_date), 'MMM dd, yyyy')} – {format(new Date(cohort.end_date), 'MMM dd, yyyy')}
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Users className="h-4 w-4" />
+                            {enrollmentCounts[cohort.id] || 0}{cohort.capacity ? ` / ${cohort.capacity}` : ''} interns
+                          </div>
+                          {getSupervisorNames(cohort.id) && (
+                            <p className="text-xs text-muted-foreground">Supervisors: {getSupervisorNames(cohort.id)}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No cohorts in this program yet</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <GraduationCap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg font-medium">No programs yet</p>
+            <p className="text-muted-foreground">Create a program, then add cohorts to it</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CohortManager;
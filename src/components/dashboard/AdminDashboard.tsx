@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/components/auth/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Building2, Users, BarChart3, LogOut, ShieldCheck, MailPlus, GraduationCap, CalendarCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import UserManagement from '@/components/admin/UserManagement';
+import InvitationManager from '@/components/invitations/InvitationManager';
+import CohortManager from '@/components/cohorts/CohortManager';
+import LeavePolicySettings from '@/components/attendance/LeavePolicySettings';
+import HolidayCalendar from '@/components/attendance/HolidayCalendar';
+import GeofenceSettings from '@/components/attendance/GeofenceSettings';
+import WorkScheduleSettings from '@/components/attendance/WorkScheduleSettings';
+import NotificationCenter from '@/components/notifications/NotificationCenter';
+import ProfileEditor from '@/components/profile/ProfileEditor';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+interface Profile {
+  id: string;
+  role: string;
+  full_name: string;
+  email: string;
+  department?: string;
+  phone?: string;
+}
+
+interface AdminDashboardProps {
+  profile: Profile;
+}
+
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ profile: initialProfile }) => {
+  const { signOut } = useAuth();
+  const [profile, setProfile] = useState(initialProfile);
+  const [activeTab, setActiveTab] = useState('overview');
+  const [stats, setStats] = useState({
+    totalInterns: 0,
+    totalSupervisors: 0,
+    pendingApprovals: 0,
+    deactivatedAccounts: 0,
+  });
+
+  useEffect(() => {
+    fetchStats();
+  }, []);
+
+  const fetchStats = async () => {
+    try {
+      const { count: internCount } = await supabase
+        .from('profiles')
+        .select('*', { count: 'exact' })
+        .eq('role', 'intern')
+        .eq('status', 'active');
+
+      const { count: supervisorCount } = await supabase
+        .from('profiles')
+        .select('*', { count: 'exact' })
+        .eq('role', 'supervisor')
+        .eq('status', 'active');
+
+      const { count: pendingCount } = await supabase
+        .from('profiles')
+        .select('*', { count: 'exact' })
+        .eq('status', 'pending');
+
+      const { count: deactivatedCount } = await supabase
+        .from('profiles')
+        .select('*', { count: 'exact' })
+        .eq('status', 'deactivated');
+
+      setStats({
+        totalInterns: internCount || 0,
+        totalSupervisors: supervisorCount || 0,
+        pendingApprovals: pendingCount || 0,
+        deactivatedAccounts: deactivatedCount || 0,
+      });
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {/* Modern Header */}
+      <header className="bg-white/80 backdrop-blur-md border-b border-primary/20 px-4 lg:px-6 py-4 sticky top-0 z-50 shadow-sm w-full">
+        <div className="flex items-center justify-between w-full">
+          <div className="flex items-center space-x-2 lg:space-x-4">
+            <div className="h-10 w-10 lg:h-12 lg:w-12 rounded-xl bg-gradient-to-r from-primary to-accent flex items-center justify-center shadow-lg">
+              <Building2 className="h-5 w-5 lg:h-7 lg:w-7 text-white" />
+            </div>
+            <div className="hidden sm:block">
+              <h1 className="text-lg lg:text-xl font-bold text-gray-900">NTC Admin Console</h1>
+              <p className="text-xs lg:text-sm text-primary font-medium">Nepal Telecom</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 lg:space-x-4">
+            <NotificationCenter />
+            <div className="hidden sm:flex items-center space-x-3">
+              <Dialog>
+                <DialogTrigger asChild>
+                  <button className="h-8 w-8 lg:h-10 lg:w-10 rounded-full bg-gradient-to-r from-primary to-accent flex items-center justify-center text-white font-semibold text-xs lg:text-sm hover:opacity-90 transition-opacity">
+                    {profile.full_name.charAt(0).toUpperCase()}
+                  </button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>Profile Settings</DialogTitle>
+                  </DialogHeader>
+                  <ProfileEditor profile={profile} onProfileUpdate={setProfile} />
+                </DialogContent>
+              </Dialog>
+              <div className="text-right hidden md:block">
+                <p className="text-sm font-semibold text-gray-900">{profile.full_name}</p>
+                <p className="text-xs text-primary capitalize font-medium">{profile.role}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSignOut}
+              className="border-primary/20 text-primary hover:bg-primary/5 hover:border-primary/30 transition-colors"
+            >
+              <LogOut className="h-4 w-4 mr-0 lg:mr-2" />
+              <span className="hidden lg:inline">Sign Out</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex w-full">
+        {/* Modern Sidebar */}
+        <aside className="hidden lg:block w-72 bg-white/70 backdrop-blur-sm border-r border-primary/20 min-h-[calc(100vh-5rem)] shadow-sm">
+          <div className="p-6">
+            {/* User Profile Card */}
+            <div className="bg-gradient-to-r from-primary to-accent rounded-2xl p-6 text-white mb-6 shadow-lg">
+              <div className="flex items-center space-x-4">
+                <div className="h-16 w-16 rounded-full bg-white/20 flex items-center justify-center text-2xl font-bold">
+                  {profile.full_name.charAt(0).toUpperCase()}
+                </div>
+                <div>
+                  <h3 className="font-semibold text-lg">{profile.full_name.split(' ')[0]}</h3>
+                  <p className="text-white/80 text-sm capitalize">{profile.role}</p>
+                  <p className="text-white/70 text-xs">{profile.department}</p>
+                </div>
+              </div>
+            </div>
+
+            <Tabs value={activeTab} onValueChange={setActiveTab} orientation="vertical" className="h-full">
+              <TabsList className="grid w-full grid-rows-5 h-auto p-0 gap-2 bg-transparent">
+                <TabsTrigger
+                  value="overview"
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <BarChart3 className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Dashboard</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="users"
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <Users className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Users</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="invitations"
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <MailPlus className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Invitations</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="programs"
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <GraduationCap className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Programs</span>
+                </TabsTrigger>
+                <TabsTrigger
+                  value="attendance"
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <CalendarCheck className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Attendance</span>
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </aside>
+
+        {/* Main Content */}
+        <main className="flex-1 p-4 lg:p-8">
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            {/* Mobile Navigation */}
+            <div className="lg:hidden mb-6">
+              <TabsList className="grid grid-cols-5 w-full bg-white/70 p-1 rounded-xl">
+                <TabsTrigger value="overview" className="text-xs p-2">Dashboard</TabsTrigger>
+                <TabsTrigger value="users" className="text-xs p-2">Users</TabsTrigger>
+                <TabsTrigger value="invitations" className="text-xs p-2">Invites</TabsTrigger>
+                <TabsTrigger value="programs" className="text-xs p-2">Programs</TabsTrigger>
+                <TabsTrigger value="attendance" className="text-xs p-2">Attendance</TabsTrigger>
+              </TabsList>
+            </div>
+
+            <TabsContent value="overview" className="space-y-6 lg:space-y-8 animate-fade-in">
+              <div>
+                <h2 className="text-2xl lg:text-4xl font-bold text-gray-900 mb-2">Hello, {profile.full_name.split(' ')[0]}</h2>
+                <p className="text-sm lg:text-base text-gray-600">Today is {new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6">
+                <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                  <CardContent className="p-6">
+                    <div className="text-3xl font-bold text-gray-900">{stats.totalInterns}</div>
+                    <p className="text-sm text-gray-600">Active Interns</p>
+                  </CardContent>
+                </Card>
+                <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                  <CardContent className="p-6">
+                    <div className="text-3xl font-bold text-gray-900">{stats.totalSupervisors}</div>
+                    <p className="text-sm text-gray-600">Active Supervisors</p>
+                  </CardContent>
+                </Card>
+                <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                  <CardContent className="p-6">
+                    <div className="text-3xl font-bold text-yellow-600">{stats.pendingApprovals}</div>
+                    <p className="text-sm text-gray-600">Pending Approvals</p>
+                  </CardContent>
+                </Card>
+                <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                  <CardContent className="p-6">
+                    <div className="text-3xl font-bold text-red-600">{stats.deactivatedAccounts}</div>
+                    <p className="text-sm text-gray-600">Deactivated Accounts</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-gray-900 text-xl">Administration</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center space-x-4 p-4 bg-yellow-50 rounded-xl border-l-4 border-yellow-400">
+                    <div className="w-3 h-3 bg-yellow-400 rounded-full" />
+                    <div className="flex-1">
+                      <h4 className="font-semibold text-gray-900">Supervisor Approvals</h4>
+                      <p className="text-sm text-gray-600">Review pending supervisor sign-ups</p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => setActiveTab('users')}>
+                      <ShieldCheck className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center space-x-4 p-4 bg-blue-50 rounded-xl border-l-4 border-blue-400">
+                    <div className="w-3 h-3 bg-blue-400 rounded-full" />
+                    <div className="flex-1">
+                      <h4 className="font-semibold text-gray-900">Roles & Access</h4>
+                      <p className="text-sm text-gray-600">Promote, demote or deactivate accounts</p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => setActiveTab('users')}>
+                      <Users className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="users" className="animate-fade-in">
+              <UserManagement userId={profile.id} />
+            </TabsContent>
+
+            <TabsContent value="invitations" className="animate-fade-in">
+              <InvitationManager userRole="admin" userId={profile.id} />
+            </TabsContent>
+
+            <TabsContent value="programs" className="animate-fade-in">
+              <CohortManager userId={profile.id} />
+            </TabsContent>
+
+            <TabsContent value="attendance" className="animate-fade-in">
+              <Tabs defaultValue="schedules" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="schedules">Work Schedules</TabsTrigger>
+                  <TabsTrigger value="geofences">Geofences</TabsTrigger>
+                  <TabsTrigger value="holidays">Holidays</TabsTrigger>
+                  <TabsTrigger value="leave">Leave Policy</TabsTrigger>
+                </TabsList>
+                <TabsContent value="schedules">
+                  <WorkScheduleSettings />
+                </TabsContent>
+                <TabsContent value="geofences">
+                  <GeofenceSettings />
+                </TabsContent>
+                <TabsContent value="holidays">
+                  <HolidayCalendar userId={profile.id} />
+                </TabsContent>
+                <TabsContent value="leave">
+                  <LeavePolicySettings />
+                </TabsContent>
+              </Tabs>
+            </TabsContent>
+          </Tabs>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default AdminDashboard;
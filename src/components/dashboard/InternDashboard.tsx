@@ -1,17 +1,25 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/components/auth/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Building2, Calendar, MessageSquare, Award, BarChart3, LogOut, CheckSquare, Clock } from 'lucide-react';
+import { Building2, Calendar, MessageSquare, Award, BarChart3, LogOut, CheckSquare, Clock, AlertTriangle } from 'lucide-react';
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
+import { hasTaskFilterParams } from '@/services/savedViewService';
+import { getDueState } from '@/services/taskDeadlineService';
+import { fetchHolidays } from '@/services/holidayService';
+import { defaultWorkingDays, fetchWorkSchedules, getWorkingDays } from '@/services/workScheduleService';
 import TaskBoard from '@/components/tasks/TaskBoard';
+import Timesheet from '@/components/tasks/Timesheet';
 import EventCalendar from '@/components/calendar/EventCalendar';
 import MessagingSystem from '@/components/messaging/MessagingSystem';
 import CertificateViewer from '@/components/certificates/CertificateViewer';
 import FeedbackViewer from '@/components/feedback/FeedbackViewer';
 import AttendanceSystem from '@/components/attendance/AttendanceSystem';
+import LeaveRequests from '@/components/attendance/LeaveRequests';
+import AttendanceHeatmap from '@/components/attendance/AttendanceHeatmap';
 import NotificationCenter from '@/components/notifications/NotificationCenter';
 import ProfileEditor from '@/components/profile/ProfileEditor';
 
@@ -24,6 +32,13 @@ interface Profile {
   phone?: string;
 }
 
+interface UrgentTask {
+  id: string;
+  title: string;
+  status: string;
+  due_date: string | null;
+}
+
 interface InternDashboardProps {
   profile: Profile;
 }
@@ -31,13 +46,17 @@ interface InternDashboardProps {
 const InternDashboard: React.FC<InternDashboardProps> = ({ profile: initialProfile }) => {
   const { signOut } = useAuth();
   const [profile, setProfile] = useState(initialProfile);
-  const [activeTab, setActiveTab] = useState('overview');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(() => hasTaskFilterParams(searchParams) ? 'tasks' : 'overview');
   const [stats, setStats] = useState({
     assignedTasks: 0,
     completedTasks: 0,
     inProgressTasks: 0,
     upcomingEvents: 0,
   });
+  const [urgentTasks, setUrgentTasks] = useState<UrgentTask[]>([]);
+  const [holidayDates, setHolidayDates] = useState<string[]>([]);
+  const [workingDays, setWorkingDays] = useState(defaultWorkingDays);
 
   useEffect(() => {
     fetchStats();
@@ -61,7 +80,24 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ profile: initialProfi
         .from('tasks')
         .select('*', { count: 'exact' })
         .eq('assigned_to', profile.id)
-        .eq('status', 'in_progress');
+        .in('status', ['in_progress', 'in_review']);
+
+      // Open tasks that are overdue or due by tomorrow
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const { data: urgentData } = await supabase
+        .from('tasks')
+        .select('id, title, status, due_date')
+        .eq('assigned_to', profile.id)
+        .in('status', ['todo', 'in_progress'])
+        .lte('due_date', tomorrow)
+        .order('due_date', { ascending: true })
+        .limit(5);
+
+      setUrgentTasks(urgentData || []);
+
+      const [holidays, schedules] = await Promise.all([fetchHolidays(), fetchWorkSchedules()]);
+      setHolidayDates(holidays.map(holiday => holiday.date));
+      setWorkingDays(getWorkingDays(schedules, profile.department));
 
       // Fetch upcoming events count
       const { count: eventCount } = await supabase
@@ -302,6 +338,27 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ profile: initialProfi
                       <CardTitle className="text-gray-900 text-xl">Tasks for today</CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                      {urgentTasks.map((task) => {
+                        const overdue = getDueState(task, holidayDates, workingDays) === 'overdue';
+                        return (
+                          <div
+                            key={task.id}
+                            className={`flex items-center space-x-4 p-4 rounded-xl border-l-4 ${overdue ? 'bg-red-50 border-red-500' : 'bg-amber-50 border-amber-400'}`}
+                          >
+                            <AlertTriangle className={`h-4 w-4 ${overdue ? 'text-red-500' : 'text-amber-500'}`} />
+                            <div className="flex-1">
+                              <h4 className="font-semibold text-gray-900">{task.title}</h4>
+                              <p className={`text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                                {overdue ? 'Overdue' : 'Due'} • {new Date(task.due_date!).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <Button size="sm" variant="ghost" onClick={() => setActiveTab('tasks')}>
+                              <CheckSquare className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        );
+                      })}
+
                       <div className="flex items-center space-x-4 p-4 bg-orange-50 rounded-xl border-l-4 border-orange-400">
                         <div className="w-3 h-3 bg-orange-400 rounded-full" />
                         <div className="flex-1">
@@ -367,7 +424,18 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ profile: initialProfi
             </TabsContent>
 
             <TabsContent value="tasks" className="animate-fade-in">
-              <TaskBoard userRole="intern" userId={profile.id} />
+              <Tabs defaultValue="board" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="board">Board</TabsTrigger>
+                  <TabsTrigger value="timesheet">Timesheet</TabsTrigger>
+                </TabsList>
+                <TabsContent value="board">
+                  <TaskBoard userRole="intern" userId={profile.id} />
+                </TabsContent>
+                <TabsContent value="timesheet">
+                  <Timesheet userRole="intern" userId={profile.id} />
+                </TabsContent>
+              </Tabs>
             </TabsContent>
 
             <TabsContent value="calendar" className="animate-fade-in">
@@ -387,7 +455,22 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ profile: initialProfi
             </TabsContent>
 
             <TabsContent value="attendance" className="animate-fade-in">
-              <AttendanceSystem userRole="intern" />
+              <Tabs defaultValue="records" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="records">Attendance</TabsTrigger>
+                  <TabsTrigger value="history">History</TabsTrigger>
+                  <TabsTrigger value="leave">Leave</TabsTrigger>
+                </TabsList>
+                <TabsContent value="records">
+                  <AttendanceSystem userRole="intern" />
+                </TabsContent>
+                <TabsContent value="history">
+                  <AttendanceHeatmap internId={profile.id} department={profile.department} />
+                </TabsContent>
+                <TabsContent value="leave">
+                  <LeaveRequests userRole="intern" userId={profile.id} />
+                </TabsContent>
+              </Tabs>
             </TabsContent>
           </Tabs>
         </main>
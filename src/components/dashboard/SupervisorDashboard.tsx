@@ -1,19 +1,31 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/components/auth/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Building2, Users, Calendar, MessageSquare, Award, BarChart3, LogOut, Plus, Clock, CheckSquare, FileText } from 'lucide-react';
+import { Building2, Users, Calendar, MessageSquare, Award, BarChart3, LogOut, Plus, Clock, CheckSquare, FileText, MailPlus, GraduationCap } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { hasTaskFilterParams } from '@/services/savedViewService';
 import TaskBoard from '@/components/tasks/TaskBoard';
+import TaskTemplates from '@/components/tasks/TaskTemplates';
+import TaskTimeline from '@/components/tasks/TaskTimeline';
+import Timesheet from '@/components/tasks/Timesheet';
 import InternManagement from '@/components/supervisor/InternManagement';
 import EventCalendar from '@/components/calendar/EventCalendar';
 import MessagingSystem from '@/components/messaging/MessagingSystem';
 import CertificateManager from '@/components/certificates/CertificateManager';
 import FeedbackSystem from '@/components/feedback/FeedbackSystem';
 import AttendanceSystem from '@/components/attendance/AttendanceSystem';
+import LeaveRequests from '@/components/attendance/LeaveRequests';
+import MonthlyAttendanceReport from '@/components/attendance/MonthlyAttendanceReport';
 import NotificationCenter from '@/components/notifications/NotificationCenter';
 import ProfileEditor from '@/components/profile/ProfileEditor';
+import InvitationManager from '@/components/invitations/InvitationManager';
+import CohortManager from '@/components/cohorts/CohortManager';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchAssignedInternIds } from '@/services/assignmentService';
+import { fetchCohorts, fetchCohortInternIds } from '@/services/cohortService';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 
 interface Profile {
@@ -25,6 +37,11 @@ interface Profile {
   phone?: string;
 }
 
+interface Cohort {
+  id: string;
+  name: string;
+}
+
 interface SupervisorDashboardProps {
   profile: Profile;
 }
@@ -32,7 +49,10 @@ interface SupervisorDashboardProps {
 const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: initialProfile }) => {
   const { signOut } = useAuth();
   const [profile, setProfile] = useState(initialProfile);
-  const [activeTab, setActiveTab] = useState('overview');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(() => hasTaskFilterParams(searchParams) ? 'tasks' : 'overview');
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [selectedCohort, setSelectedCohort] = useState('all');
   const [stats, setStats] = useState({
     totalInterns: 0,
     activeTasks: 0,
@@ -42,29 +62,46 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
 
   useEffect(() => {
     fetchStats();
+  }, [selectedCohort]);
+
+  useEffect(() => {
+    const loadCohorts = async () => {
+      const data = await fetchCohorts();
+      setCohorts(data);
+    };
+    loadCohorts();
   }, []);
 
   const fetchStats = async () => {
     try {
-      // Fetch intern count
-      const { count: internCount } = await supabase
-        .from('profiles')
-        .select('*', { count: 'exact' })
-        .eq('role', 'intern');
+      // Fetch count of interns assigned to this supervisor, narrowed to the selected cohort
+      let internIds = await fetchAssignedInternIds(profile.id);
+      if (selectedCohort !== 'all') {
+        const cohortInternIds = await fetchCohortInternIds(selectedCohort);
+        internIds = internIds.filter(id => cohortInternIds.includes(id));
+      }
 
       // Fetch task counts
-      const { count: activeTaskCount } = await supabase
+      let activeTaskQuery = supabase
         .from('tasks')
         .select('*', { count: 'exact' })
         .eq('created_by', profile.id)
         .neq('status', 'done');
 
-      const { count: completedTaskCount } = await supabase
+      let completedTaskQuery = supabase
         .from('tasks')
         .select('*', { count: 'exact' })
         .eq('created_by', profile.id)
         .eq('status', 'done');
 
+      if (selectedCohort !== 'all') {
+        activeTaskQuery = activeTaskQuery.in('assigned_to', internIds);
+        completedTaskQuery = completedTaskQuery.in('assigned_to', internIds);
+      }
+
+      const { count: activeTaskCount } = await activeTaskQuery;
+      const { count: completedTaskCount } = await completedTaskQuery;
+
       // Fetch upcoming events count
       const { count: eventCount } = await supabase
         .from('events')
@@ -73,7 +110,7 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
         .gte('start_time', new Date().toISOString());
 
       setStats({
-        totalInterns: internCount || 0,
+        totalInterns: internIds.length,
         activeTasks: activeTaskCount || 0,
         completedTasks: completedTaskCount || 0,
         upcomingEvents: eventCount || 0,
@@ -154,7 +191,7 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
             </div>
             
             <Tabs value={activeTab} onValueChange={setActiveTab} orientation="vertical" className="h-full">
-              <TabsList className="grid w-full grid-rows-7 h-auto p-0 gap-2 bg-transparent">
+              <TabsList className="grid w-full grid-rows-10 h-auto p-0 gap-2 bg-transparent">
                 <TabsTrigger 
                   value="overview" 
                   className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
@@ -169,6 +206,20 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
                   <Users className="h-5 w-5 mr-3" />
                   <span className="font-medium">Interns</span>
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="invitations" 
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <MailPlus className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Invitations</span>
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="programs" 
+                  className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
+                >
+                  <GraduationCap className="h-5 w-5 mr-3" />
+                  <span className="font-medium">Programs</span>
+                </TabsTrigger>
                 <TabsTrigger 
                   value="tasks" 
                   className="w-full justify-start p-4 rounded-xl transition-all duration-300 data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-lg hover:bg-primary/5 border-0"
@@ -235,10 +286,25 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
                   <h2 className="text-2xl lg:text-4xl font-bold text-gray-900 mb-2">Hello, {profile.full_name.split(' ')[0]}</h2>
                   <p className="text-sm lg:text-base text-gray-600">Today is {new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
                 </div>
-                <Button className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white shadow-lg w-full sm:w-auto" onClick={() => setActiveTab('tasks')}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Create New Task
-                </Button>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Select value={selectedCohort} onValueChange={setSelectedCohort}>
+                    <SelectTrigger className="w-full sm:w-48 bg-white">
+                      <SelectValue placeholder="All Cohorts" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Cohorts</SelectItem>
+                      {cohorts.map((cohort) => (
+                        <SelectItem key={cohort.id} value={cohort.id}>
+                          {cohort.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90 text-white shadow-lg w-full sm:w-auto" onClick={() => setActiveTab('tasks')}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create New Task
+                  </Button>
+                </div>
               </div>
 
               {/* Project Cards - inspired by the reference */}
@@ -383,11 +449,38 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
             </TabsContent>
 
             <TabsContent value="interns" className="animate-fade-in">
-              <InternManagement />
+              <InternManagement userId={profile.id} />
+            </TabsContent>
+
+            <TabsContent value="invitations" className="animate-fade-in">
+              <InvitationManager userRole="supervisor" userId={profile.id} />
+            </TabsContent>
+
+            <TabsContent value="programs" className="animate-fade-in">
+              <CohortManager userId={profile.id} />
             </TabsContent>
 
             <TabsContent value="tasks" className="animate-fade-in">
-              <TaskBoard userRole="supervisor" userId={profile.id} />
+              <Tabs defaultValue="board" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="board">Board</TabsTrigger>
+                  <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                  <TabsTrigger value="timesheets">Timesheets</TabsTrigger>
+                  <TabsTrigger value="templates">Templates & Recurring</TabsTrigger>
+                </TabsList>
+                <TabsContent value="board">
+                  <TaskBoard userRole="supervisor" userId={profile.id} />
+                </TabsContent>
+                <TabsContent value="timeline">
+                  <TaskTimeline userId={profile.id} />
+                </TabsContent>
+                <TabsContent value="timesheets">
+                  <Timesheet userRole="supervisor" userId={profile.id} />
+                </TabsContent>
+                <TabsContent value="templates">
+                  <TaskTemplates userId={profile.id} />
+                </TabsContent>
+              </Tabs>
             </TabsContent>
 
             <TabsContent value="calendar" className="animate-fade-in">
@@ -407,7 +500,22 @@ const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ profile: init
             </TabsContent>
 
             <TabsContent value="attendance" className="animate-fade-in">
-              <AttendanceSystem userRole="supervisor" />
+              <Tabs defaultValue="records" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="records">Attendance</TabsTrigger>
+                  <TabsTrigger value="leave">Leave</TabsTrigger>
+                  <TabsTrigger value="report">Monthly Report</TabsTrigger>
+                </TabsList>
+                <TabsContent value="records">
+                  <AttendanceSystem userRole="supervisor" />
+                </TabsContent>
+                <TabsContent value="report">
+                  <MonthlyAttendanceReport userId={profile.id} />
+                </TabsContent>
+                <TabsContent value="leave">
+                  <LeaveRequests userRole="supervisor" userId={profile.id} />
+                </TabsContent>
+              </Tabs>
             </TabsContent>
 
           </Tabs>
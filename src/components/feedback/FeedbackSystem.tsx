@@ -10,6 +10,7 @@ import { Star, Plus, MessageSquare, Calendar, User } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { sendFeedbackNotification } from '@/services/notificationService';
+import { fetchAssignedInterns } from '@/services/assignmentService';
 
 interface Feedback {
   id: string;
@@ -36,6 +37,7 @@ interface FeedbackSystemProps {
 const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) => {
   const [feedback, setFeedback] = useState<Feedback[]>([]);
   const [interns, setInterns] = useState<Profile[]>([]);
+  const [internTasks, setInternTasks] = useState<{ id: string; title: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedRating, setSelectedRating] = useState(0);
@@ -47,6 +49,7 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
     rating: 0,
     feedback_type: 'general',
     intern_id: '',
+    task_id: '',
   });
 
   useEffect(() => {
@@ -54,6 +57,14 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
     fetchInterns();
   }, [userId]);
 
+  useEffect(() => {
+    if (newFeedback.intern_id) {
+      fetchInternTasks(newFeedback.intern_id);
+    } else {
+      setInternTasks([]);
+    }
+  }, [newFeedback.intern_id]);
+
   const fetchFeedback = async () => {
     try {
       const { data, error } = await supabase
@@ -77,16 +88,26 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
   };
 
   const fetchInterns = async () => {
+    try {
+      const data = await fetchAssignedInterns(userId);
+      setInterns(data);
+    } catch (error) {
+      console.error('Error fetching interns:', error);
+    }
+  };
+
+  const fetchInternTasks = async (internId: string) => {
     try {
       const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('role', 'intern');
+        .from('tasks')
+        .select('id, title')
+        .eq('assigned_to', internId)
+        .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setInterns(data || []);
+      setInternTasks(data || []);
     } catch (error) {
-      console.error('Error fetching interns:', error);
+      console.error('Error fetching intern tasks:', error);
     }
   };
 
@@ -107,6 +128,7 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
         feedback_type: newFeedback.feedback_type,
         intern_id: newFeedback.intern_id,
         supervisor_id: userId,
+        task_id: newFeedback.feedback_type === 'task' && newFeedback.task_id ? newFeedback.task_id : null,
       });
 
       if (error) throw error;
@@ -133,6 +155,7 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
         rating: 0,
         feedback_type: 'general',
         intern_id: '',
+        task_id: '',
       });
       setSelectedRating(0);
       setIsDialogOpen(false);
@@ -208,7 +231,7 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
             <div className="space-y-4">
               <div>
                 <Label htmlFor="intern_id">Select Intern</Label>
-                <Select value={newFeedback.intern_id} onValueChange={(value) => setNewFeedback({ ...newFeedback, intern_id: value })}>
+                <Select value={newFeedback.intern_id} onValueChange={(value) => setNewFeedback({ ...newFeedback, intern_id: value, task_id: '' })}>
                   <SelectTrigger>
                     <SelectValue placeholder="Choose an intern" />
                   </SelectTrigger>
@@ -235,6 +258,24 @@ const FeedbackSystem: React.FC<FeedbackSystemProps> = ({ userRole, userId }) =>
                   </SelectContent>
                 </Select>
               </div>
+
+              {newFeedback.feedback_type === 'task' && (
+                <div>
+                  <Label htmlFor="task_id">Related Task</Label>
+                  <Select value={newFeedback.task_id} onValueChange={(value) => setNewFeedback({ ...newFeedback, task_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={newFeedback.intern_id ? 'Choose a task' : 'Select an intern first'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {internTasks.map((task) => (
+                        <SelectItem key={task.id} value={task.id}>
+                          {task.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               
               <div>
                 <Label>Rating (Optional)</Label>
@@ -0,0 +1,457 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, Download, CheckCircle2, AlertCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { createNotification, notificationTemplates } from '@/services/notificationService';
+import { fetchTopPosition } from '@/services/taskPositionService';
+import {
+  importFields,
+  parseSpreadsheet,
+  guessColumnMapping,
+  validateRows,
+  buildErrorReport,
+  downloadCsv,
+  taskRowSchema,
+  internRowSchema,
+  ImportTarget,
+  ParsedSheet,
+  ValidatedRow,
+  TaskImportRow,
+  InternImportRow,
+} from '@/services/importService';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+type ImportRow = ValidatedRow<TaskImportRow | InternImportRow>;
+
+interface ImportWizardProps {
+  target: ImportTarget;
+  userRole: 'supervisor' | 'admin';
+  userId: string;
+  onImported?: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ target, userRole, userId, onImported }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet>({ headers: [], rows: [], rowNumbers: [] });
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const fields = importFields[target];
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+  const targetLabel = target === 'tasks' ? 'tasks' : 'interns';
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet({ headers: [], rows: [], rowNumbers: [] });
+    setMapping({});
+    setRows([]);
+    setImportedCount(0);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast({
+          title: "Empty File",
+          description: "The file has a header row but no data",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(target, parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: "Could not read the file. Upload a CSV or .xlsx spreadsheet.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Checks that need the database: assignees must be the importer's interns,
+  // invitees must not already have an account or a pending invitation
+  const checkTaskRows = async (validated: ValidatedRow<TaskImportRow>[]) => {
+    let interns: { id: string; email: string }[] = [];
+    if (userRole === 'admin') {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email')
+        .eq('role', 'intern');
+      if (error) throw error;
+      interns = data || [];
+    } else {
+      interns = await fetchAssignedInterns(userId);
+    }
+
+    const internIdsByEmail = new Map(interns.map(intern => [intern.email.toLowerCase(), intern.id]));
+    return validated.map(row => {
+      const email = row.data?.assignee_email;
+      if (email && !internIdsByEmail.has(email)) {
+        return { ...row, errors: [...row.errors, `${email} is not one of your interns`] };
+      }
+      return row;
+    });
+  };
+
+  const checkInternRows = async (validated: ValidatedRow<InternImportRow>[]) => {
+    const emails = validated.map(row => row.data?.email).filter((email): email is string => !!email);
+
+    const [{ data: profiles, error: profileError }, { data: invitations, error: invitationError }] = await Promise.all([
+      supabase.from('profiles').select('email').in('email', emails),
+      supabase
+        .from('invitations')
+        .select('email')
+        .in('email', emails)
+        .is('accepted_at', null)
+        .gt('expires_at', new Date().toISOString()),
+    ]);
+
+    if (profileError) throw profileError;
+    if (invitationError) throw invitationError;
+
+    const existing = new Set((profiles || []).map(profile => profile.email.toLowerCase()));
+    const invited = new Set((invitations || []).map(invitation => invitation.email.toLowerCase()));
+    const seen = new Set<string>();
+
+    return validated.map(row => {
+      const email = row.data?.email;
+      if (!email) return row;
+
+      const errors = [...row.errors];
+      if (seen.has(email)) errors.push(`${email} appears more than once in the file`);
+      if (existing.has(email)) errors.push(`${email} already has an account`);
+      if (invited.has(email)) errors.push(`${email} already has a pending invitation`);
+      seen.add(email);
+
+      return { ...row, errors };
+    });
+  };
+
+  const runDryRun = async () => {
+    setWorking(true);
+    try {
+      if (target === 'tasks') {
+        setRows(await checkTaskRows(validateRows(target, sheet, mapping, taskRowSchema)));
+      } else {
+        setRows(await checkInternRows(validateRows(target, sheet, mapping, internRowSchema)));
+      }
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast({
+        title: "Error",
+        description: "Failed to validate the file",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const importTasks = async (taskRows: TaskImportRow[]) => {
+    const interns = userRole === 'admin'
+      ? (await supabase.from('profiles').select('id, email').eq('role', 'intern')).data || []
+      : await fetchAssignedInterns(userId);
+    const internIdsByEmail = new Map(interns.map(intern => [intern.email.toLowerCase(), intern.id]));
+
+    // New tasks go to the top of the To Do column
+    const topPosition = await fetchTopPosition('todo');
+
+    const { data: created, error } = await supabase
+      .from('tasks')
+      .insert(taskRows.map((row, index) => ({
+        title: row.title,
+        description: row.description || null,
+        priority: row.priority,
+        due_date: row.due_date || null,
+        assigned_to: row.assignee_email ? internIdsByEmail.get(row.assignee_email) || null : null,
+        estimated_hours: row.estimated_hours ?? null,
+        labels: row.labels,
+        created_by: userId,
+        status: 'todo',
+        position: topPosition - taskRows.length + index,
+      })))
+      .select('id, title, assigned_to');
+
+    if (error) throw error;
+
+    // One notification per intern, however many tasks they received
+    const tasksByIntern = new Map<string, { id: string; title: string }[]>();
+    (created || []).forEach(task => {
+      if (!task.assigned_to) return;
+      tasksByIntern.set(task.assigned_to, [...(tasksByIntern.get(task.assigned_to) || []), task]);
+    });
+
+    await Promise.all(
+      [...tasksByIntern.entries()].map(([internId, internTasks]) =>
+        createNotification({
+          userId: internId,
+          ...(internTasks.length === 1
+            ? notificationTemplates.taskAssigned(internTasks[0].title)
+            : notificationTemplates.tasksAssigned(internTasks.length)),
+          data: { taskIds: internTasks.map(task => task.id) }
+        })
+      )
+    );
+
+    return created?.length || 0;
+  };
+
+  const importInterns = async (internRows: InternImportRow[]) => {
+    const { data: created, error } = await supabase
+      .from('invitations')
+      .insert(internRows.map(row => ({
+        email: row.email,
+        full_name: row.full_name,
+        phone: row.phone || null,
+        department: row.department || null,
+        role: 'intern',
+        supervisor_id: userRole === 'supervisor' ? userId : null,
+        invited_by: userId,
+      })))
+      .select('id');
+
+    if (error) throw error;
+    return created?.length || 0;
+  };
+
+  // All valid rows go in one insert, so either every row is saved or none is
+  const commitImport = async () => {
+    setWorking(true);
+    try {
+      const data = validRows.map(row => row.data!);
+      const count = target === 'tasks'
+        ? await importTasks(data as TaskImportRow[])
+        : await importInterns(data as InternImportRow[]);
+
+      setImportedCount(count);
+      setStep('done');
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing rows:', error);
+      toast({
+        title: "Import Failed",
+        description: "Nothing was imported. Check the file and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    downloadCsv(`${baseName}-errors.csv`, buildErrorReport(target, rows));
+  };
+
+  const missingRequired = fields.filter(field => field.required && mapping[field.key] === undefined);
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {target === 'tasks' ? 'Tasks' : 'Interns'}</DialogTitle>
+          <DialogDescription>
+            {target === 'tasks'
+              ? 'Create tasks from a CSV or Excel spreadsheet'
+              : 'Invite interns from a CSV or Excel spreadsheet. Each intern receives an invitation to sign up.'
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <Input type="file" accept=".csv,.xlsx" onChange={handleFile} />
+            <p className="text-sm text-muted-foreground">
+              The first row must contain column headers. Supported columns: {fields.map(field => field.label).join(', ')}.
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {sheet.rows.length} rows. Match each field to a column in your file.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {fields.map((field) => (
+                <div key={field.key}>
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] !== undefined ? String(mapping[field.key]) : 'none'}
+                    onValueChange={(value) => {
+                      const next = { ...mapping };
+                      if (value === 'none') {
+                        delete next[field.key];
+                      } else {
+                        next[field.key] = Number(value);
+                      }
+                      setMapping(next);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Don't import</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={runDryRun} disabled={working || missingRequired.length > 0}>
+                {working ? 'Validating...' : 'Preview Import'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-4 text-sm">
+              <span className="flex items-center gap-1 text-emerald-700">
+                <CheckCircle2 className="h-4 w-4" />
+                {validRows.length} ready to import
+              </span>
+              {invalidRows.length > 0 && (
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  {invalidRows.length} with errors will be skipped
+                </span>
+              )}
+            </div>
+
+            <div className="border rounded-md max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    {fields.slice(0, 3).map((field) => (
+                      <TableHead key={field.key}>{field.label}</TableHead>
+                    ))}
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      {fields.slice(0, 3).map((field) => (
+                        <TableCell key={field.key} className="max-w-[160px] truncate">{row.raw[field.key]}</TableCell>
+                      ))}
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <span className="text-xs text-red-600">{row.errors.join('; ')}</span>
+                        ) : (
+                          <Badge className="bg-emerald-100 text-emerald-800">Valid</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {rows.length} rows. The error report lists every failed row.
+              </p>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <div>
+                {invalidRows.length > 0 && (
+                  <Button variant="outline" onClick={downloadErrorReport}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Error Report
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep('map')}>
+                  Back
+                </Button>
+                <Button onClick={commitImport} disabled={working || validRows.length === 0}>
+                  {working ? 'Importing...' : `Import ${validRows.length} ${targetLabel}`}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4 text-center py-4">
+            <CheckCircle2 className="h-10 w-10 text-emerald-600 mx-auto" />
+            <p className="font-medium">Imported {importedCount} {targetLabel}</p>
+            {invalidRows.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {invalidRows.length} rows were skipped. Download the error report, fix them and import the report again.
+              </p>
+            )}
+            <div className="flex justify-center gap-2">
+              {invalidRows.length > 0 && (
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Error Report
+                </Button>
+              )}
+              <Button onClick={reset}>Import Another File</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
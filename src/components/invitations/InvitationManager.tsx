@@ -0,0 +1,362 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Copy, Trash2, MailPlus } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import ImportWizard from '@/components/import/ImportWizard';
+
+interface Invitation {
+  id: string;
+  token: string;
+  email: string;
+  role: string;
+  department: string | null;
+  supervisor_id: string | null;
+  invited_by: string;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+  department?: string;
+}
+
+interface InvitationManagerProps {
+  userRole: 'supervisor' | 'admin';
+  userId: string;
+}
+
+const InvitationManager: React.FC<InvitationManagerProps> = ({ userRole, userId }) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [supervisors, setSupervisors] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const [newInvitation, setNewInvitation] = useState({
+    email: '',
+    role: 'intern',
+    department: '',
+    supervisor_id: '',
+  });
+
+  useEffect(() => {
+    fetchInvitations();
+    if (userRole === 'admin') {
+      fetchSupervisors();
+    }
+  }, [userRole, userId]);
+
+  const fetchInvitations = async () => {
+    try {
+      let query = supabase.from('invitations').select('*');
+
+      if (userRole === 'supervisor') {
+        query = query.eq('invited_by', userId);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invitations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSupervisors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, department')
+        .eq('role', 'supervisor')
+        .eq('status', 'active')
+        .order('full_name');
+
+      if (error) throw error;
+      setSupervisors(data || []);
+    } catch (error) {
+      console.error('Error fetching supervisors:', error);
+    }
+  };
+
+  const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+  const copyInviteLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(token));
+      toast({
+        title: "Link Copied",
+        description: "Share the invitation link with the invitee",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  const createInvitation = async () => {
+    if (!newInvitation.email) {
+      toast({
+        title: "Validation Error",
+        description: "Email is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const role = userRole === 'admin' ? newInvitation.role : 'intern';
+      const supervisorId = role === 'intern'
+        ? (userRole === 'supervisor' ? userId : newInvitation.supervisor_id || null)
+        : null;
+
+      const { data, error } = await supabase
+        .from('invitations')
+        .insert({
+          email: newInvitation.email.trim().toLowerCase(),
+          role,
+          department: newInvitation.department || null,
+          supervisor_id: supervisorId,
+          invited_by: userId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await copyInviteLink(data.token);
+
+      setNewInvitation({
+        email: '',
+        role: 'intern',
+        department: '',
+        supervisor_id: '',
+      });
+      setIsDialogOpen(false);
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('invitations')
+        .delete()
+        .eq('id', invitationId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Invitation revoked",
+      });
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (invitation: Invitation) => {
+    if (invitation.accepted_at) {
+      return <Badge className="bg-emerald-100 text-emerald-800">Accepted</Badge>;
+    }
+    if (new Date(invitation.expires_at) < new Date()) {
+      return <Badge className="bg-gray-100 text-gray-800">Expired</Badge>;
+    }
+    return <Badge className="bg-blue-100 text-blue-800">Pending</Badge>;
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading invitations...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <div className="mr-auto">
+          <h2 className="text-2xl font-bold">Invitations</h2>
+          <p className="text-muted-foreground">
+            {userRole === 'admin'
+              ? 'Invite new interns, supervisors and administrators'
+              : 'Invite new interns to join your team'
+            }
+          </p>
+        </div>
+
+        <ImportWizard target="interns" userRole={userRole} userId={userId} onImported={fetchInvitations} />
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Invitation
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Invitation</DialogTitle>
+              <DialogDescription>
+                The invitation link expires after 7 days and can only be used with this email
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="invite_email">Email</Label>
+                <Input
+                  id="invite_email"
+                  type="email"
+                  value={newInvitation.email}
+                  onChange={(e) => setNewInvitation({ ...newInvitation, email: e.target.value })}
+                  placeholder="intern.email@ntc.com.np"
+                />
+              </div>
+
+              {userRole === 'admin' && (
+                <div>
+                  <Label htmlFor="invite_role">Role</Label>
+                  <Select value={newInvitation.role} onValueChange={(value) => setNewInvitation({ ...newInvitation, role: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="intern">Intern</SelectItem>
+                      <SelectItem value="supervisor">Supervisor</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                      <SelectItem value="kiosk">Reception Kiosk</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="invite_department">Department</Label>
+                <Input
+                  id="invite_department"
+                  value={newInvitation.department}
+                  onChange={(e) => setNewInvitation({ ...newInvitation, department: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+
+              {userRole === 'admin' && newInvitation.role === 'intern' && (
+                <div>
+                  <Label htmlFor="invite_supervisor">Supervisor</Label>
+                  <Select value={newInvitation.supervisor_id} onValueChange={(value) => setNewInvitation({ ...newInvitation, supervisor_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a supervisor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {supervisors.map((supervisor) => (
+                        <SelectItem key={supervisor.id} value={supervisor.id}>
+                          {supervisor.full_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={createInvitation}>
+                  Create & Copy Link
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {invitations.length > 0 ? (
+        <Card>
+          <CardContent className="p-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Email</th>
+                    <th className="text-left p-2">Role</th>
+                    <th className="text-left p-2">Department</th>
+                    <th className="text-left p-2">Expires</th>
+                    <th className="text-left p-2">Status</th>
+                    <th className="text-left p-2">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invitations.map((invitation) => {
+                    const isOpen = !invitation.accepted_at && new Date(invitation.expires_at) >= new Date();
+
+                    return (
+                      <tr key={invitation.id} className="border-b">
+                        <td className="p-2 font-medium">{invitation.email}</td>
+                        <td className="p-2 capitalize">{invitation.role}</td>
+                        <td className="p-2">{invitation.department || '-'}</td>
+                        <td className="p-2">{format(new Date(invitation.expires_at), 'MMM dd, yyyy')}</td>
+                        <td className="p-2">{getStatusBadge(invitation)}</td>
+                        <td className="p-2">
+                          <div className="flex gap-1">
+                            {isOpen && (
+                              <Button variant="outline" size="sm" onClick={() => copyInviteLink(invitation.token)}>
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {!invitation.accepted_at && (
+                              <Button variant="outline" size="sm" onClick={() => revokeInvitation(invitation.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <MailPlus className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg font-medium">No invitations sent yet</p>
+            <p className="text-muted-foreground">Create an invitation to onboard someone new</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default InvitationManager;
@@ -8,6 +8,7 @@ import { Send, Search, MessageSquare, MessageCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { sendNewMessageNotification } from '@/services/notificationService';
+import { fetchAssignedInternIds, fetchInternSupervisorIds } from '@/services/assignmentService';
 
 interface Message {
   id: string;
@@ -124,16 +125,15 @@ const MessagingSystem: React.FC<MessagingSystemProps> = ({ userRole, userId }) =
 
   const fetchConversations = async () => {
     try {
-      // Get all profiles that the user can message
-      let query = supabase.from('profiles').select('*');
-      
-      if (userRole === 'supervisor') {
-        query = query.eq('role', 'intern');
-      } else {
-        query = query.eq('role', 'supervisor');
-      }
+      // Only interns and their assigned supervisors can message each other
+      const contactIds = userRole === 'supervisor'
+        ? await fetchAssignedInternIds(userId)
+        : await fetchInternSupervisorIds(userId);
 
-      const { data: profiles, error: profilesError } = await query;
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('*')
+        .in('id', contactIds);
       if (profilesError) throw profilesError;
 
       // For each profile, get the last message and unread count
@@ -3,11 +3,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Edit, Phone, MessageCircle, User } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
 
 interface Profile {
   id: string;
@@ -25,6 +27,7 @@ interface ProfileEditorProps {
 
 const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onProfileUpdate }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const { showBikramSambat, setShowBikramSambat } = useBikramSambat();
   const [formData, setFormData] = useState({
     full_name: profile.full_name,
     email: profile.email,
@@ -234,6 +237,18 @@ const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onProfileUpdate
             )}
           </div>
         </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="show_bikram_sambat" className="text-sm font-medium">Nepali Dates</Label>
+            <p className="text-sm text-muted-foreground">Also show dates in Bikram Sambat</p>
+          </div>
+          <Switch
+            id="show_bikram_sambat"
+            checked={showBikramSambat}
+            onCheckedChange={setShowBikramSambat}
+          />
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { UserCog } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { createNotification, notificationTemplates } from '@/services/notificationService';
+
+interface Assignment {
+  id: string;
+  intern_id: string;
+  supervisor_id: string;
+  assignment_type: string;
+  start_date: string;
+  end_date: string | null;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface AssignmentDialogProps {
+  internId: string;
+  internName: string;
+  onAssignmentsChange: () => void;
+}
+
+const AssignmentDialog: React.FC<AssignmentDialogProps> = ({ internId, internName, onAssignmentsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [supervisors, setSupervisors] = useState<Profile[]>([]);
+  const { toast } = useToast();
+
+  const [newAssignment, setNewAssignment] = useState({
+    supervisor_id: '',
+    assignment_type: 'primary',
+    start_date: new Date().toISOString().split('T')[0],
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchAssignments();
+      fetchSupervisors();
+    }
+  }, [isOpen, internId]);
+
+  const fetchAssignments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('supervisor_assignments')
+        .select('*')
+        .eq('intern_id', internId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      setAssignments(data || []);
+    } catch (error) {
+      console.error('Error fetching assignments:', error);
+    }
+  };
+
+  const fetchSupervisors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('role', 'supervisor')
+        .eq('status', 'active')
+        .order('full_name');
+
+      if (error) throw error;
+      setSupervisors(data || []);
+    } catch (error) {
+      console.error('Error fetching supervisors:', error);
+    }
+  };
+
+  const handleEndAssignment = async (assignmentId: string) => {
+    try {
+      const { error } = await supabase.rpc('end_supervisor_assignment', { _assignment_id: assignmentId });
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Assignment ended",
+      });
+      fetchAssignments();
+      onAssignmentsChange();
+    } catch (error) {
+      console.error('Error ending assignment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to end assignment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createAssignment = async () => {
+    if (!newAssignment.supervisor_id) {
+      toast({
+        title: "Validation Error",
+        description: "Please select a supervisor",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // Reassigning the primary mentor also ends the current primary assignment
+      const { error } = await supabase.rpc('assign_supervisor', {
+        _intern_id: internId,
+        _supervisor_id: newAssignment.supervisor_id,
+        _assignment_type: newAssignment.assignment_type,
+        _start_date: newAssignment.start_date,
+      });
+
+      if (error) throw error;
+
+      const supervisor = supervisors.find(s => s.id === newAssignment.supervisor_id);
+      if (supervisor) {
+        await createNotification({
+          userId: internId,
+          ...notificationTemplates.mentorAssigned(supervisor.full_name),
+          data: { supervisorId: supervisor.id, assignmentType: newAssignment.assignment_type }
+        });
+      }
+
+      toast({
+        title: "Success",
+        description: `${internName} has been assigned`,
+      });
+
+      setNewAssignment({
+        supervisor_id: '',
+        assignment_type: 'primary',
+        start_date: new Date().toISOString().split('T')[0],
+      });
+      fetchAssignments();
+      onAssignmentsChange();
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to assign intern",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getSupervisorName = (supervisorId: string) => {
+    const supervisor = supervisors.find(s => s.id === supervisorId);
+    return supervisor ? supervisor.full_name : 'Unknown';
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1 font-medium">
+          <UserCog className="h-4 w-4 mr-1" />
+          Mentors
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Mentors for {internName}</DialogTitle>
+          <DialogDescription>Assign or reassign the supervisors mentoring this intern</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-56 overflow-y-auto">
+            {assignments.map((assignment) => (
+              <div key={assignment.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{getSupervisorName(assignment.supervisor_id)}</span>
+                    <Badge variant={assignment.assignment_type === 'primary' ? 'default' : 'secondary'} className="capitalize">
+                      {assignment.assignment_type}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(assignment.start_date), 'MMM dd, yyyy')}
+                    {' – '}
+                    {assignment.end_date ? format(new Date(assignment.end_date), 'MMM dd, yyyy') : 'Present'}
+                  </p>
+                </div>
+                {!assignment.end_date && (
+                  <Button variant="outline" size="sm" onClick={() => handleEndAssignment(assignment.id)}>
+                    End
+                  </Button>
+                )}
+              </div>
+            ))}
+            {assignments.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No mentors assigned yet</p>
+            )}
+          </div>
+
+          <div className="border-t pt-4 space-y-4">
+            <div>
+              <Label htmlFor="assignment_supervisor">Supervisor</Label>
+              <Select value={newAssignment.supervisor_id} onValueChange={(value) => setNewAssignment({ ...newAssignment, supervisor_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supervisor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {supervisors.map((supervisor) => (
+                    <SelectItem key={supervisor.id} value={supervisor.id}>
+                      {supervisor.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="assignment_type">Mentor Type</Label>
+                <Select value={newAssignment.assignment_type} onValueChange={(value) => setNewAssignment({ ...newAssignment, assignment_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="primary">Primary</SelectItem>
+                    <SelectItem value="secondary">Secondary</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="assignment_start">Effective From</Label>
+                <Input
+                  id="assignment_start"
+                  type="date"
+                  value={newAssignment.start_date}
+                  onChange={(e) => setNewAssignment({ ...newAssignment, start_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={createAssignment}>Assign</Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignmentDialog;
@@ -4,9 +4,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Search, Mail, Phone, MapPin, Calendar, MoreHorizontal } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Search, Mail, Phone, MapPin, Calendar, MoreHorizontal, UserPlus, CalendarDays } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { fetchAssignedInternIds } from '@/services/assignmentService';
+import { fetchCohorts } from '@/services/cohortService';
+import { attendanceStatusLabels, attendanceStatusClasses, isAttendanceStatus } from '@/services/workScheduleService';
+import AttendanceHeatmap from '@/components/attendance/AttendanceHeatmap';
+import AssignmentDialog from './AssignmentDialog';
 
 interface Profile {
   id: string;
@@ -22,86 +30,131 @@ interface TaskStats {
   total: number;
   completed: number;
   in_progress: number;
+  subtasks: number;
+}
+
+interface Cohort {
+  id: string;
+  name: string;
+  programs: { name: string } | null;
 }
 
 interface InternWithStats extends Profile {
   stats: TaskStats;
   hasCheckedInToday: boolean;
+  todayStatus: string | null;
+  cohortId: string | null;
 }
 
-const InternManagement: React.FC = () => {
+interface InternManagementProps {
+  userId: string;
+}
+
+const InternManagement: React.FC<InternManagementProps> = ({ userId }) => {
   const [interns, setInterns] = useState<InternWithStats[]>([]);
   const [filteredInterns, setFilteredInterns] = useState<InternWithStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [activeInternsCount, setActiveInternsCount] = useState(0);
+  const [view, setView] = useState<'mine' | 'unassigned'>('mine');
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [cohortFilter, setCohortFilter] = useState('all');
   const { toast } = useToast();
 
   useEffect(() => {
     fetchInterns();
+  }, [userId, view]);
+
+  useEffect(() => {
+    const loadCohorts = async () => {
+      const data = await fetchCohorts();
+      setCohorts(data);
+    };
+    loadCohorts();
   }, []);
 
   useEffect(() => {
-    // Filter interns based on search term
+    // Filter interns based on search term and cohort
     const filtered = interns.filter(intern =>
-      intern.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      intern.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (intern.department && intern.department.toLowerCase().includes(searchTerm.toLowerCase()))
+      (cohortFilter === 'all' ||
+        (cohortFilter === 'none' ? !intern.cohortId : intern.cohortId === cohortFilter)) &&
+      (intern.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        intern.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (intern.department && intern.department.toLowerCase().includes(searchTerm.toLowerCase())))
     );
     setFilteredInterns(filtered);
-  }, [interns, searchTerm]);
+  }, [interns, searchTerm, cohortFilter]);
 
   const fetchInterns = async () => {
     try {
-      // Fetch all interns
-      const { data: internData, error: internError } = await supabase
+      // Fetch this supervisor's interns, or interns with no active mentor
+      let query = supabase
         .from('profiles')
         .select('*')
         .eq('role', 'intern')
         .order('created_at', { ascending: false });
 
+      if (view === 'mine') {
+        query = query.in('id', await fetchAssignedInternIds(userId));
+      }
+
+      const { data: allInternData, error: internError } = await query;
+
       if (internError) throw internError;
 
       const today = new Date().toISOString().split('T')[0];
 
+      let internData = allInternData || [];
+      if (view === 'unassigned') {
+        const { data: activeAssignments } = await supabase
+          .from('supervisor_assignments')
+          .select('intern_id')
+          .lte('start_date', today)
+          .or(`end_date.is.null,end_date.gte.${today}`);
+
+        const assignedIds = new Set((activeAssignments || []).map(a => a.intern_id));
+        internData = internData.filter(intern => !assignedIds.has(intern.id));
+      }
+
+      const { data: enrollments } = await supabase
+        .from('cohort_enrollments')
+        .select('intern_id, cohort_id')
+        .in('intern_id', internData.map(intern => intern.id));
+
+      const cohortByIntern = new Map((enrollments || []).map(e => [e.intern_id, e.cohort_id]));
+
       // Fetch task statistics and attendance for each intern
       const internsWithStats = await Promise.all(
-        (internData || []).map(async (intern) => {
-          const { count: totalTasks } = await supabase
+        internData.map(async (intern) => {
+          // Subtasks are tasks too, so they count towards completion alongside top-level tasks
+          const { data: internTasks } = await supabase
             .from('tasks')
-            .select('*', { count: 'exact' })
+            .select('status, parent_task_id')
             .eq('assigned_to', intern.id);
 
-          const { count: completedTasks } = await supabase
-            .from('tasks')
-            .select('*', { count: 'exact' })
-            .eq('assigned_to', intern.id)
-            .eq('status', 'done');
-
-          const { count: inProgressTasks } = await supabase
-            .from('tasks')
-            .select('*', { count: 'exact' })
-            .eq('assigned_to', intern.id)
-            .eq('status', 'in_progress');
+          const taskList = internTasks || [];
 
           // Check if intern has checked in today
           const { data: todayAttendance } = await supabase
             .from('attendance')
-            .select('check_in_time')
+            .select('check_in_time, status')
             .eq('user_id', intern.id)
             .eq('date', today)
             .maybeSingle();
 
-          const hasCheckedInToday = todayAttendance?.check_in_time !== null;
+          const hasCheckedInToday = !!todayAttendance?.check_in_time;
 
           return {
             ...intern,
             stats: {
-              total: totalTasks || 0,
-              completed: completedTasks || 0,
-              in_progress: inProgressTasks || 0,
+              total: taskList.length,
+              completed: taskList.filter(task => task.status === 'done').length,
+              in_progress: taskList.filter(task => ['in_progress', 'in_review'].includes(task.status)).length,
+              subtasks: taskList.filter(task => task.parent_task_id).length,
             },
             hasCheckedInToday,
+            todayStatus: todayAttendance?.status || null,
+            cohortId: cohortByIntern.get(intern.id) || null,
           };
         })
       );
@@ -121,6 +174,79 @@ const InternManagement: React.FC = () => {
     }
   };
 
+  const assignToMe = async (internId: string) => {
+    try {
+      const { error } = await supabase.from('supervisor_assignments').insert({
+        intern_id: internId,
+        supervisor_id: userId,
+        assignment_type: 'primary',
+        assigned_by: userId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Intern assigned to you",
+      });
+      fetchInterns();
+    } catch (error) {
+      console.error('Error assigning intern:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign intern",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const enrollInCohort = async (internId: string, cohortId: string) => {
+    try {
+      if (cohortId === 'none') {
+        const { error } = await supabase
+          .from('cohort_enrollments')
+          .delete()
+          .eq('intern_id', internId);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('cohort_enrollments')
+          .upsert({
+            intern_id: internId,
+            cohort_id: cohortId,
+            enrolled_by: userId,
+            enrolled_at: new Date().toISOString(),
+          }, { onConflict: 'intern_id' });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: cohortId === 'none' ? "Intern removed from cohort" : "Intern enrolled in cohort",
+      });
+      setInterns(interns.map(intern =>
+        intern.id === internId ? { ...intern, cohortId: cohortId === 'none' ? null : cohortId } : intern
+      ));
+    } catch (error) {
+      console.error('Error enrolling intern:', error);
+      toast({
+        title: "Error",
+        description: error?.message?.includes('Cohort is full')
+          ? "This cohort is already at capacity"
+          : error?.code === '42501'
+            ? "You can only enroll your own interns in cohorts you supervise"
+            : "Failed to update cohort enrollment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getCohortLabel = (cohort: Cohort) => {
+    return cohort.programs ? `${cohort.programs.name} – ${cohort.name}` : cohort.name;
+  };
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -154,6 +280,12 @@ const InternManagement: React.FC = () => {
             Monitor and manage your intern team
           </p>
         </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as 'mine' | 'unassigned')}>
+          <TabsList>
+            <TabsTrigger value="mine">My Interns</TabsTrigger>
+            <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
       {/* Search and Filters */}
@@ -167,6 +299,20 @@ const InternManagement: React.FC = () => {
               onChange={(e) => setSearchTerm(e.target.value)}
               className="flex-1"
             />
+            <Select value={cohortFilter} onValueChange={setCohortFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Filter by cohort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Cohorts</SelectItem>
+                <SelectItem value="none">Not Enrolled</SelectItem>
+                {cohorts.map((cohort) => (
+                  <SelectItem key={cohort.id} value={cohort.id}>
+                    {getCohortLabel(cohort)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -235,6 +381,11 @@ const InternManagement: React.FC = () => {
                           Active Today
                         </Badge>
                       )}
+                      {intern.todayStatus && intern.todayStatus !== 'present' && isAttendanceStatus(intern.todayStatus) && (
+                        <Badge className={attendanceStatusClasses[intern.todayStatus]}>
+                          {attendanceStatusLabels[intern.todayStatus]}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -272,11 +423,32 @@ const InternManagement: React.FC = () => {
                   </div>
                   <span className="text-gray-700">Joined {new Date(intern.created_at).toLocaleDateString()}</span>
                 </div>
+                <Select
+                  value={intern.cohortId || 'none'}
+                  onValueChange={(value) => enrollInCohort(intern.id, value)}
+                >
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder="Enroll in cohort" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No cohort</SelectItem>
+                    {cohorts.map((cohort) => (
+                      <SelectItem key={cohort.id} value={cohort.id}>
+                        {getCohortLabel(cohort)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
               {/* Task Statistics */}
               <div className="bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-4">
-                <h4 className="text-sm font-semibold text-gray-900 mb-3">Task Performance</h4>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-900">Task Performance</h4>
+                  {intern.stats.subtasks > 0 && (
+                    <span className="text-xs text-gray-500">incl. {intern.stats.subtasks} subtasks</span>
+                  )}
+                </div>
                 <div className="grid grid-cols-3 gap-4 text-center">
                   <div className="p-3 bg-white rounded-lg shadow-sm">
                     <div className="text-xl font-bold text-gray-900">{intern.stats.total}</div>
@@ -313,6 +485,36 @@ const InternManagement: React.FC = () => {
 
               {/* Actions */}
               <div className="flex gap-3">
+                {view === 'unassigned' ? (
+                  <Button
+                    size="sm"
+                    className="flex-1 font-medium"
+                    onClick={() => assignToMe(intern.id)}
+                  >
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    Assign to Me
+                  </Button>
+                ) : (
+                  <AssignmentDialog
+                    internId={intern.id}
+                    internName={intern.full_name}
+                    onAssignmentsChange={fetchInterns}
+                  />
+                )}
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="outline" size="sm" className="flex-1 font-medium">
+                      <CalendarDays className="h-4 w-4 mr-1" />
+                      Attendance
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>Attendance for {intern.full_name}</DialogTitle>
+                    </DialogHeader>
+                    <AttendanceHeatmap internId={intern.id} department={intern.department} />
+                  </DialogContent>
+                </Dialog>
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -363,7 +565,9 @@ const InternManagement: React.FC = () => {
         <Card>
           <CardContent className="text-center py-8">
             <p className="text-muted-foreground">
-              {searchTerm ? 'No interns found matching your search.' : 'No interns found.'}
+              {searchTerm
+                ? 'No interns found matching your search.'
+                : view === 'mine' ? 'No interns are assigned to you yet.' : 'Every intern has a mentor.'}
             </p>
           </CardContent>
         </Card>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,16 +8,66 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Calendar, User, AlertCircle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Plus, Calendar, User, AlertCircle, CornerDownRight, Paperclip, Lock, Timer, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useBikramSambat } from '@/hooks/use-bikram-sambat';
+import { formatBikramSambat } from '@/lib/bikramSambat';
 import { createNotification, notificationTemplates } from '@/services/notificationService';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchTaskDependencies, TaskDependency } from '@/services/taskDependencyService';
+import { fetchTaskTimeLogs, getLogMinutes, formatDuration } from '@/services/timeLogService';
+import { getPositionAt } from '@/services/taskPositionService';
+import { getDueState } from '@/services/taskDeadlineService';
+import { fetchHolidays, Holiday } from '@/services/holidayService';
+import { fetchWorkingDaysByUser } from '@/services/workScheduleService';
+import { filtersFromSearchParams, applyFiltersToSearchParams, TaskFilters } from '@/services/savedViewService';
+import TaskDetailSheet from './TaskDetailSheet';
+import TaskFilterBar from './TaskFilterBar';
+import TaskBulkActions from './TaskBulkActions';
+import ImportWizard from '@/components/import/ImportWizard';
+
+type TaskStatus = 'todo' | 'in_progress' | 'in_review' | 'done';
+
+// Status moves each role may make; mirrored by the enforce_task_workflow trigger
+const allowedTransitions: Record<'supervisor' | 'intern', Record<TaskStatus, TaskStatus[]>> = {
+  intern: {
+    todo: ['in_progress'],
+    in_progress: ['in_review'],
+    in_review: [],
+    done: [],
+  },
+  supervisor: {
+    todo: [],
+    in_progress: [],
+    in_review: ['done', 'in_progress'],
+    done: [],
+  },
+};
+
+const statusOrder: TaskStatus[] = ['todo', 'in_progress', 'in_review', 'done'];
+
+const statusLabels: Record<TaskStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  in_review: 'In Review',
+  done: 'Done',
+};
 
 interface Task {
   id: string;
   title: string;
   description?: string;
-  status: 'todo' | 'in_progress' | 'done';
+  status: TaskStatus;
+  review_note?: string;
+  position: number;
+  parent_task_id?: string;
+  requires_deliverable: boolean;
+  estimated_hours?: number | null;
+  labels: string[];
+  batch_id?: string | null;
   priority: 'low' | 'medium' | 'high';
   due_date?: string;
   created_by: string;
@@ -25,6 +76,14 @@ interface Task {
   updated_at: string;
 }
 
+interface ChecklistItem {
+  id: string;
+  task_id: string;
+  title: string;
+  is_completed: boolean;
+  position: number;
+}
+
 interface Profile {
   id: string;
   full_name: string;
@@ -39,17 +98,45 @@ interface TaskBoardProps {
 
 const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [checklistItems, setChecklistItems] = useState<ChecklistItem[]>([]);
+  const [attachmentCounts, setAttachmentCounts] = useState<Record<string, number>>({});
+  const [loggedMinutes, setLoggedMinutes] = useState<Record<string, number>>({});
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [blockerTasks, setBlockerTasks] = useState<Record<string, { title: string; status: string }>>({});
   const [interns, setInterns] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reviewingTask, setReviewingTask] = useState<Task | null>(null);
+  const [changeReason, setChangeReason] = useState('');
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [bulkSelection, setBulkSelection] = useState<string[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [workingDays, setWorkingDays] = useState<Record<string, number[]>>({});
+  const { showBikramSambat } = useBikramSambat();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
 
+  // Filters live in the query string so a filtered board can be shared as a link
+  const filters = filtersFromSearchParams(searchParams);
+  const setFilters = (next: TaskFilters) => {
+    setSearchParams(applyFiltersToSearchParams(searchParams, next), { replace: true });
+  };
+  const isManualOrder = filters.sort === 'position';
+
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
     priority: 'medium' as 'low' | 'medium' | 'high',
     due_date: '',
-    assigned_to: '',
+    assignees: [] as string[],
+    parent_task_id: '',
+    checklist: '',
+    requires_deliverable: false,
+    estimated_hours: '',
+    labels: '',
   });
 
   useEffect(() => {
@@ -59,6 +146,17 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
     }
   }, [userRole, userId]);
 
+  useEffect(() => {
+    loadHolidays();
+  }, []);
+
+  const loadHolidays = async () => {
+    setHolidays(await fetchHolidays());
+  };
+
+  const holidayDates = holidays.map(holiday => holiday.date);
+  const dueDateHoliday = holidays.find(holiday => holiday.date === newTask.due_date);
+
   const fetchTasks = async () => {
     try {
       let query = supabase.from('tasks').select('*');
@@ -69,11 +167,18 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
         query = query.eq('assigned_to', userId);
       }
 
-      const { data, error } = await query.order('created_at', { ascending: false });
+      const { data, error } = await query
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: false });
 
       if (error) throw error;
 
       setTasks((data || []) as Task[]);
+      fetchChecklistItems((data || []).map(task => task.id));
+      fetchAttachmentCounts((data || []).map(task => task.id));
+      fetchDependencies((data || []).map(task => task.id));
+      fetchLoggedTime((data || []).map(task => task.id));
+      loadWorkingDays((data || []).map(task => task.assigned_to).filter((id): id is string => !!id));
     } catch (error) {
       console.error('Error fetching tasks:', error);
       toast({
@@ -86,16 +191,90 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
     }
   };
 
-  const fetchInterns = async () => {
+  const fetchChecklistItems = async (taskIds: string[]) => {
     try {
       const { data, error } = await supabase
-        .from('profiles')
+        .from('task_checklist_items')
         .select('*')
-        .eq('role', 'intern');
+        .in('task_id', taskIds)
+        .order('position');
+
+      if (error) throw error;
+      setChecklistItems(data || []);
+    } catch (error) {
+      console.error('Error fetching checklist items:', error);
+    }
+  };
+
+  const fetchAttachmentCounts = async (taskIds: string[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .select('task_id')
+        .in('task_id', taskIds);
 
       if (error) throw error;
 
-      setInterns(data || []);
+      const counts: Record<string, number> = {};
+      (data || []).forEach(attachment => {
+        counts[attachment.task_id] = (counts[attachment.task_id] || 0) + 1;
+      });
+      setAttachmentCounts(counts);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+    }
+  };
+
+  const loadWorkingDays = async (assigneeIds: string[]) => {
+    setWorkingDays(await fetchWorkingDaysByUser([...new Set(assigneeIds)]));
+  };
+
+  const fetchLoggedTime = async (taskIds: string[]) => {
+    const logs = await fetchTaskTimeLogs(taskIds);
+
+    const totals: Record<string, number> = {};
+    logs.forEach(log => {
+      totals[log.task_id] = (totals[log.task_id] || 0) + getLogMinutes(log);
+    });
+    setLoggedMinutes(totals);
+  };
+
+  const fetchDependencies = async (taskIds: string[]) => {
+    const data = await fetchTaskDependencies(taskIds);
+    setDependencies(data);
+
+    // Blocking tasks may belong to someone else, so look up their status separately
+    const blockerIds = [...new Set(data.map(dependency => dependency.depends_on_task_id))];
+    if (blockerIds.length === 0) {
+      setBlockerTasks({});
+      return;
+    }
+
+    const { data: blockers, error } = await supabase
+      .from('tasks')
+      .select('id, title, status')
+      .in('id', blockerIds);
+
+    if (error) {
+      console.error('Error fetching blocking tasks:', error);
+      return;
+    }
+
+    setBlockerTasks(Object.fromEntries((blockers || []).map(blocker => [blocker.id, { title: blocker.title, status: blocker.status }])));
+  };
+
+  // Unfinished tasks that must be done before this one can start
+  const getOpenBlockers = (taskId: string) => {
+    return dependencies
+      .filter(dependency => dependency.task_id === taskId)
+      .map(dependency => dependency.depends_on_task_id)
+      .filter(blockerId => blockerTasks[blockerId]?.status !== 'done');
+  };
+
+  const fetchInterns = async () => {
+    try {
+      const data = await fetchAssignedInterns(userId);
+      setInterns(data);
     } catch (error) {
       console.error('Error fetching interns:', error);
     }
@@ -112,30 +291,66 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
     }
 
     try {
-      const { error } = await supabase.from('tasks').insert({
-        title: newTask.title,
-        description: newTask.description,
-        priority: newTask.priority,
-        due_date: newTask.due_date || null,
-        created_by: userId,
-        assigned_to: newTask.assigned_to || null,
-        status: 'todo',
-      });
+      // Several assignees get linked copies of the same task
+      const assignees: (string | null)[] = newTask.assignees.length > 0 ? newTask.assignees : [null];
+      const batchId = assignees.length > 1 ? crypto.randomUUID() : null;
+      const topPosition = getPositionAt(getColumnTasks('todo'), 0);
+
+      const { data: createdTasks, error } = await supabase
+        .from('tasks')
+        .insert(assignees.map((assignee, index) => ({
+          title: newTask.title,
+          description: newTask.description,
+          priority: newTask.priority,
+          due_date: newTask.due_date || null,
+          created_by: userId,
+          assigned_to: assignee,
+          parent_task_id: newTask.parent_task_id || null,
+          requires_deliverable: newTask.requires_deliverable,
+          estimated_hours: newTask.estimated_hours ? Number(newTask.estimated_hours) : null,
+          labels: parseLabels(newTask.labels),
+          batch_id: batchId,
+          status: 'todo',
+          position: topPosition - index,
+        })))
+        .select();
 
       if (error) throw error;
 
-      // Send notification to assigned intern
-      if (newTask.assigned_to) {
-        await createNotification({
-          userId: newTask.assigned_to,
-          ...notificationTemplates.taskAssigned(newTask.title),
-          data: { taskId: null, taskTitle: newTask.title }
-        });
+      // One checklist item per non-empty line
+      const checklist = newTask.checklist
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+
+      if (checklist.length > 0) {
+        const { error: checklistError } = await supabase
+          .from('task_checklist_items')
+          .insert((createdTasks || []).flatMap(task => checklist.map((title, index) => ({
+            task_id: task.id,
+            title,
+            position: index,
+          }))));
+
+        if (checklistError) throw checklistError;
       }
 
+      // Send notification to each assigned intern
+      await Promise.all(
+        (createdTasks || [])
+          .filter(task => task.assigned_to)
+          .map(task => createNotification({
+            userId: task.assigned_to!,
+            ...notificationTemplates.taskAssigned(newTask.title),
+            data: { taskId: task.id, taskTitle: newTask.title }
+          }))
+      );
+
       toast({
         title: "Success",
-        description: "Task created successfully",
+        description: newTask.assignees.length > 1
+          ? `Task assigned to ${newTask.assignees.length} interns`
+          : "Task created successfully",
       });
 
       setNewTask({
@@ -143,7 +358,12 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
         description: '',
         priority: 'medium',
         due_date: '',
-        assigned_to: '',
+        assignees: [],
+        parent_task_id: '',
+        checklist: '',
+        requires_deliverable: false,
+        estimated_hours: '',
+        labels: '',
       });
       setIsDialogOpen(false);
       fetchTasks();
@@ -157,53 +377,229 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
     }
   };
 
-  const updateTaskStatus = async (taskId: string, newStatus: 'todo' | 'in_progress' | 'done') => {
+  const toggleChecklistItem = async (item: ChecklistItem, checked: boolean) => {
+    const previousItems = checklistItems;
+    setChecklistItems(checklistItems.map(i => i.id === item.id ? { ...i, is_completed: checked } : i));
+
+    try {
+      const { error } = await supabase
+        .from('task_checklist_items')
+        .update({ is_completed: checked })
+        .eq('id', item.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+      setChecklistItems(previousItems);
+      toast({
+        title: "Error",
+        description: "Failed to update checklist item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Completion across a task's checklist items and subtasks
+  const getTaskProgress = (taskId: string) => {
+    const items = checklistItems.filter(item => item.task_id === taskId);
+    const subtasks = tasks.filter(task => task.parent_task_id === taskId);
+    const total = items.length + subtasks.length;
+    const completed = items.filter(item => item.is_completed).length
+      + subtasks.filter(task => task.status === 'done').length;
+
+    return { total, completed, percentage: total > 0 ? Math.round((completed / total) * 100) : 0 };
+  };
+
+  const getColumnTasks = (status: TaskStatus) => {
+    return tasks
+      .filter(task => task.status === status)
+      .sort((a, b) => a.position - b.position);
+  };
+
+  const priorityRank: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+  const matchesFilters = (task: Task) => {
+    if (filters.assignee === 'unassigned' && task.assigned_to) return false;
+    if (filters.assignee && filters.assignee !== 'unassigned' && task.assigned_to !== filters.assignee) return false;
+    if (filters.priority && task.priority !== filters.priority) return false;
+    if (filters.label && !task.labels.includes(filters.label)) return false;
+    if (filters.dueFrom && (!task.due_date || task.due_date.slice(0, 10) < filters.dueFrom)) return false;
+    if (filters.dueTo && (!task.due_date || task.due_date.slice(0, 10) > filters.dueTo)) return false;
+    if (filters.search) {
+      const search = filters.search.toLowerCase();
+      const haystack = [task.title, task.description || '', ...task.labels].join(' ').toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  };
+
+  // Tasks shown in a column after filtering and sorting
+  const getVisibleColumnTasks = (status: TaskStatus) => {
+    const visible = getColumnTasks(status).filter(matchesFilters);
+
+    switch (filters.sort) {
+      case 'due_date':
+        return visible.sort((a, b) => (a.due_date || '9999').localeCompare(b.due_date || '9999'));
+      case 'priority':
+        return visible.sort((a, b) => priorityRank[a.priority] - priorityRank[b.priority]);
+      case 'created_at':
+        return visible.sort((a, b) => b.created_at.localeCompare(a.created_at));
+      case 'title':
+        return visible.sort((a, b) => a.title.localeCompare(b.title));
+      default:
+        return visible;
+    }
+  };
+
+  // Maps a slot in the visible (possibly filtered) column to a slot in the full column
+  const toColumnIndex = (status: TaskStatus, visibleIndex: number) => {
+    const target = getVisibleColumnTasks(status)[visibleIndex];
+    const columnTasks = getColumnTasks(status);
+    return target ? columnTasks.findIndex(t => t.id === target.id) : columnTasks.length;
+  };
+
+  const toggleBulkSelection = (taskId: string, selected: boolean) => {
+    setBulkSelection(current => selected ? [...current, taskId] : current.filter(id => id !== taskId));
+  };
+
+  const selectLinkedCopies = () => {
+    const batchIds = tasks.filter(t => bulkSelection.includes(t.id) && t.batch_id).map(t => t.batch_id);
+    const linkedIds = tasks.filter(t => t.batch_id && batchIds.includes(t.batch_id)).map(t => t.id);
+    setBulkSelection([...new Set([...bulkSelection, ...linkedIds])]);
+  };
+
+  const parseLabels = (value: string) => {
+    return [...new Set(value.split(',').map(label => label.trim().toLowerCase()).filter(Boolean))];
+  };
+
+  const allLabels = [...new Set(tasks.flatMap(task => task.labels))].sort();
+
+  const updateTaskPosition = async (taskId: string, position: number) => {
+    const previousTasks = tasks;
+    setTasks(tasks.map(t => t.id === taskId ? { ...t, position } : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ position })
+        .eq('id', taskId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error reordering task:', error);
+      setTasks(previousTasks);
+      toast({
+        title: "Error",
+        description: "Failed to reorder task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Moves a task to `index` in the `newStatus` column, applying the workflow rules on status changes
+  const moveTask = async (taskId: string, newStatus: TaskStatus, index: number) => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
-    // Prevent moving backwards in the workflow for security
-    const statusOrder = { 'todo': 0, 'in_progress': 1, 'done': 2 };
-    const currentOrder = statusOrder[task.status];
-    const newOrder = statusOrder[newStatus];
-    
-    if (newOrder < currentOrder) {
+    const columnTasks = getColumnTasks(newStatus).filter(t => t.id !== taskId);
+    const position = getPositionAt(columnTasks, Math.min(index, columnTasks.length));
+
+    if (task.status === newStatus) {
+      // Reordering only makes sense while the board shows the manual order
+      if (!isManualOrder) return;
+      if (position !== task.position) {
+        await updateTaskPosition(taskId, position);
+        setAnnouncement(`${task.title} moved to position ${Math.min(index, columnTasks.length) + 1} in ${statusLabels[newStatus]}`);
+      }
+      return;
+    }
+
+    // Sending a task back from review needs a reason, so go through the dialog
+    if (task.status === 'in_review' && newStatus === 'in_progress' && userRole === 'supervisor') {
+      setReviewingTask(task);
+      return;
+    }
+
+    const moved = await updateTaskStatus(taskId, newStatus, undefined, position);
+    if (moved) {
+      setAnnouncement(`${task.title} moved to ${statusLabels[newStatus]}`);
+    }
+  };
+
+  const updateTaskStatus = async (taskId: string, newStatus: TaskStatus, reason?: string, position?: number) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return false;
+
+    if (!allowedTransitions[userRole][task.status].includes(newStatus)) {
       toast({
         title: "Invalid Action",
-        description: "Tasks cannot be moved backward in the workflow",
+        description: "This task cannot be moved to that stage",
         variant: "destructive",
       });
-      return;
+      return false;
     }
+
+    if (task.status === 'todo' && newStatus === 'in_progress' && getOpenBlockers(taskId).length > 0) {
+      toast({
+        title: "Task Blocked",
+        description: `Finish ${getOpenBlockers(taskId).map(id => blockerTasks[id]?.title || 'the blocking tasks').join(', ')} first`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (['in_review', 'done'].includes(newStatus) && task.requires_deliverable && !attachmentCounts[taskId]) {
+      toast({
+        title: "Deliverable Required",
+        description: "Attach the deliverable in the task details before submitting",
+        variant: "destructive",
+      });
+      setSelectedTaskId(taskId);
+      return false;
+    }
+
+    const reviewNote = newStatus === 'in_progress' && task.status === 'in_review' ? reason : task.review_note ?? null;
+    const newPosition = position ?? getPositionAt(getColumnTasks(newStatus), 0);
+
+    // Update the board straight away and roll back if Supabase rejects the change
+    const previousTasks = tasks;
+    setTasks(tasks.map(t => t.id === taskId ? { ...t, status: newStatus, review_note: reviewNote, position: newPosition } : t));
+
     try {
       const { error } = await supabase
         .from('tasks')
         .update({ 
           status: newStatus,
-          completed_at: newStatus === 'done' ? new Date().toISOString() : null
+          review_note: reviewNote,
+          position: newPosition,
         })
         .eq('id', taskId);
 
       if (error) throw error;
 
-      // Send notification to supervisor when task is completed
-      if (newStatus === 'done') {
-        const task = tasks.find(t => t.id === taskId);
-        if (task) {
-          // Get intern name
-          const { data: internData } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('id', userId)
-            .single();
-
-          if (internData) {
-            await createNotification({
-              userId: task.created_by,
-              ...notificationTemplates.taskCompleted(task.title, internData.full_name),
-              data: { taskId, taskTitle: task.title }
-            });
-          }
+      if (newStatus === 'in_review') {
+        // Let the supervisor know the task is waiting for review
+        const { data: internData } = await supabase
+          .from('profiles')
+          .select('full_name')
+          .eq('id', userId)
+          .single();
+
+        if (internData) {
+          await createNotification({
+            userId: task.created_by,
+            ...notificationTemplates.taskSubmitted(task.title, internData.full_name),
+            data: { taskId, taskTitle: task.title }
+          });
         }
+      } else if (task.status === 'in_review' && task.assigned_to) {
+        await createNotification({
+          userId: task.assigned_to,
+          ...(newStatus === 'done'
+            ? notificationTemplates.taskApproved(task.title)
+            : notificationTemplates.taskChangesRequested(task.title, reason || '')),
+          data: { taskId, taskTitle: task.title }
+        });
       }
 
       toast({
@@ -212,16 +608,80 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
       });
 
       fetchTasks();
+      return true;
     } catch (error) {
       console.error('Error updating task:', error);
+      setTasks(previousTasks);
       toast({
         title: "Error",
         description: "Failed to update task status",
         variant: "destructive",
       });
+      return false;
+    }
+  };
+
+  const handleTaskKeyDown = (event: React.KeyboardEvent, task: Task) => {
+    if (event.key === 'Enter' && event.target === event.currentTarget) {
+      event.preventDefault();
+      setSelectedTaskId(task.id);
+      return;
+    }
+
+    if (!event.altKey) return;
+
+    const visibleTasks = getVisibleColumnTasks(task.status);
+    const index = visibleTasks.findIndex(t => t.id === task.id);
+    const statusIndex = statusOrder.indexOf(task.status);
+
+    switch (event.key) {
+      case 'ArrowUp':
+        if (index > 0) moveTask(task.id, task.status, toColumnIndex(task.status, index - 1));
+        break;
+      case 'ArrowDown':
+        if (index < visibleTasks.length - 1) moveTask(task.id, task.status, toColumnIndex(task.status, index + 1));
+        break;
+      case 'ArrowLeft':
+        if (statusIndex > 0) moveTask(task.id, statusOrder[statusIndex - 1], 0);
+        break;
+      case 'ArrowRight':
+        if (statusIndex < statusOrder.length - 1) moveTask(task.id, statusOrder[statusIndex + 1], 0);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  };
+
+  const handleDrop = (event: React.DragEvent, status: TaskStatus, index: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const taskId = event.dataTransfer.getData('text/plain') || draggedTaskId;
+    setDraggedTaskId(null);
+    setDropTarget(null);
+    if (taskId) {
+      moveTask(taskId, status, index);
     }
   };
 
+  const requestChanges = async () => {
+    if (!reviewingTask) return;
+
+    if (!changeReason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please explain what needs to change",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await updateTaskStatus(reviewingTask.id, 'in_progress', changeReason.trim());
+    setReviewingTask(null);
+    setChangeReason('');
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return 'bg-red-100 text-red-800';
@@ -235,22 +695,75 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
     switch (status) {
       case 'todo': return 'bg-gray-100 text-gray-800';
       case 'in_progress': return 'bg-blue-100 text-blue-800';
+      case 'in_review': return 'bg-amber-100 text-amber-800';
       case 'done': return 'bg-green-100 text-green-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const renderTasksByStatus = (status: 'todo' | 'in_progress' | 'done') => {
-    const filteredTasks = tasks.filter(task => task.status === status);
+  const renderTasksByStatus = (status: TaskStatus) => {
+    const filteredTasks = getVisibleColumnTasks(status);
     
     return (
-      <div className="space-y-3">
-        {filteredTasks.map((task) => (
-          <Card key={task.id} className="hover:shadow-lg transition-all duration-200 border-0 shadow-sm bg-white/80 backdrop-blur-sm">
+      <div
+        className={`space-y-3 min-h-[380px] rounded-lg transition-colors ${dropTarget === status ? 'bg-white/60 ring-2 ring-primary/30' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDropTarget(status);
+        }}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, status, getColumnTasks(status).length)}
+      >
+        {filteredTasks.map((task, index) => (
+          <Card
+            key={task.id}
+            tabIndex={0}
+            draggable
+            aria-roledescription="Draggable task"
+            aria-describedby="task-board-instructions"
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', task.id);
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedTaskId(task.id);
+            }}
+            onDragEnd={() => {
+              setDraggedTaskId(null);
+              setDropTarget(null);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDrop={(e) => handleDrop(e, status, toColumnIndex(status, index))}
+            onKeyDown={(e) => handleTaskKeyDown(e, task)}
+            className={`hover:shadow-lg transition-all duration-200 border-0 shadow-sm backdrop-blur-sm cursor-grab focus:outline-none focus-visible:ring-2 focus-visible:ring-primary ${getDueState(task, holidayDates, workingDays[task.assigned_to || '']) === 'overdue' ? 'bg-red-50/80 border-l-4 border-l-red-500' : 'bg-white/80'} ${draggedTaskId === task.id ? 'opacity-50' : ''}`}
+          >
             <CardContent className="p-4">
               <div className="flex justify-between items-start mb-2">
-                <h4 className="font-semibold text-sm">{task.title}</h4>
+                <div className="flex items-start gap-2">
+                  {userRole === 'supervisor' && (
+                    <Checkbox
+                      className="mt-0.5"
+                      aria-label={`Select ${task.title}`}
+                      checked={bulkSelection.includes(task.id)}
+                      onCheckedChange={(checked) => toggleBulkSelection(task.id, checked === true)}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    className="font-semibold text-sm text-left hover:text-primary hover:underline"
+                    onClick={() => setSelectedTaskId(task.id)}
+                  >
+                    {task.title}
+                  </button>
+                </div>
                 <div className="flex gap-1">
+                  {getDueState(task, holidayDates, workingDays[task.assigned_to || '']) === 'overdue' && (
+                    <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+                  )}
+                  {getDueState(task, holidayDates, workingDays[task.assigned_to || '']) === 'due_soon' && (
+                    <Badge className="bg-amber-100 text-amber-800">Due soon</Badge>
+                  )}
                   <Badge className={getPriorityColor(task.priority)}>{task.priority}</Badge>
                 </div>
               </div>
@@ -258,13 +771,94 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
               {task.description && (
                 <p className="text-sm text-muted-foreground mb-3">{task.description}</p>
               )}
+
+              {task.labels.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {task.labels.map((label) => (
+                    <Badge
+                      key={label}
+                      variant="outline"
+                      className="text-[10px] cursor-pointer"
+                      onClick={() => setFilters({ ...filters, label })}
+                    >
+                      {label}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {status === 'todo' && getOpenBlockers(task.id).length > 0 && (
+                <div className="flex items-center gap-1 text-xs text-red-600 mb-2">
+                  <Lock className="h-3 w-3" />
+                  Blocked by {getOpenBlockers(task.id).map(id => blockerTasks[id]?.title || 'another task').join(', ')}
+                </div>
+              )}
+
+              {task.parent_task_id && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
+                  <CornerDownRight className="h-3 w-3" />
+                  Subtask of {tasks.find(t => t.id === task.parent_task_id)?.title || 'another task'}
+                </div>
+              )}
+
+              {checklistItems.some(item => item.task_id === task.id) && (
+                <div className="space-y-1 mb-3">
+                  {checklistItems.filter(item => item.task_id === task.id).map((item) => (
+                    <label key={item.id} className="flex items-center gap-2 text-xs">
+                      <Checkbox
+                        checked={item.is_completed}
+                        disabled={userRole !== 'intern' || status === 'done'}
+                        onCheckedChange={(checked) => toggleChecklistItem(item, checked === true)}
+                      />
+                      <span className={item.is_completed ? 'line-through text-muted-foreground' : ''}>{item.title}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {getTaskProgress(task.id).total > 0 && (
+                <div className="space-y-1 mb-3">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Progress</span>
+                    <span>{getTaskProgress(task.id).completed}/{getTaskProgress(task.id).total}</span>
+                  </div>
+                  <Progress value={getTaskProgress(task.id).percentage} className="h-2" />
+                </div>
+              )}
+
+              {status === 'in_progress' && task.review_note && (
+                <div className="flex items-start gap-2 p-2 mb-3 rounded-md bg-amber-50 text-amber-800 text-xs">
+                  <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                  <span>Changes requested: {task.review_note}</span>
+                </div>
+              )}
               
               <div className="flex items-center justify-between text-xs text-muted-foreground">
                 <div className="flex items-center gap-2">
+                  {(attachmentCounts[task.id] || task.requires_deliverable) && (
+                    <div className={`flex items-center gap-1 ${task.requires_deliverable && !attachmentCounts[task.id] ? 'text-amber-600' : ''}`}>
+                      <Paperclip className="h-3 w-3" />
+                      {attachmentCounts[task.id] || (task.requires_deliverable ? 'Deliverable needed' : 0)}
+                    </div>
+                  )}
+                  {task.batch_id && (
+                    <div className="flex items-center gap-1" title="Linked copies assigned to several interns">
+                      <Users className="h-3 w-3" />
+                      {tasks.filter(t => t.batch_id === task.batch_id).length}
+                    </div>
+                  )}
+                  {(loggedMinutes[task.id] || task.estimated_hours) && (
+                    <div className={`flex items-center gap-1 ${task.estimated_hours && (loggedMinutes[task.id] || 0) > task.estimated_hours * 60 ? 'text-red-600' : ''}`}>
+                      <Timer className="h-3 w-3" />
+                      {formatDuration(loggedMinutes[task.id] || 0)}
+                      {task.estimated_hours ? ` / ${task.estimated_hours}h` : ''}
+                    </div>
+                  )}
                   {task.due_date && (
-                    <div className="flex items-center gap-1">
+                    <div className={`flex items-center gap-1 ${getDueState(task, holidayDates, workingDays[task.assigned_to || '']) === 'overdue' ? 'text-red-600 font-medium' : ''}`}>
                       <Calendar className="h-3 w-3" />
                       {new Date(task.due_date).toLocaleDateString()}
+                      {showBikramSambat && ` (${formatBikramSambat(task.due_date.slice(0, 10))})`}
                     </div>
                   )}
                 </div>
@@ -285,12 +879,36 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => updateTaskStatus(task.id, 'done')}
-                        className="h-6 px-2 text-xs bg-green-50 text-green-600 border-green-200 hover:bg-green-100"
+                        onClick={() => updateTaskStatus(task.id, 'in_review')}
+                        className="h-6 px-2 text-xs bg-amber-50 text-amber-600 border-amber-200 hover:bg-amber-100"
                       >
-                        Mark Done
+                        Submit for Review
                       </Button>
                     )}
+                    {status === 'in_review' && (
+                      <span className="text-amber-600">Awaiting review</span>
+                    )}
+                  </div>
+                )}
+
+                {userRole === 'supervisor' && status === 'in_review' && (
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setReviewingTask(task)}
+                      className="h-6 px-2 text-xs bg-amber-50 text-amber-600 border-amber-200 hover:bg-amber-100"
+                    >
+                      Request Changes
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateTaskStatus(task.id, 'done')}
+                      className="h-6 px-2 text-xs bg-green-50 text-green-600 border-green-200 hover:bg-green-100"
+                    >
+                      Approve
+                    </Button>
                   </div>
                 )}
               </div>
@@ -307,8 +925,8 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
 
   return (
     <div className="space-y-6">
-      <div className="flex justify-between items-center">
-        <div>
+      <div className="flex items-center gap-2">
+        <div className="mr-auto">
           <h2 className="text-2xl font-bold">
             {userRole === 'supervisor' ? 'Task Management' : 'My Tasks'}
           </h2>
@@ -320,6 +938,10 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
           </p>
         </div>
         
+        {userRole === 'supervisor' && (
+          <ImportWizard target="tasks" userRole="supervisor" userId={userId} onImported={fetchTasks} />
+        )}
+
         {userRole === 'supervisor' && (
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
@@ -380,24 +1002,126 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
                       value={newTask.due_date}
                       onChange={(e) => setNewTask({ ...newTask, due_date: e.target.value })}
                     />
+                    {dueDateHoliday && (
+                      <p className="text-xs text-amber-600 mt-1">
+                        {dueDateHoliday.name} is a holiday, so it won't count as overdue until the next working day
+                      </p>
+                    )}
                   </div>
                 </div>
+
+                <div>
+                  <Label htmlFor="labels">Labels</Label>
+                  <Input
+                    id="labels"
+                    value={newTask.labels}
+                    onChange={(e) => setNewTask({ ...newTask, labels: e.target.value })}
+                    placeholder="Comma separated, e.g. frontend, research"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="estimated_hours">Estimated Hours</Label>
+                  <Input
+                    id="estimated_hours"
+                    type="number"
+                    min="0.25"
+                    step="0.25"
+                    value={newTask.estimated_hours}
+                    onChange={(e) => setNewTask({ ...newTask, estimated_hours: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
                 
                 <div>
-                  <Label htmlFor="assigned_to">Assign To</Label>
-                  <Select value={newTask.assigned_to} onValueChange={(value) => setNewTask({ ...newTask, assigned_to: value })}>
+                  <div className="flex items-center justify-between">
+                    <Label>Assign To</Label>
+                    {!newTask.parent_task_id && interns.length > 0 && (
+                      <Button
+                        type="button"
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => setNewTask({
+                          ...newTask,
+                          assignees: newTask.assignees.length === interns.length ? [] : interns.map(intern => intern.id),
+                        })}
+                      >
+                        {newTask.assignees.length === interns.length ? 'Clear all' : 'Select all'}
+                      </Button>
+                    )}
+                  </div>
+                  <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+                    {interns.map((intern) => (
+                      <label key={intern.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={newTask.assignees.includes(intern.id)}
+                          disabled={!!newTask.parent_task_id}
+                          onCheckedChange={(checked) => setNewTask({
+                            ...newTask,
+                            assignees: checked === true
+                              ? [...newTask.assignees, intern.id]
+                              : newTask.assignees.filter(id => id !== intern.id),
+                          })}
+                        />
+                        {intern.full_name}
+                      </label>
+                    ))}
+                    {interns.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No interns assigned to you yet</p>
+                    )}
+                  </div>
+                  {newTask.assignees.length > 1 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      A linked copy will be created for each of the {newTask.assignees.length} interns
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="parent_task_id">Subtask Of</Label>
+                  <Select
+                    value={newTask.parent_task_id || 'none'}
+                    onValueChange={(value) => {
+                      const parent = tasks.find(t => t.id === value);
+                      setNewTask({
+                        ...newTask,
+                        parent_task_id: value === 'none' ? '' : value,
+                        assignees: parent?.assigned_to ? [parent.assigned_to] : newTask.assignees,
+                      });
+                    }}
+                  >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select an intern" />
+                      <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {interns.map((intern) => (
-                        <SelectItem key={intern.id} value={intern.id}>
-                          {intern.full_name}
+                      <SelectItem value="none">None (top-level task)</SelectItem>
+                      {tasks.filter(t => !t.parent_task_id && t.status !== 'done').map((task) => (
+                        <SelectItem key={task.id} value={task.id}>
+                          {task.title}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
+
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={newTask.requires_deliverable}
+                    onCheckedChange={(checked) => setNewTask({ ...newTask, requires_deliverable: checked === true })}
+                  />
+                  Require a deliverable file before submission
+                </label>
+
+                <div>
+                  <Label htmlFor="checklist">Checklist</Label>
+                  <Textarea
+                    id="checklist"
+                    value={newTask.checklist}
+                    onChange={(e) => setNewTask({ ...newTask, checklist: e.target.value })}
+                    placeholder="One item per line (optional)"
+                  />
+                </div>
                 
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -413,15 +1137,42 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
         )}
       </div>
 
+      <TaskFilterBar
+        userId={userId}
+        filters={filters}
+        onFiltersChange={setFilters}
+        assignees={userRole === 'supervisor' ? interns : undefined}
+        labels={allLabels}
+      />
+
+      {userRole === 'supervisor' && bulkSelection.length > 0 && (
+        <TaskBulkActions
+          selectedTasks={tasks.filter(t => bulkSelection.includes(t.id))}
+          interns={interns}
+          onClearSelection={() => setBulkSelection([])}
+          onSelectAllVisible={() => setBulkSelection(statusOrder.flatMap(status => getVisibleColumnTasks(status).map(t => t.id)))}
+          onSelectLinked={selectLinkedCopies}
+          onComplete={() => {
+            setBulkSelection([]);
+            fetchTasks();
+          }}
+        />
+      )}
+
+      <p id="task-board-instructions" className="sr-only">
+        Press Enter on a task to open its details. Drag tasks between columns, or focus a task and press Alt with the arrow keys: up and down to reorder, left and right to change stage.
+      </p>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+
       {/* Enhanced Kanban Board */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
         <div>
           <Card className="border-l-4 border-l-slate-400 bg-gradient-to-br from-slate-50 to-slate-100">
             <CardHeader className="pb-3">
               <CardTitle className="text-lg font-semibold flex items-center gap-3">
                 <div className="w-4 h-4 rounded-full bg-slate-500 shadow-sm"></div>
                 To Do
-                <Badge className="bg-slate-100 text-slate-700 hover:bg-slate-200">{tasks.filter(t => t.status === 'todo').length}</Badge>
+                <Badge className="bg-slate-100 text-slate-700 hover:bg-slate-200">{getVisibleColumnTasks('todo').length}</Badge>
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-0 min-h-[400px]">
@@ -436,7 +1187,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
               <CardTitle className="text-lg font-semibold flex items-center gap-3">
                 <div className="w-4 h-4 rounded-full bg-blue-500 shadow-sm"></div>
                 In Progress
-                <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200">{tasks.filter(t => t.status === 'in_progress').length}</Badge>
+                <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200">{getVisibleColumnTasks('in_progress').length}</Badge>
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-0 min-h-[400px]">
@@ -445,13 +1196,28 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
           </Card>
         </div>
 
+        <div>
+          <Card className="border-l-4 border-l-amber-400 bg-gradient-to-br from-amber-50 to-amber-100">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg font-semibold flex items-center gap-3">
+                <div className="w-4 h-4 rounded-full bg-amber-500 shadow-sm"></div>
+                In Review
+                <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-200">{getVisibleColumnTasks('in_review').length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 min-h-[400px]">
+              {renderTasksByStatus('in_review')}
+            </CardContent>
+          </Card>
+        </div>
+
         <div>
           <Card className="border-l-4 border-l-green-400 bg-gradient-to-br from-green-50 to-green-100">
             <CardHeader className="pb-3">
               <CardTitle className="text-lg font-semibold flex items-center gap-3">
                 <div className="w-4 h-4 rounded-full bg-green-500 shadow-sm"></div>
                 Done
-                <Badge className="bg-green-100 text-green-700 hover:bg-green-200">{tasks.filter(t => t.status === 'done').length}</Badge>
+                <Badge className="bg-green-100 text-green-700 hover:bg-green-200">{getVisibleColumnTasks('done').length}</Badge>
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-0 min-h-[400px]">
@@ -460,6 +1226,61 @@ const TaskBoard: React.FC<TaskBoardProps> = ({ userRole, userId }) => {
           </Card>
         </div>
       </div>
+
+      <TaskDetailSheet
+        task={tasks.find(t => t.id === selectedTaskId) || null}
+        userId={userId}
+        onOpenChange={(open) => !open && setSelectedTaskId(null)}
+        onAttachmentsChange={() => fetchAttachmentCounts(tasks.map(t => t.id))}
+        boardTasks={tasks}
+        dependencies={dependencies}
+        blockerTasks={blockerTasks}
+        canEditDependencies={userRole === 'supervisor'}
+        onDependenciesChange={() => fetchDependencies(tasks.map(t => t.id))}
+        onTimeLogsChange={() => fetchLoggedTime(tasks.map(t => t.id))}
+        canEditLabels={userRole === 'supervisor'}
+        onLabelsChange={fetchTasks}
+      />
+
+      <Dialog
+        open={!!reviewingTask}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReviewingTask(null);
+            setChangeReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Changes</DialogTitle>
+            <DialogDescription>
+              {reviewingTask?.title} will move back to In Progress
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="change_reason">Reason</Label>
+              <Textarea
+                id="change_reason"
+                value={changeReason}
+                onChange={(e) => setChangeReason(e.target.value)}
+                placeholder="Describe what the intern needs to change"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setReviewingTask(null)}>
+                Cancel
+              </Button>
+              <Button onClick={requestChanges}>
+                Send Back
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
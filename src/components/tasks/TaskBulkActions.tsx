@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Trash2, X, Link2, CheckSquare } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { createNotification, notificationTemplates } from '@/services/notificationService';
+
+interface SelectedTask {
+  id: string;
+  title: string;
+  assigned_to?: string;
+  batch_id?: string | null;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface TaskBulkActionsProps {
+  selectedTasks: SelectedTask[];
+  interns: Profile[];
+  onClearSelection: () => void;
+  onSelectAllVisible: () => void;
+  onSelectLinked: () => void;
+  onComplete: () => void;
+}
+
+const TaskBulkActions: React.FC<TaskBulkActionsProps> = ({
+  selectedTasks,
+  interns,
+  onClearSelection,
+  onSelectAllVisible,
+  onSelectLinked,
+  onComplete,
+}) => {
+  const [dueDate, setDueDate] = useState('');
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const taskIds = selectedTasks.map(task => task.id);
+  const hasLinkedCopies = selectedTasks.some(task => task.batch_id);
+
+  // One notification per intern, however many of their tasks changed
+  const notifyAssignees = async (tasks: SelectedTask[], change: string) => {
+    const tasksByIntern = new Map<string, SelectedTask[]>();
+    tasks.forEach(task => {
+      if (!task.assigned_to) return;
+      tasksByIntern.set(task.assigned_to, [...(tasksByIntern.get(task.assigned_to) || []), task]);
+    });
+
+    await Promise.all(
+      [...tasksByIntern.entries()].map(([internId, internTasks]) =>
+        createNotification({
+          userId: internId,
+          ...notificationTemplates.tasksUpdated(internTasks.length, change),
+          data: { taskIds: internTasks.map(task => task.id) }
+        })
+      )
+    );
+  };
+
+  const describeCount = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+  // Row-level security skips tasks the user may not change without raising an error, so each
+  // action returns the ids it actually affected and the rest are reported as failures
+  const runBulkAction = async (action: () => Promise<string[]>, describe: (tasks: string) => string) => {
+    setWorking(true);
+    try {
+      const affectedIds = await action();
+      const skipped = taskIds.length - affectedIds.length;
+
+      if (affectedIds.length > 0) {
+        toast({
+          title: "Success",
+          description: describe(describeCount(affectedIds.length)),
+        });
+      }
+      if (skipped > 0) {
+        toast({
+          title: "Error",
+          description: `${describeCount(skipped)} could not be changed because you don't have permission to edit them`,
+          variant: "destructive",
+        });
+      }
+      onComplete();
+    } catch (error) {
+      console.error('Error updating tasks:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to update the selected tasks",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const getAffectedTasks = (data: { id: string }[] | null) => {
+    const affectedIds = (data || []).map(task => task.id);
+    return selectedTasks.filter(task => affectedIds.includes(task.id));
+  };
+
+  const reassign = (internId: string) => runBulkAction(async () => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ assigned_to: internId })
+      .in('id', taskIds)
+      .select('id');
+
+    if (error) throw error;
+
+    const affectedTasks = getAffectedTasks(data);
+    const movedTasks = affectedTasks.filter(task => task.assigned_to !== internId);
+    await notifyAssignees(movedTasks, 'reassigned to another intern');
+
+    if (movedTasks.length > 0) {
+      await createNotification({
+        userId: internId,
+        ...(movedTasks.length === 1
+          ? notificationTemplates.taskAssigned(movedTasks[0].title)
+          : notificationTemplates.tasksAssigned(movedTasks.length)),
+        data: { taskIds: movedTasks.map(task => task.id) }
+      });
+    }
+    return affectedTasks.map(task => task.id);
+  }, tasks => `Reassigned ${tasks}`);
+
+  const setPriority = (priority: string) => runBulkAction(async () => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ priority })
+      .in('id', taskIds)
+      .select('id');
+
+    if (error) throw error;
+
+    const affectedTasks = getAffectedTasks(data);
+    await notifyAssignees(affectedTasks, `set to ${priority} priority`);
+    return affectedTasks.map(task => task.id);
+  }, tasks => `Updated priority on ${tasks}`);
+
+  const setDue = () => runBulkAction(async () => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ due_date: dueDate || null })
+      .in('id', taskIds)
+      .select('id');
+
+    if (error) throw error;
+
+    const affectedTasks = getAffectedTasks(data);
+    await notifyAssignees(
+      affectedTasks,
+      dueDate ? `given a new due date of ${format(new Date(dueDate), 'MMM dd, yyyy')}` : 'no longer given a due date'
+    );
+    setDueDate('');
+    return affectedTasks.map(task => task.id);
+  }, tasks => `Updated due date on ${tasks}`);
+
+  const deleteTasks = () => runBulkAction(async () => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .delete()
+      .in('id', taskIds)
+      .select('id');
+
+    if (error) throw error;
+
+    const affectedTasks = getAffectedTasks(data);
+    await notifyAssignees(affectedTasks, 'removed');
+    return affectedTasks.map(task => task.id);
+  }, tasks => `Deleted ${tasks}`);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-primary/30 bg-primary/5 sticky top-20 z-10">
+      <span className="text-sm font-medium mr-2">{selectedTasks.length} selected</span>
+
+      <Select value="" onValueChange={reassign} disabled={working}>
+        <SelectTrigger className="w-40 h-8 text-xs">
+          <SelectValue placeholder="Reassign to..." />
+        </SelectTrigger>
+        <SelectContent>
+          {interns.map((intern) => (
+            <SelectItem key={intern.id} value={intern.id}>
+              {intern.full_name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value="" onValueChange={setPriority} disabled={working}>
+        <SelectTrigger className="w-36 h-8 text-xs">
+          <SelectValue placeholder="Set priority..." />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="high">High</SelectItem>
+          <SelectItem value="medium">Medium</SelectItem>
+          <SelectItem value="low">Low</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <Input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="w-36 h-8 text-xs"
+        />
+        <Button size="sm" variant="outline" className="h-8 text-xs" onClick={setDue} disabled={working}>
+          {dueDate ? 'Set Due Date' : 'Clear Due Date'}
+        </Button>
+      </div>
+
+      <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={onSelectAllVisible}>
+        <CheckSquare className="h-3 w-3 mr-1" />
+        Select All Shown
+      </Button>
+
+      {hasLinkedCopies && (
+        <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={onSelectLinked}>
+          <Link2 className="h-3 w-3 mr-1" />
+          Select Linked Copies
+        </Button>
+      )}
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button size="sm" variant="destructive" className="h-8 text-xs" disabled={working}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedTasks.length} tasks?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the selected tasks together with their subtasks, checklists, comments and time logs. Assigned interns will be notified.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteTasks} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete Tasks
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Button size="sm" variant="ghost" className="h-8 text-xs ml-auto" onClick={onClearSelection}>
+        <X className="h-3 w-3 mr-1" />
+        Clear Selection
+      </Button>
+    </div>
+  );
+};
+
+export default TaskBulkActions;
@@ -0,0 +1,825 @@
+import React, { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { MessageSquare, Reply, ArrowRight, Star, X, Paperclip, Download, Trash2, FileText, Lock, AlertTriangle, Tag } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { createNotification, notificationTemplates } from '@/services/notificationService';
+import { fetchInternSupervisorIds } from '@/services/assignmentService';
+import {
+  uploadTaskAttachment,
+  deleteTaskAttachment,
+  getAttachmentUrl,
+  validateAttachment,
+  formatFileSize,
+} from '@/services/attachmentService';
+import TaskTimeTracker from '@/components/tasks/TaskTimeTracker';
+import { fetchTaskEscalations, escalationLabels, TaskEscalation } from '@/services/taskDeadlineService';
+import { addTaskDependency, removeTaskDependency, wouldCreateCycle, TaskDependency } from '@/services/taskDependencyService';
+
+interface TaskSummary {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  created_by: string;
+  assigned_to?: string;
+  requires_deliverable?: boolean;
+  estimated_hours?: number | null;
+  labels?: string[];
+}
+
+interface Attachment {
+  id: string;
+  uploaded_by: string;
+  file_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+  url?: string | null;
+}
+
+interface Comment {
+  id: string;
+  task_id: string;
+  author_id: string;
+  parent_comment_id: string | null;
+  body: string;
+  mentions: string[];
+  created_at: string;
+}
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+interface Feedback {
+  id: string;
+  supervisor_id: string;
+  comments: string | null;
+  rating: number | null;
+  feedback_type: string | null;
+  created_at: string;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+type ActivityItem =
+  | { kind: 'comment'; created_at: string; comment: Comment }
+  | { kind: 'status'; created_at: string; change: StatusChange }
+  | { kind: 'feedback'; created_at: string; feedback: Feedback }
+  | { kind: 'attachment'; created_at: string; attachment: Attachment }
+  | { kind: 'escalation'; created_at: string; escalation: TaskEscalation };
+
+interface TaskDetailSheetProps {
+  task: TaskSummary | null;
+  userId: string;
+  onOpenChange: (open: boolean) => void;
+  onAttachmentsChange?: () => void;
+  boardTasks?: { id: string; title: string; status: string }[];
+  dependencies?: TaskDependency[];
+  blockerTasks?: Record<string, { title: string; status: string }>;
+  canEditDependencies?: boolean;
+  onDependenciesChange?: () => void;
+  onTimeLogsChange?: () => void;
+  canEditLabels?: boolean;
+  onLabelsChange?: () => void;
+}
+
+const statusLabels: Record<string, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  in_review: 'In Review',
+  done: 'Done',
+};
+
+const TaskDetailSheet: React.FC<TaskDetailSheetProps> = ({
+  task,
+  userId,
+  onOpenChange,
+  onAttachmentsChange,
+  boardTasks = [],
+  dependencies = [],
+  blockerTasks = {},
+  canEditDependencies = false,
+  onDependenciesChange,
+  onTimeLogsChange,
+  canEditLabels = false,
+  onLabelsChange,
+}) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [statusChanges, setStatusChanges] = useState<StatusChange[]>([]);
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [escalations, setEscalations] = useState<TaskEscalation[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [participants, setParticipants] = useState<Profile[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, string>>({});
+  const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (task) {
+      fetchActivity();
+      fetchParticipants();
+    } else {
+      setNewComment('');
+      setReplyTo(null);
+    }
+  }, [task?.id]);
+
+  useEffect(() => {
+    if (!task) return;
+
+    const commentSubscription = supabase
+      .channel(`task-comments-${task.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${task.id}`
+        },
+        () => {
+          fetchActivity();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(commentSubscription);
+    };
+  }, [task?.id]);
+
+  const fetchActivity = async () => {
+    if (!task) return;
+
+    try {
+      const { data: commentData, error: commentError } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', task.id)
+        .order('created_at', { ascending: true });
+
+      if (commentError) throw commentError;
+
+      const { data: historyData } = await supabase
+        .from('task_status_history')
+        .select('*')
+        .eq('task_id', task.id)
+        .order('created_at', { ascending: true });
+
+      const { data: feedbackData } = await supabase
+        .from('feedback')
+        .select('*')
+        .eq('task_id', task.id)
+        .order('created_at', { ascending: true });
+
+      const { data: attachmentData } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .eq('task_id', task.id)
+        .order('created_at', { ascending: true });
+
+      const escalationData = await fetchTaskEscalations(task.id);
+
+      // Signed URLs for previews, since the bucket is private
+      const attachmentsWithUrls = await Promise.all(
+        (attachmentData || []).map(async (attachment) => ({
+          ...attachment,
+          url: await getAttachmentUrl(attachment.file_path),
+        }))
+      );
+
+      setComments(commentData || []);
+      setStatusChanges(historyData || []);
+      setFeedback(feedbackData || []);
+      setAttachments(attachmentsWithUrls);
+      setEscalations(escalationData);
+
+      // Fetch names for everyone appearing in the activity
+      const userIds = [...new Set([
+        ...(commentData || []).map(c => c.author_id),
+        ...(historyData || []).map(h => h.changed_by).filter(Boolean),
+        ...(feedbackData || []).map(f => f.supervisor_id),
+        ...(attachmentData || []).map(a => a.uploaded_by),
+        ...escalationData.map(e => e.recipient_id),
+      ])];
+
+      if (userIds.length > 0) {
+        const { data: profileData } = await supabase
+          .from('profiles')
+          .select('id, full_name')
+          .in('id', userIds);
+
+        setProfiles(current => ({
+          ...current,
+          ...Object.fromEntries((profileData || []).map(p => [p.id, p.full_name])),
+        }));
+      }
+    } catch (error) {
+      console.error('Error fetching task activity:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load task activity",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // People who can be @mentioned: the assignee, the creator and the assignee's mentors
+  const fetchParticipants = async () => {
+    if (!task) return;
+
+    const supervisorIds = task.assigned_to ? await fetchInternSupervisorIds(task.assigned_to) : [];
+    const participantIds = [...new Set([task.created_by, task.assigned_to, ...supervisorIds].filter(Boolean))];
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', participantIds)
+      .order('full_name');
+
+    if (error) {
+      console.error('Error fetching participants:', error);
+      return;
+    }
+
+    setParticipants(data || []);
+  };
+
+  const insertMention = (profile: Profile) => {
+    setNewComment(current => `${current}${current && !current.endsWith(' ') ? ' ' : ''}@${profile.full_name} `);
+  };
+
+  const postComment = async () => {
+    if (!task || !newComment.trim()) return;
+
+    // Only keep mentions whose @Name is still in the text
+    const mentionedIds = participants
+      .filter(p => p.id !== userId && newComment.includes(`@${p.full_name}`))
+      .map(p => p.id);
+
+    setPosting(true);
+    try {
+      const { error } = await supabase.from('task_comments').insert({
+        task_id: task.id,
+        author_id: userId,
+        parent_comment_id: replyTo ? (replyTo.parent_comment_id || replyTo.id) : null,
+        body: newComment.trim(),
+        mentions: mentionedIds,
+      });
+
+      if (error) throw error;
+
+      if (mentionedIds.length > 0) {
+        const authorName = participants.find(p => p.id === userId)?.full_name || profiles[userId] || 'Someone';
+        await Promise.all(mentionedIds.map(mentionedId =>
+          createNotification({
+            userId: mentionedId,
+            ...notificationTemplates.taskMention(authorName, task.title),
+            data: { taskId: task.id, taskTitle: task.title }
+          })
+        ));
+      }
+
+      setNewComment('');
+      setReplyTo(null);
+      fetchActivity();
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to post comment",
+        variant: "destructive",
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (!task) return;
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const invalid = files.map(validateAttachment).filter(Boolean);
+    if (invalid.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: invalid.join('. '),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        await uploadTaskAttachment(task.id, file, userId);
+      }
+
+      toast({
+        title: "Success",
+        description: files.length === 1 ? "File attached" : `${files.length} files attached`,
+      });
+      fetchActivity();
+      onAttachmentsChange?.();
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload file",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDeleteAttachment = async (attachment: Attachment) => {
+    try {
+      await deleteTaskAttachment(attachment.id, attachment.file_path);
+      fetchActivity();
+      onAttachmentsChange?.();
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to delete file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderPreview = (attachment: Attachment) => {
+    if (!attachment.url) return null;
+
+    if (attachment.mime_type.startsWith('image/')) {
+      return <img src={attachment.url} alt={attachment.file_name} className="mt-2 max-h-48 rounded border object-contain" />;
+    }
+    if (attachment.mime_type === 'application/pdf') {
+      return <iframe src={attachment.url} title={attachment.file_name} className="mt-2 w-full h-64 rounded border" />;
+    }
+    return null;
+  };
+
+  const handleAddDependency = async (dependsOnId: string) => {
+    if (!task) return;
+
+    if (wouldCreateCycle(dependencies, task.id, dependsOnId)) {
+      toast({
+        title: "Invalid Dependency",
+        description: "That task already depends on this one",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await addTaskDependency(task.id, dependsOnId, userId);
+      onDependenciesChange?.();
+    } catch (error) {
+      console.error('Error adding dependency:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add dependency",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveDependency = async (dependsOnId: string) => {
+    if (!task) return;
+
+    try {
+      await removeTaskDependency(task.id, dependsOnId);
+      onDependenciesChange?.();
+    } catch (error) {
+      console.error('Error removing dependency:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove dependency",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveLabels = async (labels: string[]) => {
+    if (!task) return;
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ labels })
+        .eq('id', task.id);
+
+      if (error) throw error;
+      onLabelsChange?.();
+    } catch (error) {
+      console.error('Error updating labels:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update labels",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addLabel = () => {
+    const label = newLabel.trim().toLowerCase();
+    if (!task || !label) return;
+
+    setNewLabel('');
+    if (!(task.labels || []).includes(label)) {
+      saveLabels([...(task.labels || []), label]);
+    }
+  };
+
+  const blockedByIds = task
+    ? dependencies.filter(d => d.task_id === task.id).map(d => d.depends_on_task_id)
+    : [];
+
+  const dependencyCandidates = task
+    ? boardTasks.filter(t =>
+        t.id !== task.id
+        && !blockedByIds.includes(t.id)
+        && !wouldCreateCycle(dependencies, task.id, t.id)
+      )
+    : [];
+
+  const getName = (id: string | null) => {
+    if (!id) return 'System';
+    return profiles[id] || participants.find(p => p.id === id)?.full_name || 'Unknown';
+  };
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map(n => n[0]).join('').toUpperCase();
+  };
+
+  const renderCommentBody = (body: string) => {
+    // Highlight @mentions of known participants
+    const names = participants.map(p => p.full_name).sort((a, b) => b.length - a.length);
+    if (names.length === 0) return body;
+
+    const pattern = new RegExp(`(@(?:${names.map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')}))`, 'g');
+    return body.split(pattern).map((part, index) =>
+      part.startsWith('@') && names.includes(part.slice(1))
+        ? <span key={index} className="font-medium text-primary">{part}</span>
+        : part
+    );
+  };
+
+  const renderComment = (comment: Comment, isReply = false) => (
+    <div key={comment.id} className={`flex gap-3 ${isReply ? 'ml-10 mt-3' : ''}`}>
+      <Avatar className="h-8 w-8">
+        <AvatarFallback className="text-xs">{getInitials(getName(comment.author_id))}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{getName(comment.author_id)}</span>
+          <span className="text-xs text-muted-foreground">{format(new Date(comment.created_at), 'MMM dd, HH:mm')}</span>
+        </div>
+        <p className="text-sm whitespace-pre-wrap break-words">{renderCommentBody(comment.body)}</p>
+        {!isReply && (
+          <Button variant="ghost" size="sm" className="h-6 px-1 text-xs text-muted-foreground" onClick={() => setReplyTo(comment)}>
+            <Reply className="h-3 w-3 mr-1" />
+            Reply
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  const activity: ActivityItem[] = [
+    ...comments.map(comment => ({ kind: 'comment' as const, created_at: comment.created_at, comment })),
+    ...statusChanges.map(change => ({ kind: 'status' as const, created_at: change.created_at, change })),
+    ...feedback.map(item => ({ kind: 'feedback' as const, created_at: item.created_at, feedback: item })),
+    ...attachments.map(attachment => ({ kind: 'attachment' as const, created_at: attachment.created_at, attachment })),
+    ...escalations.map(escalation => ({ kind: 'escalation' as const, created_at: escalation.created_at, escalation })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const renderActivity = (item: ActivityItem) => {
+    switch (item.kind) {
+      case 'comment':
+        return (
+          <div className="flex items-start gap-2 text-sm">
+            <MessageSquare className="h-4 w-4 mt-0.5 text-blue-500 shrink-0" />
+            <span>
+              <span className="font-medium">{getName(item.comment.author_id)}</span>
+              {item.comment.parent_comment_id ? ' replied: ' : ' commented: '}
+              <span className="text-muted-foreground">{item.comment.body}</span>
+            </span>
+          </div>
+        );
+      case 'status':
+        return (
+          <div className="flex items-start gap-2 text-sm">
+            <ArrowRight className="h-4 w-4 mt-0.5 text-purple-500 shrink-0" />
+            <span>
+              <span className="font-medium">{getName(item.change.changed_by)}</span>
+              {item.change.from_status
+                ? <> moved the task from {statusLabels[item.change.from_status] || item.change.from_status} to {statusLabels[item.change.to_status] || item.change.to_status}</>
+                : <> created the task</>}
+              {item.change.reason && <span className="block text-muted-foreground">Reason: {item.change.reason}</span>}
+            </span>
+          </div>
+        );
+      case 'feedback':
+        return (
+          <div className="flex items-start gap-2 text-sm">
+            <Star className="h-4 w-4 mt-0.5 text-amber-500 shrink-0" />
+            <span>
+              <span className="font-medium">{getName(item.feedback.supervisor_id)}</span> left
+              {item.feedback.feedback_type ? ` ${item.feedback.feedback_type}` : ''} feedback
+              {item.feedback.rating ? ` (${item.feedback.rating}/5)` : ''}
+              {item.feedback.comments && <span className="block text-muted-foreground">{item.feedback.comments}</span>}
+            </span>
+          </div>
+        );
+      case 'attachment':
+        return (
+          <div className="flex items-start gap-2 text-sm">
+            <Paperclip className="h-4 w-4 mt-0.5 text-emerald-500 shrink-0" />
+            <span>
+              <span className="font-medium">{getName(item.attachment.uploaded_by)}</span> attached {item.attachment.file_name}
+            </span>
+          </div>
+        );
+      case 'escalation':
+        return (
+          <div className="flex items-start gap-2 text-sm">
+            <AlertTriangle className={`h-4 w-4 mt-0.5 shrink-0 ${item.escalation.tier === 'due_soon' ? 'text-amber-500' : 'text-red-500'}`} />
+            <span>
+              {escalationLabels[item.escalation.tier]} sent to <span className="font-medium">{getName(item.escalation.recipient_id)}</span>
+            </span>
+          </div>
+        );
+    }
+  };
+
+  const rootComments = comments.filter(c => !c.parent_comment_id);
+
+  return (
+    <Sheet open={!!task} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <div className="flex items-center gap-2">
+            <SheetTitle>{task?.title}</SheetTitle>
+            {task && <Badge variant="secondary">{statusLabels[task.status] || task.status}</Badge>}
+          </div>
+          {task?.description && <SheetDescription>{task.description}</SheetDescription>}
+        </SheetHeader>
+
+        {((task?.labels || []).length > 0 || canEditLabels) && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-1">
+              <Tag className="h-4 w-4" />
+              Labels
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {(task?.labels || []).map((label) => (
+                <Badge key={label} variant="outline">
+                  {label}
+                  {canEditLabels && (
+                    <button type="button" className="ml-1" onClick={() => saveLabels((task?.labels || []).filter(l => l !== label))}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+              {canEditLabels && (
+                <Input
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addLabel();
+                    }
+                  }}
+                  placeholder="Add label"
+                  className="h-7 w-28 text-xs"
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        {(blockedByIds.length > 0 || canEditDependencies) && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-1">
+              <Lock className="h-4 w-4" />
+              Blocked By
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {blockedByIds.map((blockerId) => (
+                <Badge
+                  key={blockerId}
+                  variant="outline"
+                  className={blockerTasks[blockerId]?.status === 'done' ? 'line-through text-muted-foreground' : ''}
+                >
+                  {blockerTasks[blockerId]?.title || boardTasks.find(t => t.id === blockerId)?.title || 'Unknown task'}
+                  {canEditDependencies && (
+                    <button type="button" className="ml-1" onClick={() => handleRemoveDependency(blockerId)}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+              {blockedByIds.length === 0 && (
+                <span className="text-xs text-muted-foreground">Nothing blocks this task</span>
+              )}
+            </div>
+            {canEditDependencies && dependencyCandidates.length > 0 && (
+              <Select value="" onValueChange={handleAddDependency}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Add a blocking task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dependencyCandidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        <Tabs defaultValue="comments" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="grid grid-cols-4">
+            <TabsTrigger value="comments">Comments ({comments.length})</TabsTrigger>
+            <TabsTrigger value="files">Files ({attachments.length})</TabsTrigger>
+            <TabsTrigger value="time">Time</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="comments" className="flex-1 flex flex-col min-h-0">
+            <div className="flex-1 overflow-y-auto space-y-4 py-2">
+              {rootComments.map((comment) => (
+                <div key={comment.id}>
+                  {renderComment(comment)}
+                  {comments
+                    .filter(reply => reply.parent_comment_id === comment.id)
+                    .map(reply => renderComment(reply, true))}
+                </div>
+              ))}
+              {rootComments.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No comments yet. Ask a question or share an update.</p>
+              )}
+            </div>
+
+            <div className="border-t pt-3 space-y-2">
+              {replyTo && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground bg-gray-50 rounded px-2 py-1">
+                  <span>Replying to {getName(replyTo.author_id)}</span>
+                  <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={() => setReplyTo(null)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+              <Textarea
+                value={newComment}
+                onChange={(e) => setNewComment(e.target.value)}
+                placeholder="Write a comment..."
+                rows={3}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                    e.preventDefault();
+                    postComment();
+                  }
+                }}
+              />
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-1">
+                  {participants.filter(p => p.id !== userId).map((participant) => (
+                    <Button
+                      key={participant.id}
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => insertMention(participant)}
+                    >
+                      @{participant.full_name.split(' ')[0]}
+                    </Button>
+                  ))}
+                </div>
+                <Button size="sm" onClick={postComment} disabled={posting || !newComment.trim()}>
+                  {replyTo ? 'Reply' : 'Comment'}
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="files" className="flex-1 overflow-y-auto space-y-4">
+            {task?.requires_deliverable && attachments.length === 0 && (
+              <div className="p-3 rounded-md bg-amber-50 text-amber-800 text-sm">
+                This task needs a deliverable attached before it can be submitted.
+              </div>
+            )}
+
+            <div>
+              <Input
+                type="file"
+                multiple
+                onChange={handleFileUpload}
+                disabled={uploading}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Images, PDFs, documents, spreadsheets or ZIP archives up to 10 MB
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              {attachments.map((attachment) => (
+                <div key={attachment.id} className="p-3 rounded-lg border bg-gray-50">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{attachment.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatFileSize(attachment.size_bytes)} • {getName(attachment.uploaded_by)} • {format(new Date(attachment.created_at), 'MMM dd, HH:mm')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {attachment.url && (
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+                          <a href={attachment.url} target="_blank" rel="noopener noreferrer" download={attachment.file_name}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                      {attachment.uploaded_by === userId && (
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDeleteAttachment(attachment)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {renderPreview(attachment)}
+                </div>
+              ))}
+              {attachments.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No files attached</p>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="time" className="flex-1 overflow-y-auto">
+            {task && (
+              <TaskTimeTracker
+                taskId={task.id}
+                estimatedHours={task.estimated_hours}
+                userId={userId}
+                canLogTime={task.assigned_to === userId}
+                getName={getName}
+                onTimeLogsChange={onTimeLogsChange}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="activity" className="flex-1 overflow-y-auto">
+            <div className="space-y-3 py-2">
+              {activity.map((item, index) => (
+                <div key={index} className="flex gap-3">
+                  <span className="text-xs text-muted-foreground w-24 shrink-0">{format(new Date(item.created_at), 'MMM dd, HH:mm')}</span>
+                  {renderActivity(item)}
+                </div>
+              ))}
+              {activity.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No activity yet</p>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TaskDetailSheet;
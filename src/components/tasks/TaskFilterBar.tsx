@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Search, X, Bookmark, Link2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchSavedViews,
+  createSavedView,
+  deleteSavedView,
+  emptyTaskFilters,
+  hasActiveFilters,
+  SavedView,
+  TaskFilters,
+  TaskSort,
+} from '@/services/savedViewService';
+
+interface TaskFilterBarProps {
+  userId: string;
+  filters: TaskFilters;
+  onFiltersChange: (filters: TaskFilters) => void;
+  assignees?: { id: string; full_name: string }[];
+  labels: string[];
+}
+
+const sortOptions: { value: TaskSort; label: string }[] = [
+  { value: 'position', label: 'Manual order' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'created_at', label: 'Newest first' },
+  { value: 'title', label: 'Title' },
+];
+
+const TaskFilterBar: React.FC<TaskFilterBarProps> = ({
+  userId,
+  filters,
+  onFiltersChange,
+  assignees,
+  labels,
+}) => {
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSavedViews(userId).then(setSavedViews);
+  }, [userId]);
+
+  const updateFilter = <K extends keyof TaskFilters>(key: K, value: TaskFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  // The view whose filters match the current ones exactly, if any
+  const activeView = savedViews.find(view =>
+    (Object.keys(emptyTaskFilters) as (keyof TaskFilters)[]).every(
+      key => (view.filters[key] ?? emptyTaskFilters[key]) === filters[key]
+    )
+  );
+
+  const saveView = async () => {
+    if (!viewName.trim()) return;
+
+    try {
+      const view = await createSavedView(userId, viewName.trim(), filters);
+      setSavedViews([...savedViews, view].sort((a, b) => a.name.localeCompare(b.name)));
+      setIsSaveDialogOpen(false);
+      setViewName('');
+      toast({
+        title: "Success",
+        description: "View saved",
+      });
+    } catch (error) {
+      console.error('Error saving view:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save view. View names must be unique.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeView = async (view: SavedView) => {
+    try {
+      await deleteSavedView(view.id);
+      setSavedViews(savedViews.filter(v => v.id !== view.id));
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete view",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link Copied",
+        description: "Anyone with access to these tasks will see the same filters",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border bg-white/70">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={filters.search}
+            onChange={(e) => updateFilter('search', e.target.value)}
+            placeholder="Search tasks..."
+            className="pl-8"
+          />
+        </div>
+
+        {assignees && (
+          <Select value={filters.assignee || 'all'} onValueChange={(value) => updateFilter('assignee', value === 'all' ? '' : value)}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Assignee" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All assignees</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {assignees.map((assignee) => (
+                <SelectItem key={assignee.id} value={assignee.id}>
+                  {assignee.full_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Select value={filters.priority || 'all'} onValueChange={(value) => updateFilter('priority', value === 'all' ? '' : value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All priorities</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={filters.label || 'all'} onValueChange={(value) => updateFilter('label', value === 'all' ? '' : value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Label" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All labels</SelectItem>
+            {labels.map((label) => (
+              <SelectItem key={label} value={label}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div>
+          <Label htmlFor="due_from" className="text-xs">Due from</Label>
+          <Input
+            id="due_from"
+            type="date"
+            value={filters.dueFrom}
+            onChange={(e) => updateFilter('dueFrom', e.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div>
+          <Label htmlFor="due_to" className="text-xs">Due to</Label>
+          <Input
+            id="due_to"
+            type="date"
+            value={filters.dueTo}
+            onChange={(e) => updateFilter('dueTo', e.target.value)}
+            className="w-40"
+          />
+        </div>
+
+        <Select value={filters.sort} onValueChange={(value) => updateFilter('sort', value as TaskSort)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                Sort: {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={activeView?.id || ''}
+          onValueChange={(value) => {
+            const view = savedViews.find(v => v.id === value);
+            if (view) onFiltersChange({ ...emptyTaskFilters, ...view.filters });
+          }}
+        >
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue placeholder={savedViews.length > 0 ? 'Saved views' : 'No saved views'} />
+          </SelectTrigger>
+          <SelectContent>
+            {savedViews.map((view) => (
+              <SelectItem key={view.id} value={view.id}>
+                {view.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {activeView && (
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => removeView(activeView)}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Delete View
+          </Button>
+        )}
+
+        {hasActiveFilters(filters) && !activeView && (
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setIsSaveDialogOpen(true)}>
+            <Bookmark className="h-3 w-3 mr-1" />
+            Save View
+          </Button>
+        )}
+
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={copyLink}>
+          <Link2 className="h-3 w-3 mr-1" />
+          Copy Link
+        </Button>
+
+        {hasActiveFilters(filters) && (
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => onFiltersChange(emptyTaskFilters)}>
+            <X className="h-3 w-3 mr-1" />
+            Clear Filters
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Save the current filters and sort order to reuse later
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="view_name">View Name</Label>
+              <Input
+                id="view_name"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. High priority this week"
+                onKeyDown={(e) => e.key === 'Enter' && saveView()}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsSaveDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={saveView} disabled={!viewName.trim()}>
+                Save View
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaskFilterBar;
@@ -0,0 +1,673 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Repeat, Send, Trash2, ListChecks } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { notifyMultipleUsers, notificationTemplates } from '@/services/notificationService';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchTopPosition } from '@/services/taskPositionService';
+
+interface TaskTemplate {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  checklist: string[];
+  due_offset_days: number | null;
+  requires_deliverable: boolean;
+}
+
+interface Recurrence {
+  id: string;
+  template_id: string;
+  frequency: string;
+  interval: number;
+  assignee_id: string | null;
+  department: string | null;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string;
+  is_active: boolean;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+  department?: string;
+}
+
+interface TaskTemplatesProps {
+  userId: string;
+}
+
+const frequencyUnits: Record<string, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+const TaskTemplates: React.FC<TaskTemplatesProps> = ({ userId }) => {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [recurrences, setRecurrences] = useState<Recurrence[]>([]);
+  const [interns, setInterns] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [assigningTemplate, setAssigningTemplate] = useState<TaskTemplate | null>(null);
+  const [schedulingTemplate, setSchedulingTemplate] = useState<TaskTemplate | null>(null);
+  const { toast } = useToast();
+
+  const [newTemplate, setNewTemplate] = useState({
+    title: '',
+    description: '',
+    priority: 'medium',
+    checklist: '',
+    due_offset_days: '',
+    requires_deliverable: false,
+  });
+
+  // Target is either "intern:<id>" or "department:<name>"
+  const [assignTarget, setAssignTarget] = useState('');
+
+  const [newRecurrence, setNewRecurrence] = useState({
+    frequency: 'weekly',
+    interval: '1',
+    target: '',
+    start_date: new Date().toISOString().split('T')[0],
+    end_date: '',
+  });
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchInterns();
+  }, [userId]);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data: templateData, error: templateError } = await supabase
+        .from('task_templates')
+        .select('*')
+        .eq('created_by', userId)
+        .order('created_at', { ascending: false });
+
+      if (templateError) throw templateError;
+
+      const { data: recurrenceData, error: recurrenceError } = await supabase
+        .from('task_recurrences')
+        .select('*')
+        .eq('created_by', userId)
+        .order('next_run_date');
+
+      if (recurrenceError) throw recurrenceError;
+
+      setTemplates(templateData || []);
+      setRecurrences(recurrenceData || []);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch task templates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchInterns = async () => {
+    try {
+      const data = await fetchAssignedInterns(userId);
+      setInterns(data);
+    } catch (error) {
+      console.error('Error fetching interns:', error);
+    }
+  };
+
+  const departments = [...new Set(interns.map(intern => intern.department).filter(Boolean))] as string[];
+
+  const resolveAssignees = (target: string) => {
+    const [kind, value] = target.split(/:(.*)/s);
+    if (kind === 'intern') return [value];
+    return interns.filter(intern => intern.department === value).map(intern => intern.id);
+  };
+
+  const createTemplate = async () => {
+    if (!newTemplate.title) {
+      toast({
+        title: "Validation Error",
+        description: "Template title is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('task_templates').insert({
+        created_by: userId,
+        title: newTemplate.title,
+        description: newTemplate.description || null,
+        priority: newTemplate.priority,
+        checklist: newTemplate.checklist.split('\n').map(line => line.trim()).filter(Boolean),
+        due_offset_days: newTemplate.due_offset_days ? parseInt(newTemplate.due_offset_days) : null,
+        requires_deliverable: newTemplate.requires_deliverable,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Template created successfully",
+      });
+
+      setNewTemplate({
+        title: '',
+        description: '',
+        priority: 'medium',
+        checklist: '',
+        due_offset_days: '',
+        requires_deliverable: false,
+      });
+      setIsTemplateDialogOpen(false);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error creating template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    try {
+      const { error } = await supabase.from('task_templates').delete().eq('id', templateId);
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Creates a task from the template for every selected intern right away
+  const assignTemplate = async () => {
+    if (!assigningTemplate || !assignTarget) return;
+
+    const assigneeIds = resolveAssignees(assignTarget);
+    if (assigneeIds.length === 0) {
+      toast({
+        title: "No interns",
+        description: "No interns match this selection",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const today = new Date();
+      const dueDate = assigningTemplate.due_offset_days !== null
+        ? new Date(today.getTime() + assigningTemplate.due_offset_days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+        : null;
+      const topPosition = await fetchTopPosition('todo');
+
+      const { data: createdTasks, error } = await supabase
+        .from('tasks')
+        .insert(assigneeIds.map((assigneeId, index) => ({
+          title: assigningTemplate.title,
+          description: assigningTemplate.description,
+          priority: assigningTemplate.priority,
+          due_date: dueDate,
+          created_by: userId,
+          assigned_to: assigneeId,
+          status: 'todo',
+          requires_deliverable: assigningTemplate.requires_deliverable,
+          position: topPosition - index,
+        })))
+        .select('id');
+
+      if (error) throw error;
+
+      if (assigningTemplate.checklist.length > 0) {
+        const { error: checklistError } = await supabase
+          .from('task_checklist_items')
+          .insert((createdTasks || []).flatMap(task =>
+            assigningTemplate.checklist.map((title, index) => ({
+              task_id: task.id,
+              title,
+              position: index,
+            }))
+          ));
+
+        if (checklistError) throw checklistError;
+      }
+
+      await notifyMultipleUsers(assigneeIds, notificationTemplates.taskAssigned(assigningTemplate.title), {
+        taskTitle: assigningTemplate.title,
+      });
+
+      toast({
+        title: "Success",
+        description: `Assigned to ${assigneeIds.length} intern${assigneeIds.length === 1 ? '' : 's'}`,
+      });
+
+      setAssigningTemplate(null);
+      setAssignTarget('');
+    } catch (error) {
+      console.error('Error assigning template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createRecurrence = async () => {
+    if (!schedulingTemplate || !newRecurrence.target) {
+      toast({
+        title: "Validation Error",
+        description: "Please choose who the task repeats for",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const [kind, value] = newRecurrence.target.split(/:(.*)/s);
+
+    try {
+      const { error } = await supabase.from('task_recurrences').insert({
+        template_id: schedulingTemplate.id,
+        created_by: userId,
+        frequency: newRecurrence.frequency,
+        interval: parseInt(newRecurrence.interval) || 1,
+        assignee_id: kind === 'intern' ? value : null,
+        department: kind === 'department' ? value : null,
+        start_date: newRecurrence.start_date,
+        end_date: newRecurrence.end_date || null,
+        next_run_date: newRecurrence.start_date,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Recurring task scheduled",
+      });
+
+      setNewRecurrence({
+        frequency: 'weekly',
+        interval: '1',
+        target: '',
+        start_date: new Date().toISOString().split('T')[0],
+        end_date: '',
+      });
+      setSchedulingTemplate(null);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error scheduling recurrence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to schedule recurring task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleRecurrence = async (recurrence: Recurrence, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('task_recurrences')
+        .update({ is_active: isActive })
+        .eq('id', recurrence.id);
+
+      if (error) throw error;
+      setRecurrences(recurrences.map(r => r.id === recurrence.id ? { ...r, is_active: isActive } : r));
+    } catch (error) {
+      console.error('Error updating recurrence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update recurring task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRecurrence = async (recurrenceId: string) => {
+    try {
+      const { error } = await supabase.from('task_recurrences').delete().eq('id', recurrenceId);
+      if (error) throw error;
+      setRecurrences(recurrences.filter(r => r.id !== recurrenceId));
+    } catch (error) {
+      console.error('Error deleting recurrence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete recurring task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeRecurrence = (recurrence: Recurrence) => {
+    const unit = frequencyUnits[recurrence.frequency];
+    const every = recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`;
+    const target = recurrence.department
+      ? `${recurrence.department} department`
+      : interns.find(intern => intern.id === recurrence.assignee_id)?.full_name || 'Unknown intern';
+    return `${every} for ${target}`;
+  };
+
+  const renderTargetSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose an intern or department" />
+      </SelectTrigger>
+      <SelectContent>
+        {departments.map((department) => (
+          <SelectItem key={`department:${department}`} value={`department:${department}`}>
+            Department: {department}
+          </SelectItem>
+        ))}
+        {interns.map((intern) => (
+          <SelectItem key={intern.id} value={`intern:${intern.id}`}>
+            {intern.full_name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (loading) {
+    return <div className="text-center py-8">Loading templates...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Templates & Recurring Tasks</h2>
+          <p className="text-muted-foreground">Reuse common tasks and schedule them to repeat</p>
+        </div>
+
+        <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Create Task Template</DialogTitle>
+              <DialogDescription>Tasks created from this template copy these details</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="template_title">Title</Label>
+                <Input
+                  id="template_title"
+                  value={newTemplate.title}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, title: e.target.value })}
+                  placeholder="e.g., Weekly progress report"
+                />
+              </div>
+              <div>
+                <Label htmlFor="template_description">Description</Label>
+                <Textarea
+                  id="template_description"
+                  value={newTemplate.description}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, description: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="template_priority">Priority</Label>
+                  <Select value={newTemplate.priority} onValueChange={(value) => setNewTemplate({ ...newTemplate, priority: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="template_due_offset">Due After (days)</Label>
+                  <Input
+                    id="template_due_offset"
+                    type="number"
+                    min="0"
+                    value={newTemplate.due_offset_days}
+                    onChange={(e) => setNewTemplate({ ...newTemplate, due_offset_days: e.target.value })}
+                    placeholder="No due date"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="template_checklist">Checklist</Label>
+                <Textarea
+                  id="template_checklist"
+                  value={newTemplate.checklist}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, checklist: e.target.value })}
+                  placeholder="One item per line (optional)"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={newTemplate.requires_deliverable}
+                  onCheckedChange={(checked) => setNewTemplate({ ...newTemplate, requires_deliverable: checked === true })}
+                />
+                Require a deliverable file before submission
+              </label>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={createTemplate}>
+                  Create Template
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {templates.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {templates.map((template) => {
+            const templateRecurrences = recurrences.filter(r => r.template_id === template.id);
+
+            return (
+              <Card key={template.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">{template.title}</CardTitle>
+                      {template.description && <CardDescription>{template.description}</CardDescription>}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => deleteTemplate(template.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    <Badge variant="secondary" className="capitalize">{template.priority}</Badge>
+                    {template.due_offset_days !== null && (
+                      <Badge variant="outline">Due after {template.due_offset_days} days</Badge>
+                    )}
+                    {template.checklist.length > 0 && (
+                      <Badge variant="outline">
+                        <ListChecks className="h-3 w-3 mr-1" />
+                        {template.checklist.length} items
+                      </Badge>
+                    )}
+                    {template.requires_deliverable && <Badge variant="outline">Deliverable</Badge>}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {templateRecurrences.length > 0 && (
+                    <div className="space-y-2">
+                      {templateRecurrences.map((recurrence) => (
+                        <div key={recurrence.id} className="flex items-center justify-between p-3 rounded-lg bg-gray-50">
+                          <div>
+                            <p className="text-sm font-medium flex items-center gap-2">
+                              <Repeat className="h-4 w-4 text-primary" />
+                              {describeRecurrence(recurrence)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {recurrence.is_active
+                                ? `Next on ${format(new Date(recurrence.next_run_date), 'MMM dd, yyyy')}`
+                                : 'Paused'}
+                              {recurrence.end_date && ` • Until ${format(new Date(recurrence.end_date), 'MMM dd, yyyy')}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={recurrence.is_active}
+                              onCheckedChange={(checked) => toggleRecurrence(recurrence, checked)}
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => deleteRecurrence(recurrence.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => setAssigningTemplate(template)}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Assign Now
+                    </Button>
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => setSchedulingTemplate(template)}>
+                      <Repeat className="h-4 w-4 mr-1" />
+                      Repeat
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ListChecks className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg font-medium">No templates yet</p>
+            <p className="text-muted-foreground">Create a template for tasks you assign regularly</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!assigningTemplate} onOpenChange={(open) => !open && setAssigningTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign {assigningTemplate?.title}</DialogTitle>
+            <DialogDescription>Create this task now for an intern or everyone in a department</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Assign To</Label>
+              {renderTargetSelect(assignTarget, setAssignTarget)}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setAssigningTemplate(null)}>
+                Cancel
+              </Button>
+              <Button onClick={assignTemplate} disabled={!assignTarget}>
+                Assign
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!schedulingTemplate} onOpenChange={(open) => !open && setSchedulingTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Repeat {schedulingTemplate?.title}</DialogTitle>
+            <DialogDescription>A new task is created automatically on each scheduled day</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="recurrence_frequency">Repeats</Label>
+                <Select value={newRecurrence.frequency} onValueChange={(value) => setNewRecurrence({ ...newRecurrence, frequency: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="recurrence_interval">Every</Label>
+                <Input
+                  id="recurrence_interval"
+                  type="number"
+                  min="1"
+                  value={newRecurrence.interval}
+                  onChange={(e) => setNewRecurrence({ ...newRecurrence, interval: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>For</Label>
+              {renderTargetSelect(newRecurrence.target, (value) => setNewRecurrence({ ...newRecurrence, target: value }))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="recurrence_start">First Run</Label>
+                <Input
+                  id="recurrence_start"
+                  type="date"
+                  value={newRecurrence.start_date}
+                  onChange={(e) => setNewRecurrence({ ...newRecurrence, start_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="recurrence_end">Ends</Label>
+                <Input
+                  id="recurrence_end"
+                  type="date"
+                  value={newRecurrence.end_date}
+                  onChange={(e) => setNewRecurrence({ ...newRecurrence, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSchedulingTemplate(null)}>
+                Cancel
+              </Button>
+              <Button onClick={createRecurrence}>
+                Schedule
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaskTemplates;
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Play, Square, Plus, Trash2, Timer } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchTaskTimeLogs,
+  fetchRunningTimer,
+  startTimer,
+  stopTimer,
+  addManualTimeLog,
+  deleteTimeLog,
+  getLogMinutes,
+  formatDuration,
+  TimeLog,
+} from '@/services/timeLogService';
+
+interface TaskTimeTrackerProps {
+  taskId: string;
+  estimatedHours?: number | null;
+  userId: string;
+  canLogTime: boolean;
+  getName: (profileId: string | null) => string;
+  onTimeLogsChange?: () => void;
+}
+
+const TaskTimeTracker: React.FC<TaskTimeTrackerProps> = ({
+  taskId,
+  estimatedHours,
+  userId,
+  canLogTime,
+  getName,
+  onTimeLogsChange,
+}) => {
+  const [logs, setLogs] = useState<TimeLog[]>([]);
+  const [runningTimer, setRunningTimer] = useState<TimeLog | null>(null);
+  const [, setTick] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [manualEntry, setManualEntry] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    start: '',
+    end: '',
+    note: '',
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLogs();
+  }, [taskId]);
+
+  // Re-render every few seconds so the running timer stays current
+  useEffect(() => {
+    if (!runningTimer) return;
+    const interval = setInterval(() => setTick(tick => tick + 1), 5000);
+    return () => clearInterval(interval);
+  }, [runningTimer?.id]);
+
+  const fetchLogs = async () => {
+    const [taskLogs, timer] = await Promise.all([
+      fetchTaskTimeLogs([taskId]),
+      canLogTime ? fetchRunningTimer(userId) : Promise.resolve(null),
+    ]);
+    setLogs(taskLogs);
+    setRunningTimer(timer);
+  };
+
+  // Surface the database's reason, e.g. time outside the attendance window
+  const handleTimeLogError = (error: unknown, fallback: string) => {
+    console.error('Error logging time:', error);
+    toast({
+      title: "Error",
+      description: (error as { message?: string })?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleStart = async () => {
+    setSaving(true);
+    try {
+      await startTimer(taskId, userId);
+      await fetchLogs();
+      onTimeLogsChange?.();
+    } catch (error) {
+      handleTimeLogError(error, "Failed to start the timer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!runningTimer) return;
+
+    setSaving(true);
+    try {
+      await stopTimer(runningTimer.id);
+      await fetchLogs();
+      onTimeLogsChange?.();
+    } catch (error) {
+      handleTimeLogError(error, "Failed to stop the timer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleManualEntry = async () => {
+    if (!manualEntry.start || !manualEntry.end) return;
+
+    const startedAt = new Date(`${manualEntry.date}T${manualEntry.start}`);
+    const endedAt = new Date(`${manualEntry.date}T${manualEntry.end}`);
+
+    if (endedAt <= startedAt) {
+      toast({
+        title: "Error",
+        description: "End time must be after start time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addManualTimeLog(taskId, userId, startedAt, endedAt, manualEntry.note.trim());
+      setManualEntry({ ...manualEntry, start: '', end: '', note: '' });
+      await fetchLogs();
+      onTimeLogsChange?.();
+      toast({
+        title: "Success",
+        description: "Time logged",
+      });
+    } catch (error) {
+      handleTimeLogError(error, "Failed to log time");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (logId: string) => {
+    try {
+      await deleteTimeLog(logId);
+      await fetchLogs();
+      onTimeLogsChange?.();
+    } catch (error) {
+      handleTimeLogError(error, "Failed to delete the time log");
+    }
+  };
+
+  const totalMinutes = logs.reduce((sum, log) => sum + getLogMinutes(log), 0);
+  const estimatedMinutes = estimatedHours ? estimatedHours * 60 : 0;
+  const timerOnThisTask = runningTimer?.task_id === taskId;
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 rounded-lg border bg-gray-50 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1 font-medium">
+            <Timer className="h-4 w-4" />
+            {formatDuration(totalMinutes)} logged
+          </span>
+          <span className="text-muted-foreground">
+            {estimatedHours ? `Estimate: ${estimatedHours}h` : 'No estimate'}
+          </span>
+        </div>
+        {estimatedMinutes > 0 && (
+          <>
+            <Progress value={Math.min(100, (totalMinutes / estimatedMinutes) * 100)} className="h-2" />
+            {totalMinutes > estimatedMinutes && (
+              <p className="text-xs text-red-600">
+                Over estimate by {formatDuration(totalMinutes - estimatedMinutes)}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {canLogTime && (
+        <div className="space-y-3">
+          {timerOnThisTask ? (
+            <Button className="w-full" variant="destructive" onClick={handleStop} disabled={saving}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop Timer ({formatDuration(getLogMinutes(runningTimer!))})
+            </Button>
+          ) : (
+            <Button className="w-full" onClick={handleStart} disabled={saving || !!runningTimer}>
+              <Play className="h-4 w-4 mr-2" />
+              Start Timer
+            </Button>
+          )}
+          {runningTimer && !timerOnThisTask && (
+            <p className="text-xs text-muted-foreground">A timer is already running on another task. Stop it first.</p>
+          )}
+
+          <div className="space-y-2 p-3 rounded-lg border">
+            <p className="text-sm font-medium">Log Time Manually</p>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="log-date" className="text-xs">Date</Label>
+                <Input
+                  id="log-date"
+                  type="date"
+                  value={manualEntry.date}
+                  max={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setManualEntry({ ...manualEntry, date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="log-start" className="text-xs">From</Label>
+                <Input
+                  id="log-start"
+                  type="time"
+                  value={manualEntry.start}
+                  onChange={(e) => setManualEntry({ ...manualEntry, start: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="log-end" className="text-xs">To</Label>
+                <Input
+                  id="log-end"
+                  type="time"
+                  value={manualEntry.end}
+                  onChange={(e) => setManualEntry({ ...manualEntry, end: e.target.value })}
+                />
+              </div>
+            </div>
+            <Input
+              value={manualEntry.note}
+              onChange={(e) => setManualEntry({ ...manualEntry, note: e.target.value })}
+              placeholder="What did you work on? (optional)"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleManualEntry}
+              disabled={saving || !manualEntry.start || !manualEntry.end}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Entry
+            </Button>
+            <p className="text-xs text-muted-foreground">Time must fall between your check-in and check-out for that day.</p>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {logs.map((log) => (
+          <div key={log.id} className="flex items-center justify-between gap-2 p-2 rounded border text-sm">
+            <div className="min-w-0">
+              <p>
+                {format(new Date(log.started_at), 'MMM dd, HH:mm')} – {log.ended_at ? format(new Date(log.ended_at), 'HH:mm') : 'now'}
+                <span className="font-medium ml-2">{formatDuration(getLogMinutes(log))}</span>
+                {log.is_manual && <Badge variant="outline" className="ml-2 text-[10px]">Manual</Badge>}
+                {!log.ended_at && <Badge className="ml-2 text-[10px]">Running</Badge>}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {getName(log.intern_id)}{log.note ? ` • ${log.note}` : ''}
+              </p>
+            </div>
+            {log.intern_id === userId && log.ended_at && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDelete(log.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {logs.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No time logged yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskTimeTracker;
@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GanttChartSquare } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchCohorts, fetchCohortInternIds } from '@/services/cohortService';
+import { fetchTaskDependencies, TaskDependency } from '@/services/taskDependencyService';
+
+interface Task {
+  id: string;
+  title: string;
+  status: string;
+  due_date: string | null;
+  assigned_to: string | null;
+  created_at: string;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface Cohort {
+  id: string;
+  name: string;
+}
+
+interface TaskTimelineProps {
+  userId: string;
+}
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+
+const statusBarColors: Record<string, string> = {
+  todo: 'bg-slate-400',
+  in_progress: 'bg-blue-500',
+  in_review: 'bg-amber-500',
+  done: 'bg-green-500',
+};
+
+const TaskTimeline: React.FC<TaskTimelineProps> = ({ userId }) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [interns, setInterns] = useState<Profile[]>([]);
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  // "all", "intern:<id>" or "cohort:<id>"
+  const [scope, setScope] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadFilters = async () => {
+      const [internData, cohortData] = await Promise.all([
+        fetchAssignedInterns(userId),
+        fetchCohorts(),
+      ]);
+      setInterns(internData);
+      setCohorts(cohortData);
+    };
+    loadFilters();
+  }, [userId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [userId, scope]);
+
+  const fetchTimeline = async () => {
+    try {
+      let query = supabase
+        .from('tasks')
+        .select('id, title, status, due_date, assigned_to, created_at')
+        .eq('created_by', userId)
+        .order('created_at', { ascending: true });
+
+      const [kind, value] = scope.split(':');
+      if (kind === 'intern') {
+        query = query.eq('assigned_to', value);
+      } else if (kind === 'cohort') {
+        query = query.in('assigned_to', await fetchCohortInternIds(value));
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setTasks(data || []);
+      setDependencies(await fetchTaskDependencies((data || []).map(task => task.id)));
+    } catch (error) {
+      console.error('Error fetching timeline:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the task timeline",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const today = startOfDay(new Date());
+
+  // Tasks without a due date are drawn as a single day
+  const getTaskStart = (task: Task) => startOfDay(new Date(task.created_at));
+  const getTaskEnd = (task: Task) => {
+    const start = getTaskStart(task);
+    if (!task.due_date) return start;
+    const due = startOfDay(new Date(task.due_date));
+    return due < start ? start : due;
+  };
+
+  const isOverdue = (task: Task) => {
+    return !!task.due_date && task.status !== 'done' && startOfDay(new Date(task.due_date)) < today;
+  };
+
+  const getInternName = (internId: string | null) => {
+    if (!internId) return 'Unassigned';
+    return interns.find(intern => intern.id === internId)?.full_name || 'Unknown';
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading timeline...</div>;
+  }
+
+  const rangeStart = tasks.length > 0
+    ? tasks.reduce((earliest, task) => getTaskStart(task) < earliest ? getTaskStart(task) : earliest, today)
+    : today;
+  const rangeEnd = addDays(
+    tasks.reduce((latest, task) => getTaskEnd(task) > latest ? getTaskEnd(task) : latest, today),
+    1
+  );
+  const totalDays = differenceInCalendarDays(rangeEnd, rangeStart) + 1;
+  const chartWidth = totalDays * DAY_WIDTH;
+  const chartHeight = tasks.length * ROW_HEIGHT;
+
+  const getBarLeft = (task: Task) => differenceInCalendarDays(getTaskStart(task), rangeStart) * DAY_WIDTH;
+  const getBarWidth = (task: Task) => (differenceInCalendarDays(getTaskEnd(task), getTaskStart(task)) + 1) * DAY_WIDTH;
+  const getRowCenter = (index: number) => index * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  const days = Array.from({ length: totalDays }, (_, index) => addDays(rangeStart, index));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Task Timeline</h2>
+          <p className="text-muted-foreground">Task schedules from creation to due date, with dependencies</p>
+        </div>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="All interns" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Interns</SelectItem>
+            {cohorts.map((cohort) => (
+              <SelectItem key={cohort.id} value={`cohort:${cohort.id}`}>
+                Cohort: {cohort.name}
+              </SelectItem>
+            ))}
+            {interns.map((intern) => (
+              <SelectItem key={intern.id} value={`intern:${intern.id}`}>
+                {intern.full_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <GanttChartSquare className="h-5 w-5 text-primary" />
+            {tasks.length} tasks
+          </CardTitle>
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {Object.entries(statusBarColors).map(([status, color]) => (
+              <span key={status} className="flex items-center gap-1 capitalize">
+                <span className={`h-3 w-3 rounded-sm ${color}`} />
+                {status.replace('_', ' ')}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm bg-red-500" />
+              Overdue
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {tasks.length > 0 ? (
+            <div className="flex border rounded-lg overflow-hidden">
+              {/* Task labels */}
+              <div className="w-56 shrink-0 border-r bg-gray-50">
+                <div className="h-10 border-b" />
+                {tasks.map((task) => (
+                  <div key={task.id} className="px-3 flex flex-col justify-center border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+                    <span className={`text-sm truncate ${isOverdue(task) ? 'text-red-600 font-medium' : ''}`}>{task.title}</span>
+                    <span className="text-[10px] text-muted-foreground truncate">{getInternName(task.assigned_to)}</span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Chart */}
+              <div className="overflow-x-auto flex-1">
+                <div style={{ width: chartWidth }}>
+                  <div className="flex h-10 border-b">
+                    {days.map((day) => (
+                      <div
+                        key={day.toISOString()}
+                        className={`shrink-0 text-center text-[10px] leading-tight pt-1 border-r ${differenceInCalendarDays(day, today) === 0 ? 'bg-primary/10 font-semibold' : ''}`}
+                        style={{ width: DAY_WIDTH }}
+                      >
+                        {(day.getDate() === 1 || day.getTime() === rangeStart.getTime()) && (
+                          <div className="text-muted-foreground">{format(day, 'MMM')}</div>
+                        )}
+                        <div>{format(day, 'd')}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="relative" style={{ height: chartHeight }}>
+                    {/* Today marker */}
+                    <div
+                      className="absolute top-0 bottom-0 w-px bg-primary/50"
+                      style={{ left: differenceInCalendarDays(today, rangeStart) * DAY_WIDTH + DAY_WIDTH / 2 }}
+                    />
+
+                    {tasks.map((task, index) => (
+                      <div
+                        key={task.id}
+                        title={`${task.title}${task.due_date ? ` • due ${format(new Date(task.due_date), 'MMM dd, yyyy')}` : ''}`}
+                        className={`absolute rounded ${isOverdue(task) ? 'bg-red-500 ring-2 ring-red-200' : statusBarColors[task.status] || 'bg-slate-400'}`}
+                        style={{
+                          left: getBarLeft(task) + 2,
+                          width: getBarWidth(task) - 4,
+                          top: getRowCenter(index) - BAR_HEIGHT / 2,
+                          height: BAR_HEIGHT,
+                        }}
+                      />
+                    ))}
+
+                    {/* Dependency arrows from the end of the blocking task to the start of the blocked one */}
+                    <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={chartHeight}>
+                      <defs>
+                        <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                          <path d="M0,0 L6,3 L0,6 z" className="fill-gray-500" />
+                        </marker>
+                      </defs>
+                      {dependencies.map((dependency) => {
+                        const fromIndex = tasks.findIndex(task => task.id === dependency.depends_on_task_id);
+                        const toIndex = tasks.findIndex(task => task.id === dependency.task_id);
+                        if (fromIndex === -1 || toIndex === -1) return null;
+
+                        const x1 = getBarLeft(tasks[fromIndex]) + getBarWidth(tasks[fromIndex]) - 2;
+                        const y1 = getRowCenter(fromIndex);
+                        const x2 = getBarLeft(tasks[toIndex]) + 2;
+                        const y2 = getRowCenter(toIndex);
+
+                        return (
+                          <path
+                            key={`${dependency.depends_on_task_id}-${dependency.task_id}`}
+                            d={`M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`}
+                            className="stroke-gray-500"
+                            fill="none"
+                            strokeWidth={1.5}
+                            markerEnd="url(#timeline-arrow)"
+                          />
+                        );
+                      })}
+                    </svg>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground py-8">No tasks to show</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TaskTimeline;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAssignedInterns } from '@/services/assignmentService';
+import { fetchInternTimeLogs, getLogMinutes, formatDuration, TimeLog } from '@/services/timeLogService';
+
+interface TaskInfo {
+  id: string;
+  title: string;
+  estimated_hours: number | null;
+}
+
+interface AttendanceRecord {
+  date: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+}
+
+interface Profile {
+  id: string;
+  full_name: string;
+}
+
+interface TimesheetProps {
+  userRole: 'supervisor' | 'intern';
+  userId: string;
+}
+
+const Timesheet: React.FC<TimesheetProps> = ({ userRole, userId }) => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [interns, setInterns] = useState<Profile[]>([]);
+  const [internId, setInternId] = useState(userRole === 'intern' ? userId : '');
+  const [logs, setLogs] = useState<TimeLog[]>([]);
+  const [tasks, setTasks] = useState<Record<string, TaskInfo>>({});
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (userRole === 'supervisor') {
+      fetchAssignedInterns(userId).then(setInterns);
+    }
+  }, [userRole, userId]);
+
+  useEffect(() => {
+    if (internId) {
+      fetchTimesheet();
+    }
+  }, [internId, weekStart]);
+
+  const fetchTimesheet = async () => {
+    setLoading(true);
+    try {
+      const weekEnd = addDays(weekStart, 7);
+      const weekLogs = await fetchInternTimeLogs(internId, weekStart, weekEnd);
+      setLogs(weekLogs);
+
+      const taskIds = [...new Set(weekLogs.map(log => log.task_id))];
+      if (taskIds.length > 0) {
+        const { data: taskData, error: taskError } = await supabase
+          .from('tasks')
+          .select('id, title, estimated_hours')
+          .in('id', taskIds);
+
+        if (taskError) throw taskError;
+        setTasks(Object.fromEntries((taskData || []).map(task => [task.id, task])));
+      } else {
+        setTasks({});
+      }
+
+      const { data: attendanceData, error: attendanceError } = await supabase
+        .from('attendance')
+        .select('date, check_in_time, check_out_time')
+        .eq('user_id', internId)
+        .gte('date', format(weekStart, 'yyyy-MM-dd'))
+        .lt('date', format(weekEnd, 'yyyy-MM-dd'));
+
+      if (attendanceError) throw attendanceError;
+      setAttendance(attendanceData || []);
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the timesheet",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const dayKeys = days.map(day => format(day, 'yyyy-MM-dd'));
+
+  const getLoggedMinutes = (dayKey: string, taskId?: string) => {
+    return logs
+      .filter(log => format(new Date(log.started_at), 'yyyy-MM-dd') === dayKey && (!taskId || log.task_id === taskId))
+      .reduce((sum, log) => sum + getLogMinutes(log), 0);
+  };
+
+  // Someone still checked in counts as on site until now
+  const getOnSiteMinutes = (dayKey: string) => {
+    const record = attendance.find(a => a.date === dayKey);
+    if (!record?.check_in_time) return 0;
+    const end = record.check_out_time ? new Date(record.check_out_time) : new Date();
+    return Math.max(0, (end.getTime() - new Date(record.check_in_time).getTime()) / 60000);
+  };
+
+  const taskIds = Object.keys(tasks);
+  const weekLogged = dayKeys.reduce((sum, dayKey) => sum + getLoggedMinutes(dayKey), 0);
+  const weekOnSite = dayKeys.reduce((sum, dayKey) => sum + getOnSiteMinutes(dayKey), 0);
+  const hasMismatch = dayKeys.some(dayKey => getLoggedMinutes(dayKey) > getOnSiteMinutes(dayKey));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Weekly Timesheet</CardTitle>
+            <CardDescription>
+              {format(weekStart, 'MMM dd')} – {format(addDays(weekStart, 6), 'MMM dd, yyyy')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {userRole === 'supervisor' && (
+              <Select value={internId} onValueChange={setInternId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select an intern" />
+                </SelectTrigger>
+                <SelectContent>
+                  {interns.map((intern) => (
+                    <SelectItem key={intern.id} value={intern.id}>
+                      {intern.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!internId ? (
+          <p className="text-center text-muted-foreground py-8">Select an intern to view their timesheet</p>
+        ) : loading ? (
+          <div className="text-center py-8">Loading timesheet...</div>
+        ) : (
+          <>
+            {hasMismatch && (
+              <div className="flex items-center gap-2 p-3 mb-4 rounded-md bg-red-50 text-red-700 text-sm">
+                <AlertTriangle className="h-4 w-4" />
+                Logged time exceeds time on site on some days
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  {days.map((day) => (
+                    <TableHead key={day.toISOString()} className="text-center">
+                      {format(day, 'EEE dd')}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taskIds.map((taskId) => {
+                  const taskTotal = dayKeys.reduce((sum, dayKey) => sum + getLoggedMinutes(dayKey, taskId), 0);
+                  return (
+                    <TableRow key={taskId}>
+                      <TableCell className="font-medium">
+                        {tasks[taskId].title}
+                        {tasks[taskId].estimated_hours && (
+                          <span className="block text-xs text-muted-foreground">Estimate: {tasks[taskId].estimated_hours}h</span>
+                        )}
+                      </TableCell>
+                      {dayKeys.map((dayKey) => {
+                        const minutes = getLoggedMinutes(dayKey, taskId);
+                        return (
+                          <TableCell key={dayKey} className="text-center">
+                            {minutes > 0 ? formatDuration(minutes) : '–'}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right font-medium">{formatDuration(taskTotal)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                {taskIds.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                      No time logged this week
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Logged</TableCell>
+                  {dayKeys.map((dayKey) => {
+                    const logged = getLoggedMinutes(dayKey);
+                    return (
+                      <TableCell
+                        key={dayKey}
+                        className={`text-center ${logged > getOnSiteMinutes(dayKey) ? 'text-red-600' : ''}`}
+                      >
+                        {logged > 0 ? formatDuration(logged) : '–'}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right">{formatDuration(weekLogged)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>On Site</TableCell>
+                  {dayKeys.map((dayKey) => {
+                    const onSite = getOnSiteMinutes(dayKey);
+                    return (
+                      <TableCell key={dayKey} className="text-center text-muted-foreground">
+                        {onSite > 0 ? formatDuration(onSite) : '–'}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right text-muted-foreground">{formatDuration(weekOnSite)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Timesheet;
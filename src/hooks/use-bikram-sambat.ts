@@ -0,0 +1,24 @@
+import * as React from "react"
+
+const STORAGE_KEY = "show-bikram-sambat"
+
+const listeners = new Set<() => void>()
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+const getSnapshot = () => localStorage.getItem(STORAGE_KEY) === "true"
+
+export function setShowBikramSambat(show: boolean) {
+  localStorage.setItem(STORAGE_KEY, String(show))
+  listeners.forEach((listener) => listener())
+}
+
+// Whether dates should also be shown in Bikram Sambat. Stored per browser so every
+// component that shows dates updates as soon as the preference is toggled.
+export function useBikramSambat() {
+  const showBikramSambat = React.useSyncExternalStore(subscribe, getSnapshot)
+  return { showBikramSambat, setShowBikramSambat }
+}
@@ -16,33 +16,57 @@ export type Database = {
     Tables: {
       attendance: {
         Row: {
+          auto_checked_out: boolean
+          check_in_accuracy: number | null
+          check_in_latitude: number | null
+          check_in_longitude: number | null
           check_in_time: string | null
+          check_out_accuracy: number | null
+          check_out_latitude: number | null
+          check_out_longitude: number | null
           check_out_time: string | null
           created_at: string
           date: string
           id: string
+          is_remote: boolean
           notes: string | null
           status: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          auto_checked_out?: boolean
+          check_in_accuracy?: number | null
+          check_in_latitude?: number | null
+          check_in_longitude?: number | null
           check_in_time?: string | null
+          check_out_accuracy?: number | null
+          check_out_latitude?: number | null
+          check_out_longitude?: number | null
           check_out_time?: string | null
           created_at?: string
           date?: string
           id?: string
+          is_remote?: boolean
           notes?: string | null
           status?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          auto_checked_out?: boolean
+          check_in_accuracy?: number | null
+          check_in_latitude?: number | null
+          check_in_longitude?: number | null
           check_in_time?: string | null
+          check_out_accuracy?: number | null
+          check_out_latitude?: number | null
+          check_out_longitude?: number | null
           check_out_time?: string | null
           created_at?: string
           date?: string
           id?: string
+          is_remote?: boolean
           notes?: string | null
           status?: string
           updated_at?: string
@@ -50,6 +74,174 @@ export type Database = {
         }
         Relationships: []
       }
+      attendance_audit: {
+        Row: {
+          attendance_id: string
+          changed_by: string | null
+          created_at: string
+          id: string
+          new_check_in_time: string | null
+          new_check_out_time: string | null
+          old_check_in_time: string | null
+          old_check_out_time: string | null
+          reason: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          attendance_id: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_check_in_time?: string | null
+          new_check_out_time?: string | null
+          old_check_in_time?: string | null
+          old_check_out_time?: string | null
+          reason: string
+          source: string
+          user_id: string
+        }
+        Update: {
+          attendance_id?: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_check_in_time?: string | null
+          new_check_out_time?: string | null
+          old_check_in_time?: string | null
+          old_check_out_time?: string | null
+          reason?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_audit_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_corrections: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          proposed_check_in_time: string | null
+          proposed_check_out_time: string | null
+          reason: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          proposed_check_in_time?: string | null
+          proposed_check_out_time?: string | null
+          reason: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          proposed_check_in_time?: string | null
+          proposed_check_out_time?: string | null
+          reason?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_corrections_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_job_runs: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          job: string
+          schedule_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          job: string
+          schedule_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          job?: string
+          schedule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_job_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "work_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_token_secret: {
+        Row: {
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
       certificates: {
         Row: {
           certificate_name: string
@@ -101,6 +293,130 @@ export type Database = {
           },
         ]
       }
+      cohort_enrollments: {
+        Row: {
+          cohort_id: string
+          enrolled_at: string
+          enrolled_by: string | null
+          id: string
+          intern_id: string
+        }
+        Insert: {
+          cohort_id: string
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          intern_id: string
+        }
+        Update: {
+          cohort_id?: string
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          intern_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_enrollments_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_enrollments_enrolled_by_fkey"
+            columns: ["enrolled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_enrollments_intern_id_fkey"
+            columns: ["intern_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohort_supervisors: {
+        Row: {
+          cohort_id: string
+          supervisor_id: string
+        }
+        Insert: {
+          cohort_id: string
+          supervisor_id: string
+        }
+        Update: {
+          cohort_id?: string
+          supervisor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_supervisors_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_supervisors_supervisor_id_fkey"
+            columns: ["supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohorts: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          name: string
+          program_id: string
+          start_date: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          name: string
+          program_id: string
+          start_date: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          name?: string
+          program_id?: string
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohorts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohorts_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
           attendees: string[] | null
@@ -203,150 +519,974 @@ export type Database = {
           },
         ]
       }
-      messages: {
+      holidays: {
         Row: {
-          content: string
           created_at: string
+          created_by: string | null
+          date: string
           id: string
-          read_at: string | null
-          receiver_id: string
-          sender_id: string
+          name: string
         }
         Insert: {
-          content: string
           created_at?: string
+          created_by?: string | null
+          date: string
           id?: string
-          read_at?: string | null
-          receiver_id: string
-          sender_id: string
+          name: string
         }
         Update: {
-          content?: string
           created_at?: string
+          created_by?: string | null
+          date?: string
           id?: string
-          read_at?: string | null
-          receiver_id?: string
-          sender_id?: string
+          name?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_receiver_id_fkey"
-            columns: ["receiver_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "messages_sender_id_fkey"
-            columns: ["sender_id"]
+            foreignKeyName: "holidays_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
-        Row: {
-          created_at: string
-          data: Json | null
-          id: string
-          message: string
-          read: boolean
-          title: string
-          type: string
-          user_id: string
-        }
-        Insert: {
-          created_at?: string
-          data?: Json | null
-          id?: string
-          message: string
-          read?: boolean
-          title: string
-          type?: string
-          user_id: string
-        }
-        Update: {
-          created_at?: string
-          data?: Json | null
-          id?: string
-          message?: string
-          read?: boolean
-          title?: string
-          type?: string
-          user_id?: string
-        }
-        Relationships: []
-      }
-      profiles: {
+      invitations: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
           created_at: string
           department: string | null
           email: string
-          full_name: string
+          expires_at: string
+          full_name: string | null
           id: string
+          invited_by: string
           phone: string | null
           role: string
-          updated_at: string
+          supervisor_id: string | null
+          token: string
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
           department?: string | null
           email: string
-          full_name: string
-          id: string
+          expires_at?: string
+          full_name?: string | null
+          id?: string
+          invited_by: string
           phone?: string | null
-          role: string
-          updated_at?: string
+          role?: string
+          supervisor_id?: string | null
+          token?: string
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
           department?: string | null
           email?: string
-          full_name?: string
+          expires_at?: string
+          full_name?: string | null
           id?: string
+          invited_by?: string
           phone?: string | null
           role?: string
-          updated_at?: string
+          supervisor_id?: string | null
+          token?: string
         }
-        Relationships: []
-      }
-      tasks: {
-        Row: {
-          assigned_to: string | null
-          completed_at: string | null
-          created_at: string
-          created_by: string
-          description: string | null
-          due_date: string | null
-          id: string
-          priority: string | null
-          status: string
+        Relationships: [
+          {
+            foreignKeyName: "invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_supervisor_id_fkey"
+            columns: ["supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_policies: {
+        Row: {
+          annual_days: number | null
+          leave_type: string
+          requires_attachment: boolean
+          updated_at: string
+        }
+        Insert: {
+          annual_days?: number | null
+          leave_type: string
+          requires_attachment?: boolean
+          updated_at?: string
+        }
+        Update: {
+          annual_days?: number | null
+          leave_type?: string
+          requires_attachment?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      leave_requests: {
+        Row: {
+          attachment_path: string | null
+          created_at: string
+          end_date: string
+          id: string
+          intern_id: string
+          leave_type: string
+          reason: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          created_at?: string
+          end_date: string
+          id?: string
+          intern_id: string
+          leave_type: string
+          reason: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attachment_path?: string | null
+          created_at?: string
+          end_date?: string
+          id?: string
+          intern_id?: string
+          leave_type?: string
+          reason?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_intern_id_fkey"
+            columns: ["intern_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_policies"
+            referencedColumns: ["leave_type"]
+          },
+          {
+            foreignKeyName: "leave_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          read_at: string | null
+          receiver_id: string
+          sender_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          receiver_id: string
+          sender_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          receiver_id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_receiver_id_fkey"
+            columns: ["receiver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          data: Json | null
+          id: string
+          message: string
+          read: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json | null
+          id?: string
+          message: string
+          read?: boolean
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json | null
+          id?: string
+          message?: string
+          read?: boolean
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      office_geofences: {
+        Row: {
+          created_at: string
+          department: string | null
+          enforcement: string
+          id: string
+          latitude: number
+          longitude: number
+          name: string
+          radius_meters: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          enforcement?: string
+          id?: string
+          latitude: number
+          longitude: number
+          name: string
+          radius_meters?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          enforcement?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          name?: string
+          radius_meters?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          department: string | null
+          email: string
+          full_name: string
+          id: string
+          phone: string | null
+          requested_role: string | null
+          role: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          email: string
+          full_name: string
+          id: string
+          phone?: string | null
+          requested_role?: string | null
+          role: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          phone?: string | null
+          requested_role?: string | null
+          role?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      programs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          department: string | null
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "programs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          board: string
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          board?: string
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          board?: string
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supervisor_assignments: {
+        Row: {
+          assigned_by: string | null
+          assignment_type: string
+          created_at: string
+          end_date: string | null
+          id: string
+          intern_id: string
+          start_date: string
+          supervisor_id: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          assignment_type?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          intern_id: string
+          start_date?: string
+          supervisor_id: string
+        }
+        Update: {
+          assigned_by?: string | null
+          assignment_type?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          intern_id?: string
+          start_date?: string
+          supervisor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supervisor_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supervisor_assignments_intern_id_fkey"
+            columns: ["intern_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supervisor_assignments_supervisor_id_fkey"
+            columns: ["supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          mime_type: string
+          size_bytes: number
+          task_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          mime_type: string
+          size_bytes: number
+          task_id: string
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number
+          task_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          id: string
+          is_completed: boolean
+          position: number
+          task_id: string
+          title: string
+        }
+        Insert: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id: string
+          title: string
+        }
+        Update: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          parent_comment_id: string | null
+          task_id: string
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_comment_id?: string | null
+          task_id: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_comment_id?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_parent_comment_id_fkey"
+            columns: ["parent_comment_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          depends_on_task_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_task_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_task_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_depends_on_task_id_fkey"
+            columns: ["depends_on_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_escalations: {
+        Row: {
+          created_at: string
+          due_date: string
+          id: string
+          recipient_id: string
+          task_id: string
+          tier: string
+        }
+        Insert: {
+          created_at?: string
+          due_date: string
+          id?: string
+          recipient_id: string
+          task_id: string
+          tier: string
+        }
+        Update: {
+          created_at?: string
+          due_date?: string
+          id?: string
+          recipient_id?: string
+          task_id?: string
+          tier?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_escalations_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_escalations_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_recurrences: {
+        Row: {
+          assignee_id: string | null
+          created_at: string
+          created_by: string
+          department: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          interval: number
+          is_active: boolean
+          last_run_at: string | null
+          next_run_date: string
+          start_date: string
+          template_id: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          created_at?: string
+          created_by: string
+          department?: string | null
+          end_date?: string | null
+          frequency: string
+          id?: string
+          interval?: number
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_date?: string
+          start_date?: string
+          template_id: string
+        }
+        Update: {
+          assignee_id?: string | null
+          created_at?: string
+          created_by?: string
+          department?: string | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval?: number
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_date?: string
+          start_date?: string
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_recurrences_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          task_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          task_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          task_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_status_history_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          checklist: string[]
+          created_at: string
+          created_by: string
+          description: string | null
+          due_offset_days: number | null
+          id: string
+          priority: string
+          requires_deliverable: boolean
+          title: string
+        }
+        Insert: {
+          checklist?: string[]
+          created_at?: string
+          created_by: string
+          description?: string | null
+          due_offset_days?: number | null
+          id?: string
+          priority?: string
+          requires_deliverable?: boolean
+          title: string
+        }
+        Update: {
+          checklist?: string[]
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          due_offset_days?: number | null
+          id?: string
+          priority?: string
+          requires_deliverable?: boolean
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_time_logs: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          intern_id: string
+          is_manual: boolean
+          note: string | null
+          started_at: string
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          intern_id: string
+          is_manual?: boolean
+          note?: string | null
+          started_at?: string
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          intern_id?: string
+          is_manual?: boolean
+          note?: string | null
+          started_at?: string
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_time_logs_intern_id_fkey"
+            columns: ["intern_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_time_logs_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          assigned_to: string | null
+          batch_id: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          due_date: string | null
+          estimated_hours: number | null
+          id: string
+          labels: string[]
+          parent_task_id: string | null
+          position: number
+          priority: string | null
+          requires_deliverable: boolean
+          review_note: string | null
+          status: string
           title: string
           updated_at: string
         }
         Insert: {
           assigned_to?: string | null
+          batch_id?: string | null
           completed_at?: string | null
           created_at?: string
           created_by: string
           description?: string | null
           due_date?: string | null
+          estimated_hours?: number | null
           id?: string
+          labels?: string[]
+          parent_task_id?: string | null
+          position?: number
           priority?: string | null
+          requires_deliverable?: boolean
+          review_note?: string | null
           status?: string
           title: string
           updated_at?: string
         }
         Update: {
           assigned_to?: string | null
+          batch_id?: string | null
           completed_at?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
           due_date?: string | null
+          estimated_hours?: number | null
           id?: string
+          labels?: string[]
+          parent_task_id?: string | null
+          position?: number
           priority?: string | null
+          requires_deliverable?: boolean
+          review_note?: string | null
           status?: string
           title?: string
           updated_at?: string
@@ -366,17 +1506,244 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_parent_task_id_fkey"
+            columns: ["parent_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      work_schedules: {
+        Row: {
+          auto_checkout_time: string | null
+          created_at: string
+          department: string | null
+          end_time: string
+          grace_minutes: number
+          half_day_hours: number
+          id: string
+          reminder_time: string | null
+          required_hours: number
+          start_time: string
+          timezone: string
+          updated_at: string
+          working_days: number[]
+        }
+        Insert: {
+          auto_checkout_time?: string | null
+          created_at?: string
+          department?: string | null
+          end_time?: string
+          grace_minutes?: number
+          half_day_hours?: number
+          id?: string
+          reminder_time?: string | null
+          required_hours?: number
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+          working_days?: number[]
+        }
+        Update: {
+          auto_checkout_time?: string | null
+          created_at?: string
+          department?: string | null
+          end_time?: string
+          grace_minutes?: number
+          half_day_hours?: number
+          id?: string
+          reminder_time?: string | null
+          required_hours?: number
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+          working_days?: number[]
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_attendance_change: {
+        Args: {
+          _check_in_time: string
+          _check_out_time: string
+          _date: string
+          _reason: string
+          _source: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      assign_supervisor: {
+        Args: {
+          _assignment_type?: string
+          _intern_id: string
+          _start_date?: string
+          _supervisor_id: string
+        }
+        Returns: string
+      }
+      can_claim_intern: {
+        Args: { _intern_id: string }
+        Returns: boolean
+      }
+      can_view_task: {
+        Args: { _task_id: string }
+        Returns: boolean
+      }
+      distance_meters: {
+        Args: { _lat1: number; _lat2: number; _lon1: number; _lon2: number }
+        Returns: number
+      }
+      edit_attendance: {
+        Args: {
+          _attendance_id: string
+          _check_in_time?: string
+          _check_out_time?: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      end_supervisor_assignment: {
+        Args: { _assignment_id: string }
+        Returns: undefined
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_invitation: {
+        Args: { invite_token: string }
+        Returns: {
+          department: string | null
+          email: string
+          expires_at: string
+          full_name: string | null
+          invited_by: string
+          phone: string | null
+          role: string
+          supervisor_id: string | null
+        }[]
+      }
+      get_kiosk_arrivals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          check_in_time: string
+          check_out_time: string
+          id: string
+          status: string
+          user_name: string
+        }[]
+      }
+      get_leave_balances: {
+        Args: { _intern_id: string }
+        Returns: {
+          annual_days: number
+          leave_type: string
+          pending_days: number
+          requires_attachment: boolean
+          used_days: number
+        }[]
+      }
+      get_work_schedule: {
+        Args: { _user_id: string }
+        Returns: {
+          created_at: string
+          department: string | null
+          end_time: string
+          grace_minutes: number
+          half_day_hours: number
+          id: string
+          required_hours: number
+          start_time: string
+          timezone: string
+          updated_at: string
+          working_days: number[]
+        }
+      }
+      is_cohort_supervisor: {
+        Args: { _cohort_id: string }
+        Returns: boolean
+      }
+      is_holiday: {
+        Args: { _date: string }
+        Returns: boolean
+      }
+      is_mentorship_pair: {
+        Args: { user_a: string; user_b: string }
+        Returns: boolean
+      }
+      is_primary_supervisor_of: {
+        Args: { intern: string }
+        Returns: boolean
+      }
+      is_supervisor_of: {
+        Args: { intern: string }
+        Returns: boolean
+      }
+      issue_attendance_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      leave_days: {
+        Args: { _end_date: string; _start_date: string; _user_id?: string }
+        Returns: number
+      }
+      mark_absences: {
+        Args: { _date?: string }
+        Returns: number
+      }
+      review_attendance_correction: {
+        Args: { _approve: boolean; _correction_id: string; _note?: string }
+        Returns: undefined
+      }
+      run_attendance_jobs: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      run_task_recurrences: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      scan_attendance_token: {
+        Args: {
+          _accuracy?: number
+          _latitude?: number
+          _longitude?: number
+          _token: string
+        }
+        Returns: string
+      }
+      sign_attendance_token: {
+        Args: { _issuer_id: string; _window: number }
+        Returns: string
+      }
+      spawn_tasks_from_template: {
+        Args: {
+          _assignee_ids: string[]
+          _created_by: string
+          _run_date: string
+          _template_id: string
+        }
+        Returns: number
+      }
+      validate_attendance_times: {
+        Args: {
+          _check_in_time: string
+          _check_out_time: string
+          _date: string
+        }
+        Returns: undefined
+      }
+      working_days_between: {
+        Args: { _end_date: string; _start_date: string; _user_id?: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,15 @@
+import NepaliDate from 'nepali-date-converter';
+import { parseISO } from 'date-fns';
+
+// Date-only strings (YYYY-MM-DD) are read as local calendar days, not UTC midnight
+const toDate = (value: Date | string) => typeof value === 'string' ? parseISO(value) : value;
+
+// e.g. "16 Aswin 2082 BS"
+export const formatBikramSambat = (value: Date | string) => {
+  return `${new NepaliDate(toDate(value)).format('D MMMM YYYY')} BS`;
+};
+
+// e.g. "Aswin 2082" for calendar headings
+export const formatBikramSambatMonth = (value: Date | string) => {
+  return new NepaliDate(toDate(value)).format('MMMM YYYY');
+};
@@ -0,0 +1,72 @@
+// Public holidays as published by the Government of Nepal, keyed by Bikram Sambat year (each runs
+// from mid-April to mid-April). Festivals follow the lunar calendar and move every year, so check a
+// new year's list against the official gazette when adding it. Admins can add or remove individual
+// days after importing.
+export interface BundledHoliday {
+  date: string;
+  name: string;
+}
+
+export const nepaliPublicHolidays: Record<number, BundledHoliday[]> = {
+  2082: [
+    { date: '2025-04-14', name: 'Nepali New Year' },
+    { date: '2025-05-01', name: 'Labour Day' },
+    { date: '2025-05-12', name: 'Buddha Jayanti' },
+    { date: '2025-05-29', name: 'Republic Day' },
+    { date: '2025-08-09', name: 'Janai Purnima' },
+    { date: '2025-08-16', name: 'Krishna Janmashtami' },
+    { date: '2025-08-26', name: 'Haritalika Teej' },
+    { date: '2025-09-19', name: 'Constitution Day' },
+    { date: '2025-09-22', name: 'Ghatasthapana' },
+    { date: '2025-09-29', name: 'Fulpati' },
+    { date: '2025-09-30', name: 'Maha Ashtami' },
+    { date: '2025-10-01', name: 'Maha Navami' },
+    { date: '2025-10-02', name: 'Vijaya Dashami' },
+    { date: '2025-10-03', name: 'Ekadashi' },
+    { date: '2025-10-21', name: 'Laxmi Puja' },
+    { date: '2025-10-22', name: 'Govardhan Puja' },
+    { date: '2025-10-23', name: 'Bhai Tika' },
+    { date: '2025-10-27', name: 'Chhath Parva' },
+    { date: '2025-12-25', name: 'Christmas Day' },
+    { date: '2025-12-30', name: 'Tamu Lhosar' },
+    { date: '2026-01-11', name: 'Prithvi Jayanti' },
+    { date: '2026-01-15', name: 'Maghe Sankranti' },
+    { date: '2026-02-15', name: 'Maha Shivaratri' },
+    { date: '2026-02-19', name: 'Prajatantra Diwas' },
+    { date: '2026-03-08', name: "International Women's Day" },
+  ],
+  2083: [
+    { date: '2026-04-14', name: 'Nepali New Year' },
+    { date: '2026-05-01', name: 'Buddha Jayanti and Labour Day' },
+    { date: '2026-05-29', name: 'Republic Day' },
+    { date: '2026-08-28', name: 'Janai Purnima' },
+    { date: '2026-09-04', name: 'Krishna Janmashtami' },
+    { date: '2026-09-14', name: 'Haritalika Teej' },
+    { date: '2026-09-19', name: 'Constitution Day' },
+    { date: '2026-10-11', name: 'Ghatasthapana' },
+    { date: '2026-10-17', name: 'Fulpati' },
+    { date: '2026-10-18', name: 'Maha Ashtami' },
+    { date: '2026-10-19', name: 'Maha Navami' },
+    { date: '2026-10-20', name: 'Vijaya Dashami' },
+    { date: '2026-10-21', name: 'Ekadashi' },
+    { date: '2026-11-08', name: 'Laxmi Puja' },
+    { date: '2026-11-10', name: 'Govardhan Puja' },
+    { date: '2026-11-11', name: 'Bhai Tika' },
+    { date: '2026-11-15', name: 'Chhath Parva' },
+    { date: '2026-12-25', name: 'Christmas Day' },
+    { date: '2026-12-30', name: 'Tamu Lhosar' },
+    { date: '2027-01-11', name: 'Prithvi Jayanti' },
+    { date: '2027-01-15', name: 'Maghe Sankranti' },
+    { date: '2027-02-19', name: 'Prajatantra Diwas' },
+    { date: '2027-03-06', name: 'Maha Shivaratri' },
+    { date: '2027-03-08', name: "International Women's Day" },
+  ],
+};
+
+// The earliest bundled year that still has holidays to come, if any
+export const getUpcomingHolidayYear = (today: string) => {
+  return Object.keys(nepaliPublicHolidays)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .find(year => nepaliPublicHolidays[year].some(holiday => holiday.date >= today));
+};
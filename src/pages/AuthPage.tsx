@@ -5,18 +5,28 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Building2, Loader2 } from 'lucide-react';
-import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Building2, Loader2, MailCheck } from 'lucide-react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface Invitation {
+  email: string;
+  role: string;
+  department: string | null;
+  expires_at: string;
+}
 
 const AuthPage = () => {
   const { signIn, signUp, user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [searchParams] = useSearchParams();
+  const { token } = useParams<{ token: string }>();
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'signin');
+  const [activeTab, setActiveTab] = useState(token ? 'signup' : searchParams.get('tab') || 'signin');
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [invitationLoading, setInvitationLoading] = useState(!!token);
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -35,9 +45,38 @@ const AuthPage = () => {
     password: '',
     fullName: '',
     phone: '',
-    role: '' as 'intern' | 'supervisor' | '',
   });
 
+  // Pre-fill the sign-up form from the invitation link
+  useEffect(() => {
+    if (token) {
+      fetchInvitation(token);
+    }
+  }, [token]);
+
+  const fetchInvitation = async (inviteToken: string) => {
+    try {
+      const { data, error } = await supabase.rpc('get_invitation', { invite_token: inviteToken });
+
+      if (error) throw error;
+
+      const invite = data?.[0] || null;
+      setInvitation(invite);
+      if (invite) {
+        setSignUpForm(form => ({
+          ...form,
+          email: invite.email,
+          fullName: invite.full_name || form.fullName,
+          phone: invite.phone || form.phone,
+        }));
+      }
+    } catch (error) {
+      console.error('Error fetching invitation:', error);
+    } finally {
+      setInvitationLoading(false);
+    }
+  };
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -71,10 +110,10 @@ const AuthPage = () => {
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!signUpForm.role) {
+    if (!token || !invitation) {
       toast({
-        title: "Role Required",
-        description: "Please select your role to continue.",
+        title: "Invitation Required",
+        description: "You need a valid invitation link to create an account.",
         variant: "destructive",
       });
       return;
@@ -87,7 +126,7 @@ const AuthPage = () => {
         signUpForm.email,
         signUpForm.password,
         signUpForm.fullName,
-        signUpForm.role,
+        token,
         signUpForm.phone
       );
       
@@ -175,67 +214,75 @@ const AuthPage = () => {
               </TabsContent>
 
               <TabsContent value="signup">
-                <form onSubmit={handleSignUp} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-name">Full Name</Label>
-                    <Input
-                      id="signup-name"
-                      type="text"
-                      placeholder="Your Full Name"
-                      value={signUpForm.fullName}
-                      onChange={(e) => setSignUpForm({ ...signUpForm, fullName: e.target.value })}
-                      required
-                    />
+                {invitationLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="your.email@ntc.com.np"
-                      value={signUpForm.email}
-                      onChange={(e) => setSignUpForm({ ...signUpForm, email: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
-                    <Input
-                      id="signup-password"
-                      type="password"
-                      placeholder="Create a strong password"
-                      value={signUpForm.password}
-                      onChange={(e) => setSignUpForm({ ...signUpForm, password: e.target.value })}
-                      required
-                    />
+                ) : !invitation ? (
+                  <div className="text-center py-6 space-y-2">
+                    <MailCheck className="h-10 w-10 text-muted-foreground mx-auto" />
+                    <p className="font-medium">
+                      {token ? 'This invitation is invalid or has expired' : 'Sign up is by invitation only'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Ask your supervisor or administrator for an invitation link.
+                    </p>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-phone">Phone Number</Label>
-                    <Input
-                      id="signup-phone"
-                      type="tel"
-                      placeholder="+977 9876543210"
-                      value={signUpForm.phone || ''}
-                      onChange={(e) => setSignUpForm({ ...signUpForm, phone: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-role">Role</Label>
-                    <Select value={signUpForm.role} onValueChange={(value: 'intern' | 'supervisor') => setSignUpForm({ ...signUpForm, role: value })}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select your role" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="intern">Intern</SelectItem>
-                        <SelectItem value="supervisor">Supervisor</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <Button type="submit" className="w-full" disabled={loading}>
-                    {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Create Account
-                  </Button>
-                </form>
+                ) : (
+                  <form onSubmit={handleSignUp} className="space-y-4">
+                    <div className="rounded-lg bg-primary/5 p-3 text-sm">
+                      You have been invited to join as <span className="font-semibold capitalize">{invitation.role}</span>
+                      {invitation.department && <> in <span className="font-semibold">{invitation.department}</span></>}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-name">Full Name</Label>
+                      <Input
+                        id="signup-name"
+                        type="text"
+                        placeholder="Your Full Name"
+                        value={signUpForm.fullName}
+                        onChange={(e) => setSignUpForm({ ...signUpForm, fullName: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-email">Email</Label>
+                      <Input
+                        id="signup-email"
+                        type="email"
+                        placeholder="your.email@ntc.com.np"
+                        value={signUpForm.email}
+                        readOnly
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-password">Password</Label>
+                      <Input
+                        id="signup-password"
+                        type="password"
+                        placeholder="Create a strong password"
+                        value={signUpForm.password}
+                        onChange={(e) => setSignUpForm({ ...signUpForm, password: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-phone">Phone Number</Label>
+                      <Input
+                        id="signup-phone"
+                        type="tel"
+                        placeholder="+977 9876543210"
+                        value={signUpForm.phone || ''}
+                        onChange={(e) => setSignUpForm({ ...signUpForm, phone: e.target.value })}
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Account
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
             </Tabs>
           </CardContent>
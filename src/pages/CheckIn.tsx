@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/components/auth/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { scanAttendanceToken, scanResultMessages } from '@/services/attendanceTokenService';
+import { getCurrentPosition } from '@/services/geofenceService';
+
+// Opened by scanning the QR code from the kiosk or a supervisor's screen
+const CheckIn = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // A second scan would check the intern straight back out, so only ever submit once
+  const scanned = useRef(false);
+
+  useEffect(() => {
+    if (!authLoading && user && token && !scanned.current) {
+      scanned.current = true;
+      scan(token);
+    }
+  }, [user, authLoading, token]);
+
+  const scan = async (scannedToken: string) => {
+    try {
+      const position = await getCurrentPosition();
+      const result = await scanAttendanceToken(scannedToken, position);
+      setMessage(scanResultMessages[result]);
+    } catch (error) {
+      console.error('Error scanning check-in code:', error);
+      setError((error as { message?: string })?.message || 'Failed to check in. Please try again.');
+    }
+  };
+
+  const renderContent = () => {
+    if (authLoading || (user && !message && !error)) {
+      return <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />;
+    }
+
+    if (!user) {
+      return (
+        <div className="space-y-4">
+          <p className="text-muted-foreground">Sign in on this phone, then scan the code again.</p>
+          <Button asChild>
+            <Link to="/auth">Sign In</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {error ? (
+          <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+        ) : (
+          <CheckCircle className="h-12 w-12 text-emerald-500 mx-auto" />
+        )}
+        <p className="text-lg font-medium">{error || message}</p>
+        {!error && <p className="text-sm text-muted-foreground">{format(new Date(), 'EEEE, MMMM dd, hh:mm a')}</p>}
+        <Button variant="outline" asChild>
+          <Link to="/dashboard">Go to Dashboard</Link>
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-green-50 p-4">
+      <Card className="w-full max-w-sm text-center">
+        <CardHeader>
+          <CardTitle>Attendance</CardTitle>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CheckIn;
@@ -4,6 +4,7 @@ import { Navigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import SupervisorDashboard from '@/components/dashboard/SupervisorDashboard';
 import InternDashboard from '@/components/dashboard/InternDashboard';
+import AdminDashboard from '@/components/dashboard/AdminDashboard';
 import { Loader2 } from 'lucide-react';
 
 interface Profile {
@@ -13,6 +14,7 @@ interface Profile {
   email: string;
   department?: string;
   phone?: string;
+  status?: string;
 }
 
 const Dashboard = () => {
@@ -71,7 +73,36 @@ const Dashboard = () => {
     );
   }
 
-  if (profile.role === 'supervisor') {
+  if (profile.status === 'pending') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold mb-2">Awaiting Approval</h2>
+          <p className="text-muted-foreground">Your supervisor account is waiting for an administrator to approve it.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (profile.status === 'deactivated') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold mb-2">Account Deactivated</h2>
+          <p className="text-muted-foreground">Please contact your administrator to restore access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Kiosk accounts only ever run the check-in screen
+  if (profile.role === 'kiosk') {
+    return <Navigate to="/kiosk" replace />;
+  }
+
+  if (profile.role === 'admin') {
+    return <AdminDashboard profile={profile} />;
+  } else if (profile.role === 'supervisor') {
     return <SupervisorDashboard profile={profile} />;
   } else if (profile.role === 'intern') {
     return <InternDashboard profile={profile} />;
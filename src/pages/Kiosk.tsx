@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/components/auth/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Building2, Loader2, LogOut } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { attendanceStatusLabels, attendanceStatusClasses, isAttendanceStatus } from '@/services/workScheduleService';
+import { fetchKioskArrivals, KioskArrival } from '@/services/attendanceTokenService';
+import CheckInQrCode from '@/components/attendance/CheckInQrCode';
+
+// How often the arrivals list is refreshed; the kiosk account cannot subscribe to attendance
+const ARRIVALS_REFRESH_MS = 15 * 1000;
+
+// Full-screen check-in station for a reception tablet. It runs signed in as a dedicated kiosk
+// account, which can show the check-in code and today's arrivals but nothing else.
+const Kiosk = () => {
+  const { user, loading: authLoading, signOut } = useAuth();
+  const [role, setRole] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [arrivals, setArrivals] = useState<KioskArrival[]>([]);
+  const [now, setNow] = useState(new Date());
+  const isKiosk = role === 'kiosk';
+
+  useEffect(() => {
+    if (!authLoading && user) {
+      fetchRole();
+    } else if (!authLoading && !user) {
+      setLoading(false);
+    }
+  }, [user, authLoading]);
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(clock);
+  }, []);
+
+  useEffect(() => {
+    if (!user || !isKiosk) return;
+
+    fetchArrivals();
+    const refresh = setInterval(fetchArrivals, ARRIVALS_REFRESH_MS);
+    return () => clearInterval(refresh);
+  }, [user, role]);
+
+  const fetchRole = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user!.id)
+        .single();
+
+      if (error) throw error;
+      setRole(data.role);
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchArrivals = async () => {
+    setArrivals(await fetchKioskArrivals());
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isKiosk) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold mb-2">Kiosk Unavailable</h2>
+          <p className="text-muted-foreground">Sign in with a kiosk account to run the check-in kiosk. An admin can invite one.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const present = arrivals.filter(arrival => !arrival.check_out_time).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 p-6 lg:p-10">
+      <header className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 rounded-xl bg-primary flex items-center justify-center">
+            <Building2 className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Attendance Check-in</h1>
+            <p className="text-muted-foreground">{format(now, 'EEEE, MMMM dd, yyyy')}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-4xl font-bold tabular-nums text-gray-900">{format(now, 'hh:mm:ss a')}</span>
+          <Button variant="ghost" size="sm" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign out
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card className="border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-center text-xl">Scan with your phone camera to check in or out</CardTitle>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <div className="w-80">
+              <CheckInQrCode size={320} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 shadow-lg">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-xl">Arrived Today ({arrivals.length})</CardTitle>
+            <Badge variant="outline">{present} in the office</Badge>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {arrivals.map((arrival) => (
+                <div key={arrival.id} className="flex items-center justify-between p-3 rounded-lg bg-white/70 border animate-fade-in">
+                  <div className="flex items-center gap-3">
+                    <div className="w-9 h-9 rounded-full bg-primary/10 text-primary flex items-center justify-center font-semibold">
+                      {arrival.user_name.charAt(0).toUpperCase()}
+                    </div>
+                    <div>
+                      <p className="font-medium">{arrival.user_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        In {format(new Date(arrival.check_in_time), 'hh:mm a')}
+                        {arrival.check_out_time && ` · Out ${format(new Date(arrival.check_out_time), 'hh:mm a')}`}
+                      </p>
+                    </div>
+                  </div>
+                  {isAttendanceStatus(arrival.status) && (
+                    <Badge className={attendanceStatusClasses[arrival.status]}>
+                      {attendanceStatusLabels[arrival.status]}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+              {arrivals.length === 0 && (
+                <p className="text-center py-8 text-muted-foreground">No one has checked in yet today</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Kiosk;
@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Assignments are active from start_date until end_date (inclusive); an open end_date means ongoing
+const today = () => new Date().toISOString().split('T')[0];
+
+// Ids of the interns currently mentored by a supervisor (primary or secondary)
+export const fetchAssignedInternIds = async (supervisorId: string) => {
+  const { data, error } = await supabase
+    .from('supervisor_assignments')
+    .select('intern_id')
+    .eq('supervisor_id', supervisorId)
+    .lte('start_date', today())
+    .or(`end_date.is.null,end_date.gte.${today()}`);
+
+  if (error) {
+    console.error('Error fetching assigned interns:', error);
+    return [];
+  }
+
+  return [...new Set((data || []).map(assignment => assignment.intern_id))];
+};
+
+// Ids of the supervisors currently mentoring an intern
+export const fetchInternSupervisorIds = async (internId: string) => {
+  const { data, error } = await supabase
+    .from('supervisor_assignments')
+    .select('supervisor_id')
+    .eq('intern_id', internId)
+    .lte('start_date', today())
+    .or(`end_date.is.null,end_date.gte.${today()}`);
+
+  if (error) {
+    console.error('Error fetching intern supervisors:', error);
+    return [];
+  }
+
+  return [...new Set((data || []).map(assignment => assignment.supervisor_id))];
+};
+
+// Profiles of the interns currently mentored by a supervisor
+export const fetchAssignedInterns = async (supervisorId: string) => {
+  const internIds = await fetchAssignedInternIds(supervisorId);
+  if (internIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('id', internIds)
+    .eq('role', 'intern')
+    .order('full_name');
+
+  if (error) {
+    console.error('Error fetching interns:', error);
+    return [];
+  }
+
+  return data || [];
+};
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const BUCKET = 'task-attachments';
+
+// Keep in sync with the task-attachments bucket limits
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'application/x-zip-compressed',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+// Returns an error message, or null if the file can be uploaded
+export const validateAttachment = (file: File) => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than 10 MB`;
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Uploads a file under the task's folder and records it in task_attachments
+export const uploadTaskAttachment = async (taskId: string, file: File, userId: string) => {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const filePath = `${taskId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(filePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from('task_attachments').insert({
+    task_id: taskId,
+    uploaded_by: userId,
+    file_path: filePath,
+    file_name: file.name,
+    mime_type: file.type,
+    size_bytes: file.size,
+  });
+
+  if (error) {
+    // Don't leave an orphaned object behind
+    await supabase.storage.from(BUCKET).remove([filePath]);
+    throw error;
+  }
+};
+
+export const deleteTaskAttachment = async (attachmentId: string, filePath: string) => {
+  const { error } = await supabase.from('task_attachments').delete().eq('id', attachmentId);
+  if (error) throw error;
+
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove([filePath]);
+  if (storageError) {
+    console.error('Error removing attachment file:', storageError);
+  }
+};
+
+// Short-lived URL for previewing or downloading a private file
+export const getAttachmentUrl = async (filePath: string) => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(filePath, 60 * 60);
+
+  if (error) {
+    console.error('Error creating attachment URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+};
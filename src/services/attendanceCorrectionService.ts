@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AttendanceCorrection {
+  id: string;
+  user_id: string;
+  date: string;
+  proposed_check_in_time: string | null;
+  proposed_check_out_time: string | null;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface AttendanceAuditEntry {
+  id: string;
+  attendance_id: string;
+  changed_by: string | null;
+  editor_name?: string;
+  source: 'manual' | 'correction';
+  reason: string;
+  old_check_in_time: string | null;
+  new_check_in_time: string | null;
+  old_check_out_time: string | null;
+  new_check_out_time: string | null;
+  created_at: string;
+}
+
+export const fetchCorrections = async (userIds: string[]) => {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('attendance_corrections')
+    .select('*')
+    .in('user_id', userIds)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error('Error fetching correction requests:', error);
+    return [];
+  }
+
+  return (data || []) as AttendanceCorrection[];
+};
+
+export const fetchAttendanceAudit = async (attendanceId: string) => {
+  const { data, error } = await supabase
+    .from('attendance_audit')
+    .select('*')
+    .eq('attendance_id', attendanceId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching attendance audit:', error);
+    return [];
+  }
+
+  const editorIds = [...new Set((data || []).map(entry => entry.changed_by).filter((id): id is string => !!id))];
+  const { data: editors } = editorIds.length > 0
+    ? await supabase.from('profiles').select('id, full_name').in('id', editorIds)
+    : { data: [] };
+
+  return (data || []).map(entry => ({
+    ...entry,
+    editor_name: editors?.find(editor => editor.id === entry.changed_by)?.full_name || 'System',
+  })) as AttendanceAuditEntry[];
+};
+
+export const submitCorrection = async (correction: {
+  userId: string;
+  date: string;
+  checkIn: string | null;
+  checkOut: string | null;
+  reason: string;
+}) => {
+  const { data, error } = await supabase
+    .from('attendance_corrections')
+    .insert({
+      user_id: correction.userId,
+      date: correction.date,
+      proposed_check_in_time: correction.checkIn,
+      proposed_check_out_time: correction.checkOut,
+      reason: correction.reason,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as AttendanceCorrection;
+};
+
+export const reviewCorrection = async (correctionId: string, approve: boolean, note?: string) => {
+  const { error } = await supabase.rpc('review_attendance_correction', {
+    _correction_id: correctionId,
+    _approve: approve,
+    _note: note,
+  });
+
+  if (error) throw error;
+};
+
+// Supervisor edit; the reason is stored in the attendance audit trail
+export const editAttendance = async (attendanceId: string, reason: string, checkIn?: string, checkOut?: string) => {
+  const { error } = await supabase.rpc('edit_attendance', {
+    _attendance_id: attendanceId,
+    _reason: reason,
+    _check_in_time: checkIn,
+    _check_out_time: checkOut,
+  });
+
+  if (error) throw error;
+};
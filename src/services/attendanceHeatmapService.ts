@@ -0,0 +1,133 @@
+import { supabase } from '@/integrations/supabase/client';
+import { eachDayOfInterval, format, isSameMonth, startOfWeek, subWeeks } from 'date-fns';
+import { fetchHolidays } from '@/services/holidayService';
+import { defaultWorkingDays, fetchWorkSchedules, getScheduleForDepartment } from '@/services/workScheduleService';
+import { getReportCell, getWorkedMinutes, ReportCell } from '@/services/attendanceReportService';
+
+export type HeatmapMode = 'status' | 'hours';
+
+export interface HeatmapRecord {
+  id: string;
+  date: string;
+  status: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  is_remote: boolean;
+  auto_checked_out: boolean;
+  notes: string | null;
+}
+
+export interface HeatmapDay {
+  date: Date;
+  key: string;
+  cell: ReportCell;
+  record: HeatmapRecord | null;
+  holidayName: string | null;
+  workedMinutes: number;
+  beforeJoining: boolean;
+}
+
+export interface AttendanceHistory {
+  days: HeatmapDay[];
+  requiredHours: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export interface MonthlyAttendance {
+  attended: number;
+  workingDays: number;
+  percentage: number | null;
+}
+
+export const HEATMAP_WEEKS = 52;
+
+const attendedCells: ReportCell[] = ['present', 'late', 'early_leave', 'half_day'];
+
+export const isAttendedDay = (day: HeatmapDay) => attendedCells.includes(day.cell);
+
+// Days nobody was expected in. As in mark_absences(), a missed working day only counts once it
+// has an absent row, so today and days before the intern joined stay neutral.
+const isNeutralDay = (day: HeatmapDay) =>
+  day.beforeJoining || !day.record || day.cell === 'off' || day.cell === 'holiday' || day.cell === 'on_leave';
+
+// Streaks run over attended working days; days off, holidays, approved leave and unrecorded
+// days neither extend nor break them
+const getStreaks = (days: HeatmapDay[]) => {
+  let current = 0;
+  let longest = 0;
+
+  days.forEach((day) => {
+    if (isAttendedDay(day)) {
+      current += 1;
+      longest = Math.max(longest, current);
+    } else if (!isNeutralDay(day)) {
+      current = 0;
+    }
+  });
+
+  return { currentStreak: current, longestStreak: longest };
+};
+
+export const getMonthlyAttendance = (days: HeatmapDay[], month: Date): MonthlyAttendance => {
+  const monthDays = days.filter(day => isSameMonth(day.date, month) && !isNeutralDay(day));
+  const attended = monthDays.filter(isAttendedDay).length;
+
+  return {
+    attended,
+    workingDays: monthDays.length,
+    percentage: monthDays.length > 0 ? Math.round((attended / monthDays.length) * 100) : null,
+  };
+};
+
+export const getHeatmapStart = () => startOfWeek(subWeeks(new Date(), HEATMAP_WEEKS - 1));
+
+export const fetchAttendanceHistory = async (internId: string, department?: string | null): Promise<AttendanceHistory> => {
+  const today = new Date();
+  const start = getHeatmapStart();
+  const from = format(start, 'yyyy-MM-dd');
+  const to = format(today, 'yyyy-MM-dd');
+
+  const [attendanceResult, profileResult, holidays, schedules] = await Promise.all([
+    supabase
+      .from('attendance')
+      .select('id, date, status, check_in_time, check_out_time, is_remote, auto_checked_out, notes')
+      .eq('user_id', internId)
+      .gte('date', from)
+      .lte('date', to),
+    supabase.from('profiles').select('created_at').eq('id', internId).single(),
+    fetchHolidays(from, to),
+    fetchWorkSchedules(),
+  ]);
+
+  if (attendanceResult.error) throw attendanceResult.error;
+
+  const records = (attendanceResult.data || []) as HeatmapRecord[];
+  // Same UTC date the profile's created_at falls on, as mark_absences() compares
+  const joinedKey = profileResult.data?.created_at.slice(0, 10) || from;
+  const holidayNames = new Map(holidays.map(holiday => [holiday.date, holiday.name]));
+  const holidayDates = new Set(holidayNames.keys());
+  const schedule = getScheduleForDepartment(schedules, department);
+  const workingDays = schedule?.working_days || defaultWorkingDays;
+
+  const days = eachDayOfInterval({ start, end: today }).map((date): HeatmapDay => {
+    const key = format(date, 'yyyy-MM-dd');
+    const record = records.find(r => r.date === key) || null;
+
+    return {
+      date,
+      key,
+      cell: getReportCell(date, record || undefined, holidayDates, workingDays),
+      record,
+      holidayName: holidayNames.get(key) || null,
+      workedMinutes: record ? getWorkedMinutes(record) : 0,
+      beforeJoining: key < joinedKey,
+    };
+  });
+
+  return {
+    days,
+    requiredHours: schedule?.required_hours || 8,
+    ...getStreaks(days),
+  };
+};
@@ -0,0 +1,238 @@
+import { supabase } from '@/integrations/supabase/client';
+import { eachDayOfInterval, endOfMonth, format, getISODay, startOfMonth } from 'date-fns';
+import jsPDF from 'jspdf';
+import { escapeCsv, downloadCsv } from '@/services/importService';
+import { fetchHolidays } from '@/services/holidayService';
+import {
+  fetchWorkSchedules,
+  getWorkingDays,
+  isAttendanceStatus,
+  attendanceStatusLabels,
+  AttendanceStatus,
+} from '@/services/workScheduleService';
+
+// Off days and holidays sit alongside the attendance statuses in the grid
+export type ReportCell = AttendanceStatus | 'holiday' | 'off' | null;
+
+export interface ReportIntern {
+  id: string;
+  full_name: string;
+  department?: string | null;
+}
+
+export interface InternMonthReport {
+  intern: ReportIntern;
+  cells: ReportCell[];
+  totals: Record<AttendanceStatus | 'holiday', number>;
+  workedMinutes: number;
+}
+
+export interface MonthlyReport {
+  month: Date;
+  days: Date[];
+  rows: InternMonthReport[];
+}
+
+interface ReportAttendance {
+  user_id: string;
+  date: string;
+  status: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+}
+
+export const reportCellCodes: Record<Exclude<ReportCell, null>, string> = {
+  present: 'P',
+  late: 'L',
+  early_leave: 'E',
+  half_day: 'HD',
+  absent: 'A',
+  on_leave: 'LV',
+  holiday: 'H',
+  off: '-',
+};
+
+export const reportTotalColumns: { key: keyof InternMonthReport['totals']; label: string }[] = [
+  { key: 'present', label: 'Present' },
+  { key: 'late', label: 'Late' },
+  { key: 'early_leave', label: 'Left Early' },
+  { key: 'half_day', label: 'Half Day' },
+  { key: 'absent', label: 'Absent' },
+  { key: 'on_leave', label: 'Leave' },
+  { key: 'holiday', label: 'Holiday' },
+];
+
+// Someone who came in on a holiday or day off still shows as attending
+export const getReportCell = (
+  day: Date,
+  record: Pick<ReportAttendance, 'status' | 'check_in_time'> | undefined,
+  holidayDates: Set<string>,
+  workingDays: number[],
+): ReportCell => {
+  const key = format(day, 'yyyy-MM-dd');
+  if (record && isAttendanceStatus(record.status) && (record.check_in_time || !holidayDates.has(key))) {
+    return record.status;
+  }
+  if (holidayDates.has(key)) return 'holiday';
+  if (!workingDays.includes(getISODay(day))) return 'off';
+  return null;
+};
+
+export const getWorkedMinutes = (record: Pick<ReportAttendance, 'check_in_time' | 'check_out_time'>) => {
+  if (!record.check_in_time || !record.check_out_time) return 0;
+  return Math.max(0, (new Date(record.check_out_time).getTime() - new Date(record.check_in_time).getTime()) / 60000);
+};
+
+export const formatReportHours = (minutes: number) => (minutes / 60).toFixed(1);
+
+// A request returns at most 1000 rows, which a month of attendance for about 35 interns exceeds
+const ATTENDANCE_PAGE_SIZE = 1000;
+
+const fetchReportAttendance = async (internIds: string[], from: string, to: string) => {
+  const records: ReportAttendance[] = [];
+  if (internIds.length === 0) return records;
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('user_id, date, status, check_in_time, check_out_time')
+      .in('user_id', internIds)
+      .gte('date', from)
+      .lte('date', to)
+      .order('user_id')
+      .order('date')
+      .range(page * ATTENDANCE_PAGE_SIZE, (page + 1) * ATTENDANCE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    records.push(...((data || []) as ReportAttendance[]));
+    if (!data || data.length < ATTENDANCE_PAGE_SIZE) return records;
+  }
+};
+
+export const fetchMonthlyReport = async (interns: ReportIntern[], month: Date): Promise<MonthlyReport> => {
+  const start = startOfMonth(month);
+  const end = endOfMonth(month);
+  const from = format(start, 'yyyy-MM-dd');
+  const to = format(end, 'yyyy-MM-dd');
+  const days = eachDayOfInterval({ start, end });
+
+  const [records, holidays, schedules] = await Promise.all([
+    fetchReportAttendance(interns.map(intern => intern.id), from, to),
+    fetchHolidays(from, to),
+    fetchWorkSchedules(),
+  ]);
+
+  const holidayDates = new Set(holidays.map(holiday => holiday.date));
+
+  const rows = interns.map((intern) => {
+    const workingDays = getWorkingDays(schedules, intern.department);
+    const totals: InternMonthReport['totals'] = {
+      present: 0, late: 0, early_leave: 0, half_day: 0, absent: 0, on_leave: 0, holiday: 0,
+    };
+    let workedMinutes = 0;
+
+    const cells = days.map((day): ReportCell => {
+      const key = format(day, 'yyyy-MM-dd');
+      const record = records.find(r => r.user_id === intern.id && r.date === key);
+
+      if (record) workedMinutes += getWorkedMinutes(record);
+
+      const cell = getReportCell(day, record, holidayDates, workingDays);
+      if (cell && cell !== 'off') totals[cell] += 1;
+      return cell;
+    });
+
+    return { intern, cells, totals, workedMinutes };
+  });
+
+  return { month: start, days, rows };
+};
+
+export const buildReportCsv = (report: MonthlyReport) => {
+  const lines = [
+    ['Intern', 'Department', ...report.days.map(day => format(day, 'd')), ...reportTotalColumns.map(column => column.label), 'Hours'],
+    ...report.rows.map(row => [
+      row.intern.full_name,
+      row.intern.department || '',
+      ...row.cells.map(cell => cell ? reportCellCodes[cell] : ''),
+      ...reportTotalColumns.map(column => String(row.totals[column.key])),
+      formatReportHours(row.workedMinutes),
+    ]),
+  ];
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\n');
+};
+
+export const exportReportCsv = (report: MonthlyReport) => {
+  downloadCsv(`attendance-${format(report.month, 'yyyy-MM')}.csv`, buildReportCsv(report));
+};
+
+// A4 landscape with one row per intern; the header row repeats on every page
+export const exportReportPdf = (report: MonthlyReport) => {
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 10;
+  const rowHeight = 7;
+  const nameWidth = 42;
+  const totalWidth = 11;
+  const totalsColumns = [...reportTotalColumns.map(column => reportCellCodes[column.key]), 'Hours'];
+  const dayWidth = (pageWidth - margin * 2 - nameWidth - totalWidth * totalsColumns.length) / report.days.length;
+  const title = `Monthly Attendance - ${format(report.month, 'MMMM yyyy')}`;
+
+  const drawHeader = () => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.text(title, margin, margin + 4);
+    pdf.setFontSize(7);
+
+    const y = margin + 10;
+    pdf.setFillColor(241, 245, 249);
+    pdf.rect(margin, y, pageWidth - margin * 2, rowHeight, 'F');
+    pdf.text('Intern', margin + 1, y + 4.5);
+    report.days.forEach((day, index) => {
+      pdf.text(format(day, 'd'), margin + nameWidth + dayWidth * (index + 0.5), y + 4.5, { align: 'center' });
+    });
+    totalsColumns.forEach((label, index) => {
+      const x = margin + nameWidth + dayWidth * report.days.length + totalWidth * (index + 0.5);
+      pdf.text(label, x, y + 4.5, { align: 'center' });
+    });
+    pdf.setFont('helvetica', 'normal');
+    return y + rowHeight;
+  };
+
+  let y = drawHeader();
+  report.rows.forEach((row) => {
+    if (y + rowHeight > pageHeight - margin - 8) {
+      pdf.addPage();
+      y = drawHeader();
+    }
+
+    pdf.text(pdf.splitTextToSize(row.intern.full_name, nameWidth - 2)[0], margin + 1, y + 4.5);
+    row.cells.forEach((cell, index) => {
+      if (!cell) return;
+      pdf.text(reportCellCodes[cell], margin + nameWidth + dayWidth * (index + 0.5), y + 4.5, { align: 'center' });
+    });
+    [...reportTotalColumns.map(column => String(row.totals[column.key])), formatReportHours(row.workedMinutes)].forEach((value, index) => {
+      const x = margin + nameWidth + dayWidth * report.days.length + totalWidth * (index + 0.5);
+      pdf.text(value, x, y + 4.5, { align: 'center' });
+    });
+
+    pdf.setDrawColor(226, 232, 240);
+    pdf.line(margin, y + rowHeight, pageWidth - margin, y + rowHeight);
+    y += rowHeight;
+  });
+
+  const legend = Object.entries(reportCellCodes)
+    .map(([cell, code]) => `${code} ${isAttendanceStatus(cell) ? attendanceStatusLabels[cell] : cell === 'holiday' ? 'Holiday' : 'Day off'}`)
+    .join('   ');
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFontSize(7);
+    pdf.text(legend, margin, pageHeight - margin);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - margin, { align: 'right' });
+  }
+
+  pdf.save(`attendance-${format(report.month, 'yyyy-MM')}.pdf`);
+};
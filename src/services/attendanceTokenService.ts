@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DevicePosition } from '@/services/geofenceService';
+
+export type ScanResult = 'checked_in' | 'checked_out' | 'complete';
+
+// Matches the 30 second windows used by issue_attendance_token()
+export const TOKEN_WINDOW_MS = 30 * 1000;
+
+export const scanResultMessages: Record<ScanResult, string> = {
+  checked_in: 'Checked in successfully!',
+  checked_out: 'Checked out successfully!',
+  complete: "You have already checked in and out today",
+};
+
+export const issueAttendanceToken = async () => {
+  const { data, error } = await supabase.rpc('issue_attendance_token');
+  if (error) throw error;
+  return data;
+};
+
+export const scanAttendanceToken = async (token: string, position?: DevicePosition | null) => {
+  const { data, error } = await supabase.rpc('scan_attendance_token', {
+    _token: token,
+    _latitude: position?.latitude,
+    _longitude: position?.longitude,
+    _accuracy: position?.accuracy,
+  });
+  if (error) throw error;
+  return data as ScanResult;
+};
+
+// Scanned with the phone's camera app, which opens the check-in page directly
+export const getCheckInUrl = (token: string) => {
+  return `${window.location.origin}/check-in/${encodeURIComponent(token)}`;
+};
+
+export interface KioskArrival {
+  id: string;
+  user_name: string;
+  check_in_time: string;
+  check_out_time: string | null;
+  status: string;
+}
+
+// Today's check-ins for the kiosk screen, which cannot read attendance directly
+export const fetchKioskArrivals = async () => {
+  const { data, error } = await supabase.rpc('get_kiosk_arrivals');
+
+  if (error) {
+    console.error('Error fetching arrivals:', error);
+    return [];
+  }
+
+  return (data || []) as KioskArrival[];
+};
@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// All cohorts with their program, newest first
+export const fetchCohorts = async () => {
+  const { data, error } = await supabase
+    .from('cohorts')
+    .select('*, programs(name, department)')
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching cohorts:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Ids of the interns enrolled in a cohort
+export const fetchCohortInternIds = async (cohortId: string) => {
+  const { data, error } = await supabase
+    .from('cohort_enrollments')
+    .select('intern_id')
+    .eq('cohort_id', cohortId);
+
+  if (error) {
+    console.error('Error fetching cohort interns:', error);
+    return [];
+  }
+
+  return (data || []).map(enrollment => enrollment.intern_id);
+};
+
+// The cohort an intern is enrolled in, if any
+export const fetchInternCohort = async (internId: string) => {
+  const { data, error } = await supabase
+    .from('cohort_enrollments')
+    .select('cohorts(*)')
+    .eq('intern_id', internId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching intern cohort:', error);
+    return null;
+  }
+
+  return data?.cohorts || null;
+};
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type GeofenceEnforcement = 'flag' | 'reject';
+
+export interface OfficeGeofence {
+  id: string;
+  name: string;
+  department: string | null;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  enforcement: GeofenceEnforcement;
+}
+
+export interface DevicePosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+export const enforcementLabels: Record<GeofenceEnforcement, string> = {
+  flag: 'Mark as remote',
+  reject: 'Reject check-in',
+};
+
+// Resolves to null when the browser has no geolocation or the user declines,
+// so checking in still works where no fence requires a position
+export const getCurrentPosition = () => {
+  return new Promise<DevicePosition | null>((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy }),
+      (error) => {
+        console.error('Error getting location:', error);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+};
+
+export const getMapUrl = (latitude: number, longitude: number) => {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+};
+
+export const fetchGeofences = async () => {
+  const { data, error } = await supabase
+    .from('office_geofences')
+    .select('id, name, department, latitude, longitude, radius_meters, enforcement')
+    .order('department', { nullsFirst: true })
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching geofences:', error);
+    return [];
+  }
+
+  return (data || []) as OfficeGeofence[];
+};
+
+export const saveGeofence = async (geofence: Omit<OfficeGeofence, 'id'> & { id?: string }) => {
+  const { id, ...values } = geofence;
+  const { error } = id
+    ? await supabase.from('office_geofences').update(values).eq('id', id)
+    : await supabase.from('office_geofences').insert(values);
+
+  if (error) throw error;
+};
+
+export const deleteGeofence = async (geofenceId: string) => {
+  const { error } = await supabase.from('office_geofences').delete().eq('id', geofenceId);
+  if (error) throw error;
+};
@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+import { nepaliPublicHolidays } from '@/lib/nepaliHolidays';
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+export const fetchHolidays = async (from?: string, to?: string) => {
+  let query = supabase.from('holidays').select('id, date, name').order('date');
+  if (from) query = query.gte('date', from);
+  if (to) query = query.lte('date', to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching holidays:', error);
+    return [];
+  }
+
+  return (data || []) as Holiday[];
+};
+
+export const addHoliday = async (holiday: Omit<Holiday, 'id'>, createdBy: string) => {
+  const { error } = await supabase
+    .from('holidays')
+    .insert({ ...holiday, created_by: createdBy });
+
+  if (error) throw error;
+};
+
+export const deleteHoliday = async (holidayId: string) => {
+  const { error } = await supabase.from('holidays').delete().eq('id', holidayId);
+  if (error) throw error;
+};
+
+// Days already on the calendar are left as they are, so re-importing is safe
+export const importBundledHolidays = async (year: number, createdBy: string) => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .upsert(
+      (nepaliPublicHolidays[year] || []).map(holiday => ({ ...holiday, created_by: createdBy })),
+      { onConflict: 'date', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+};
@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import readXlsxFile from 'read-excel-file';
+import { format, isValid, parse } from 'date-fns';
+
+export type ImportTarget = 'tasks' | 'interns';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Header spellings matched automatically when mapping columns
+  aliases: string[];
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+  // Spreadsheet row number of each entry in rows, counting from 1 and including blank rows
+  rowNumbers: number[];
+}
+
+export interface ValidatedRow<T> {
+  rowNumber: number;
+  raw: Record<string, string>;
+  data?: T;
+  errors: string[];
+}
+
+export const importFields: Record<ImportTarget, ImportField[]> = {
+  tasks: [
+    { key: 'title', label: 'Title', required: true, aliases: ['title', 'task', 'task title', 'name'] },
+    { key: 'description', label: 'Description', aliases: ['description', 'details', 'notes'] },
+    { key: 'priority', label: 'Priority', aliases: ['priority'] },
+    { key: 'due_date', label: 'Due Date', aliases: ['due date', 'due', 'deadline'] },
+    { key: 'assignee_email', label: 'Assignee Email', aliases: ['assignee', 'assignee email', 'assigned to', 'email', 'intern email'] },
+    { key: 'estimated_hours', label: 'Estimated Hours', aliases: ['estimated hours', 'estimate', 'hours'] },
+    { key: 'labels', label: 'Labels', aliases: ['labels', 'tags'] },
+  ],
+  interns: [
+    { key: 'full_name', label: 'Full Name', required: true, aliases: ['full name', 'name', 'intern name'] },
+    { key: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e-mail'] },
+    { key: 'department', label: 'Department', aliases: ['department', 'dept'] },
+    { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile'] },
+  ],
+};
+
+const optionalText = z
+  .string()
+  .trim()
+  .transform(value => value || undefined);
+
+// Accepts ISO dates as well as the day-first and month-first formats spreadsheets tend to produce
+const dateFormats = ['yyyy-MM-dd', 'dd-MM-yyyy', 'MMM d, yyyy'];
+
+const parseDate = (value: string, dateFormat: string) => {
+  const parsed = parse(value, dateFormat, new Date());
+  return isValid(parsed) ? parsed : null;
+};
+
+// Slash dates can be read either way round, so one that is valid both ways is rejected
+// rather than guessed
+const optionalDate = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    if (!value) return undefined;
+
+    const candidates = value.includes('/')
+      ? [parseDate(value, 'd/M/yyyy'), parseDate(value, 'M/d/yyyy')].filter((date): date is Date => !!date)
+      : dateFormats.map(dateFormat => parseDate(value, dateFormat)).filter((date): date is Date => !!date).slice(0, 1);
+
+    if (candidates.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a valid date` });
+      return z.NEVER;
+    }
+    if (candidates.some(date => date.getFullYear() < 1000)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" needs a four-digit year` });
+      return z.NEVER;
+    }
+    if (candidates.length > 1 && candidates[0].getTime() !== candidates[1].getTime()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `"${value}" could be day-first or month-first; use yyyy-MM-dd`,
+      });
+      return z.NEVER;
+    }
+
+    return format(candidates[0], 'yyyy-MM-dd');
+  });
+
+export const taskRowSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be 200 characters or fewer'),
+  description: optionalText,
+  priority: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform(value => value || 'medium')
+    .pipe(z.enum(['low', 'medium', 'high'], { errorMap: () => ({ message: 'Priority must be low, medium or high' }) })),
+  due_date: optionalDate,
+  assignee_email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.union([z.literal(''), z.string().email('Assignee email is not valid')]))
+    .transform(value => value || undefined),
+  estimated_hours: z
+    .string()
+    .trim()
+    .transform(value => value === '' ? undefined : Number(value))
+    .pipe(z.number({ invalid_type_error: 'Estimated hours must be a number' }).positive('Estimated hours must be positive').optional()),
+  labels: z
+    .string()
+    .transform(value => [...new Set(value.split(/[,;]/).map(label => label.trim().toLowerCase()).filter(Boolean))]),
+});
+
+export const internRowSchema = z.object({
+  full_name: z.string().trim().min(1, 'Full name is required'),
+  email: z.string().trim().toLowerCase().email('Email is not valid'),
+  department: optionalText,
+  phone: z
+    .string()
+    .trim()
+    .pipe(z.union([z.literal(''), z.string().regex(/^\+?[\d\s-]{7,15}$/, 'Phone number is not valid')]))
+    .transform(value => value || undefined),
+});
+
+export type TaskImportRow = z.infer<typeof taskRowSchema>;
+export type InternImportRow = z.infer<typeof internRowSchema>;
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const cellToString = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  return String(value).trim();
+};
+
+export const parseSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const rawRows: unknown[][] = isExcel
+    ? await readXlsxFile(file)
+    : parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+
+  const rows = rawRows
+    .map((row, index) => ({ cells: row.map(cellToString), rowNumber: index + 1 }))
+    .filter(row => row.cells.some(cell => cell !== ''));
+
+  const [header, ...dataRows] = rows;
+  return {
+    headers: header?.cells || [],
+    rows: dataRows.map(row => row.cells),
+    rowNumbers: dataRows.map(row => row.rowNumber),
+  };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+// Field key -> column index, guessed from the header names
+export const guessColumnMapping = (target: ImportTarget, headers: string[]) => {
+  const mapping: Record<string, number> = {};
+  importFields[target].forEach(field => {
+    const index = headers.findIndex(header => field.aliases.includes(normalizeHeader(header)));
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+export const validateRows = <T>(
+  target: ImportTarget,
+  sheet: ParsedSheet,
+  mapping: Record<string, number>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): ValidatedRow<T>[] => {
+  return sheet.rows.map((row, index) => {
+    const raw = Object.fromEntries(
+      importFields[target].map(field => [field.key, mapping[field.key] !== undefined ? row[mapping[field.key]] || '' : ''])
+    );
+    const result = schema.safeParse(raw);
+
+    return {
+      rowNumber: sheet.rowNumbers[index],
+      raw,
+      data: result.success ? result.data : undefined,
+      errors: result.success ? [] : result.error.issues.map(issue => issue.message),
+    };
+  });
+};
+
+export const escapeCsv = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Failed rows with their original values and what was wrong, ready to fix and re-import
+export const buildErrorReport = <T>(target: ImportTarget, rows: ValidatedRow<T>[]) => {
+  const fields = importFields[target];
+  const lines = [
+    ['Row', ...fields.map(field => field.label), 'Errors'],
+    ...rows
+      .filter(row => row.errors.length > 0)
+      .map(row => [String(row.rowNumber), ...fields.map(field => row.raw[field.key] || ''), row.errors.join('; ')]),
+  ];
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\n');
+};
+
+export const downloadCsv = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
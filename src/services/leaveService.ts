@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+import { eachDayOfInterval, format, getISODay, parseISO } from 'date-fns';
+import { defaultWorkingDays } from '@/services/workScheduleService';
+
+const BUCKET = 'leave-attachments';
+
+export type LeaveType = 'sick' | 'casual' | 'exam' | 'official';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveRequest {
+  id: string;
+  intern_id: string;
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  attachment_path: string | null;
+  status: LeaveStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+export interface LeavePolicy {
+  leave_type: LeaveType;
+  annual_days: number | null;
+  requires_attachment: boolean;
+}
+
+export interface LeaveBalance extends LeavePolicy {
+  used_days: number;
+  pending_days: number;
+}
+
+export const leaveTypeLabels: Record<LeaveType, string> = {
+  sick: 'Sick',
+  casual: 'Casual',
+  exam: 'Exam',
+  official: 'Official',
+};
+
+// Keep in sync with the leave-attachments bucket limits
+export const MAX_LEAVE_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ALLOWED_LEAVE_ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf'];
+
+// Mirrors public.leave_days: the intern's working days in the range, except holidays
+export const countLeaveDays = (
+  startDate: string,
+  endDate: string,
+  holidayDates: string[] = [],
+  workingDays: number[] = defaultWorkingDays
+) => {
+  if (!startDate || !endDate || endDate < startDate) return 0;
+  return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) })
+    .filter(day => workingDays.includes(getISODay(day)) && !holidayDates.includes(format(day, 'yyyy-MM-dd')))
+    .length;
+};
+
+export const formatLeaveDates = (request: Pick<LeaveRequest, 'start_date' | 'end_date'>) => {
+  const start = parseISO(request.start_date);
+  if (request.start_date === request.end_date) return format(start, 'MMM dd, yyyy');
+  return `${format(start, 'MMM dd')} - ${format(parseISO(request.end_date), 'MMM dd, yyyy')}`;
+};
+
+export const fetchLeaveBalances = async (internId: string) => {
+  const { data, error } = await supabase.rpc('get_leave_balances', { _intern_id: internId });
+
+  if (error) {
+    console.error('Error fetching leave balances:', error);
+    return [];
+  }
+
+  return (data || []) as LeaveBalance[];
+};
+
+export const fetchLeaveRequests = async (internIds: string[]) => {
+  if (internIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('*')
+    .in('intern_id', internIds)
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching leave requests:', error);
+    return [];
+  }
+
+  return (data || []) as LeaveRequest[];
+};
+
+export const fetchLeavePolicies = async () => {
+  const { data, error } = await supabase
+    .from('leave_policies')
+    .select('leave_type, annual_days, requires_attachment')
+    .order('leave_type');
+
+  if (error) {
+    console.error('Error fetching leave policies:', error);
+    return [];
+  }
+
+  return (data || []) as LeavePolicy[];
+};
+
+export const updateLeavePolicy = async (policy: LeavePolicy) => {
+  const { error } = await supabase
+    .from('leave_policies')
+    .update({ annual_days: policy.annual_days, requires_attachment: policy.requires_attachment })
+    .eq('leave_type', policy.leave_type);
+
+  if (error) throw error;
+};
+
+// Uploads a supporting document under the intern's folder and returns its path
+export const uploadLeaveAttachment = async (internId: string, file: File) => {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const filePath = `${internId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(filePath, file, { contentType: file.type });
+
+  if (error) throw error;
+  return filePath;
+};
+
+export const removeLeaveAttachment = async (filePath: string) => {
+  const { error } = await supabase.storage.from(BUCKET).remove([filePath]);
+  if (error) {
+    console.error('Error removing leave attachment:', error);
+  }
+};
+
+export const getLeaveAttachmentUrl = async (filePath: string) => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(filePath, 60 * 60);
+
+  if (error) {
+    console.error('Error creating leave attachment URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+};
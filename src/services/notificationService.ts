@@ -40,11 +40,41 @@ export const notificationTemplates = {
     type: 'info' as const,
   }),
   
-  taskCompleted: (taskTitle: string, internName: string) => ({
-    title: 'Task Completed',
-    message: `${internName} has completed the task: "${taskTitle}"`,
+  tasksAssigned: (count: number) => ({
+    title: 'New Tasks Assigned',
+    message: `You have been assigned ${count === 1 ? 'a new task' : `${count} new tasks`}`,
+    type: 'info' as const,
+  }),
+
+  tasksUpdated: (count: number, change: string) => ({
+    title: 'Tasks Updated',
+    message: `${count === 1 ? 'One of your tasks was' : `${count} of your tasks were`} ${change}`,
+    type: 'info' as const,
+  }),
+  
+  taskSubmitted: (taskTitle: string, internName: string) => ({
+    title: 'Task Ready for Review',
+    message: `${internName} has submitted the task for review: "${taskTitle}"`,
+    type: 'info' as const,
+  }),
+
+  taskApproved: (taskTitle: string) => ({
+    title: 'Task Approved',
+    message: `Your task has been approved: "${taskTitle}"`,
     type: 'success' as const,
   }),
+
+  taskChangesRequested: (taskTitle: string, reason: string) => ({
+    title: 'Changes Requested',
+    message: `Changes were requested on "${taskTitle}": ${reason}`,
+    type: 'warning' as const,
+  }),
+  
+  taskMention: (authorName: string, taskTitle: string) => ({
+    title: 'You Were Mentioned',
+    message: `${authorName} mentioned you on "${taskTitle}"`,
+    type: 'info' as const,
+  }),
   
   feedbackReceived: (supervisorName: string) => ({
     title: 'New Feedback',
@@ -69,6 +99,60 @@ export const notificationTemplates = {
     message: 'Don\'t forget to mark your attendance for today!',
     type: 'warning' as const,
   }),
+
+  roleChanged: (role: string) => ({
+    title: 'Role Updated',
+    message: `Your account role has been changed to ${role}`,
+    type: 'info' as const,
+  }),
+
+  mentorAssigned: (supervisorName: string) => ({
+    title: 'Mentor Assigned',
+    message: `${supervisorName} is now your mentor`,
+    type: 'info' as const,
+  }),
+
+  accountApproved: () => ({
+    title: 'Account Approved',
+    message: 'Your supervisor account has been approved',
+    type: 'success' as const,
+  }),
+
+  leaveRequested: (internName: string, leaveType: string, dates: string) => ({
+    title: 'Leave Requested',
+    message: `${internName} requested ${leaveType} leave for ${dates}`,
+    type: 'info' as const,
+  }),
+
+  leaveApproved: (leaveType: string, dates: string) => ({
+    title: 'Leave Approved',
+    message: `Your ${leaveType} leave for ${dates} has been approved`,
+    type: 'success' as const,
+  }),
+
+  leaveRejected: (leaveType: string, dates: string, reason: string) => ({
+    title: 'Leave Rejected',
+    message: `Your ${leaveType} leave for ${dates} was rejected: ${reason}`,
+    type: 'warning' as const,
+  }),
+
+  correctionRequested: (internName: string, date: string) => ({
+    title: 'Attendance Correction Requested',
+    message: `${internName} asked to correct their attendance for ${date}`,
+    type: 'info' as const,
+  }),
+
+  correctionApproved: (date: string) => ({
+    title: 'Attendance Corrected',
+    message: `Your attendance correction for ${date} has been approved`,
+    type: 'success' as const,
+  }),
+
+  correctionRejected: (date: string, reason: string) => ({
+    title: 'Correction Rejected',
+    message: `Your attendance correction for ${date} was rejected: ${reason}`,
+    type: 'warning' as const,
+  }),
 };
 
 // Enhanced notification system for comprehensive real-time updates
@@ -0,0 +1,105 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type TaskSort = 'position' | 'due_date' | 'priority' | 'created_at' | 'title';
+
+export interface TaskFilters {
+  assignee: string;
+  priority: string;
+  label: string;
+  dueFrom: string;
+  dueTo: string;
+  search: string;
+  sort: TaskSort;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: Partial<TaskFilters>;
+}
+
+export const emptyTaskFilters: TaskFilters = {
+  assignee: '',
+  priority: '',
+  label: '',
+  dueFrom: '',
+  dueTo: '',
+  search: '',
+  sort: 'position',
+};
+
+// Query string keys, kept short so shared links stay readable
+const paramKeys: Record<keyof TaskFilters, string> = {
+  assignee: 'assignee',
+  priority: 'priority',
+  label: 'label',
+  dueFrom: 'due_from',
+  dueTo: 'due_to',
+  search: 'q',
+  sort: 'sort',
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): TaskFilters => {
+  const filters = { ...emptyTaskFilters };
+  (Object.keys(paramKeys) as (keyof TaskFilters)[]).forEach(key => {
+    const value = params.get(paramKeys[key]);
+    if (value) {
+      (filters as Record<keyof TaskFilters, string>)[key] = value;
+    }
+  });
+  return filters;
+};
+
+// Writes the non-default filters into `params`, leaving unrelated keys untouched
+export const applyFiltersToSearchParams = (params: URLSearchParams, filters: TaskFilters) => {
+  const next = new URLSearchParams(params);
+  (Object.keys(paramKeys) as (keyof TaskFilters)[]).forEach(key => {
+    if (filters[key] && filters[key] !== emptyTaskFilters[key]) {
+      next.set(paramKeys[key], filters[key]);
+    } else {
+      next.delete(paramKeys[key]);
+    }
+  });
+  return next;
+};
+
+export const hasActiveFilters = (filters: TaskFilters) => {
+  return (Object.keys(filters) as (keyof TaskFilters)[]).some(key => filters[key] !== emptyTaskFilters[key]);
+};
+
+// Shared board links carry filters, so dashboards open straight on the task board
+export const hasTaskFilterParams = (params: URLSearchParams) => {
+  return hasActiveFilters(filtersFromSearchParams(params));
+};
+
+export const fetchSavedViews = async (userId: string, board = 'tasks') => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('id, name, filters')
+    .eq('user_id', userId)
+    .eq('board', board)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching saved views:', error);
+    return [];
+  }
+
+  return (data || []) as SavedView[];
+};
+
+export const createSavedView = async (userId: string, name: string, filters: TaskFilters, board = 'tasks') => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({ user_id: userId, board, name, filters: { ...filters } as Record<string, string> })
+    .select('id, name, filters')
+    .single();
+
+  if (error) throw error;
+  return data as SavedView;
+};
+
+export const deleteSavedView = async (viewId: string) => {
+  const { error } = await supabase.from('saved_views').delete().eq('id', viewId);
+  if (error) throw error;
+};
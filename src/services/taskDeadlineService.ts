@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+import { defaultWorkingDays } from '@/services/workScheduleService';
+
+export type DueState = 'overdue' | 'due_soon' | null;
+
+export interface TaskEscalation {
+  id: string;
+  task_id: string;
+  tier: 'due_soon' | 'overdue' | 'escalated' | 'critical';
+  recipient_id: string;
+  created_at: string;
+}
+
+export const escalationLabels: Record<TaskEscalation['tier'], string> = {
+  due_soon: 'Due soon reminder',
+  overdue: 'Overdue reminder',
+  escalated: 'Escalated',
+  critical: 'Critical escalation',
+};
+
+// Mirrors run_task_escalations(): only open work counts, compared by UTC date. A task only
+// becomes overdue once one of the assignee's working days (not a holiday) has passed since
+// it was due.
+export const getDueState = (
+  task: { due_date?: string | null; status: string },
+  holidayDates: string[] = [],
+  workingDays: number[] = defaultWorkingDays
+): DueState => {
+  if (!task.due_date || !['todo', 'in_progress'].includes(task.status)) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const due = task.due_date.slice(0, 10);
+
+  if (due < today) {
+    const day = new Date(`${due}T00:00:00Z`);
+    do {
+      day.setUTCDate(day.getUTCDate() + 1);
+      const date = day.toISOString().slice(0, 10);
+      if (workingDays.includes(day.getUTCDay() || 7) && !holidayDates.includes(date)) return 'overdue';
+    } while (day.toISOString().slice(0, 10) < today);
+  }
+  if (due <= tomorrow) return 'due_soon';
+  return null;
+};
+
+export const fetchTaskEscalations = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('task_escalations')
+    .select('id, task_id, tier, recipient_id, created_at')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching task escalations:', error);
+    return [];
+  }
+
+  return (data || []) as TaskEscalation[];
+};
@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TaskDependency {
+  task_id: string;
+  depends_on_task_id: string;
+}
+
+// Dependencies where any of the given tasks is the blocked task
+export const fetchTaskDependencies = async (taskIds: string[]) => {
+  if (taskIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('task_id, depends_on_task_id')
+    .in('task_id', taskIds);
+
+  if (error) {
+    console.error('Error fetching task dependencies:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// True if making `taskId` depend on `dependsOnId` would close a loop; the database enforces the same rule
+export const wouldCreateCycle = (dependencies: TaskDependency[], taskId: string, dependsOnId: string) => {
+  if (taskId === dependsOnId) return true;
+
+  const visited = new Set<string>();
+  const stack = [dependsOnId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    dependencies
+      .filter(dependency => dependency.task_id === current)
+      .forEach(dependency => stack.push(dependency.depends_on_task_id));
+  }
+
+  return false;
+};
+
+export const addTaskDependency = async (taskId: string, dependsOnId: string, userId: string) => {
+  const { error } = await supabase.from('task_dependencies').insert({
+    task_id: taskId,
+    depends_on_task_id: dependsOnId,
+    created_by: userId,
+  });
+
+  if (error) throw error;
+};
+
+export const removeTaskDependency = async (taskId: string, dependsOnId: string) => {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('task_id', taskId)
+    .eq('depends_on_task_id', dependsOnId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Position that places a task at `index` among the given column tasks, sorted by position
+export const getPositionAt = (columnTasks: { position: number }[], index: number) => {
+  const before = columnTasks[index - 1];
+  const after = columnTasks[index];
+  if (before && after) return (before.position + after.position) / 2;
+  if (before) return before.position + 1;
+  if (after) return after.position - 1;
+  return 0;
+};
+
+// Position that puts a new task at the top of a board column
+export const fetchTopPosition = async (status: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('position')
+    .eq('status', status)
+    .order('position')
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching task positions:', error);
+  }
+
+  return getPositionAt(data || [], 0);
+};
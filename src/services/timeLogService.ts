@@ -0,0 +1,118 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TimeLog {
+  id: string;
+  task_id: string;
+  intern_id: string;
+  started_at: string;
+  ended_at: string | null;
+  is_manual: boolean;
+  note: string | null;
+}
+
+// Running timers count up to the current moment
+export const getLogMinutes = (log: Pick<TimeLog, 'started_at' | 'ended_at'>) => {
+  const end = log.ended_at ? new Date(log.ended_at) : new Date();
+  return Math.max(0, (end.getTime() - new Date(log.started_at).getTime()) / 60000);
+};
+
+export const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+};
+
+export const fetchTaskTimeLogs = async (taskIds: string[]) => {
+  if (taskIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('task_time_logs')
+    .select('id, task_id, intern_id, started_at, ended_at, is_manual, note')
+    .in('task_id', taskIds)
+    .order('started_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching time logs:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Logs an intern started within [from, to)
+export const fetchInternTimeLogs = async (internId: string, from: Date, to: Date) => {
+  const { data, error } = await supabase
+    .from('task_time_logs')
+    .select('id, task_id, intern_id, started_at, ended_at, is_manual, note')
+    .eq('intern_id', internId)
+    .gte('started_at', from.toISOString())
+    .lt('started_at', to.toISOString())
+    .order('started_at');
+
+  if (error) {
+    console.error('Error fetching time logs:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const fetchRunningTimer = async (internId: string) => {
+  const { data, error } = await supabase
+    .from('task_time_logs')
+    .select('id, task_id, intern_id, started_at, ended_at, is_manual, note')
+    .eq('intern_id', internId)
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching running timer:', error);
+    return null;
+  }
+
+  return data;
+};
+
+export const startTimer = async (taskId: string, internId: string) => {
+  const { error } = await supabase.from('task_time_logs').insert({
+    task_id: taskId,
+    intern_id: internId,
+  });
+
+  if (error) throw error;
+};
+
+export const stopTimer = async (logId: string) => {
+  const { error } = await supabase
+    .from('task_time_logs')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('id', logId);
+
+  if (error) throw error;
+};
+
+export const addManualTimeLog = async (
+  taskId: string,
+  internId: string,
+  startedAt: Date,
+  endedAt: Date,
+  note?: string
+) => {
+  const { error } = await supabase.from('task_time_logs').insert({
+    task_id: taskId,
+    intern_id: internId,
+    started_at: startedAt.toISOString(),
+    ended_at: endedAt.toISOString(),
+    is_manual: true,
+    note: note || null,
+  });
+
+  if (error) throw error;
+};
+
+export const deleteTimeLog = async (logId: string) => {
+  const { error } = await supabase.from('task_time_logs').delete().eq('id', logId);
+  if (error) throw error;
+};
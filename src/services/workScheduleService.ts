@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AttendanceStatus = 'present' | 'late' | 'early_leave' | 'half_day' | 'absent' | 'on_leave';
+
+export interface WorkSchedule {
+  id: string;
+  department: string | null;
+  start_time: string;
+  end_time: string;
+  grace_minutes: number;
+  required_hours: number;
+  half_day_hours: number;
+  working_days: number[];
+  timezone: string;
+  reminder_time: string | null;
+  auto_checkout_time: string | null;
+}
+
+export const attendanceStatusLabels: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  early_leave: 'Left Early',
+  half_day: 'Half Day',
+  absent: 'Absent',
+  on_leave: 'On Leave',
+};
+
+export const attendanceStatusClasses: Record<AttendanceStatus, string> = {
+  present: 'bg-emerald-100 text-emerald-800 hover:bg-emerald-100',
+  late: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  early_leave: 'bg-orange-100 text-orange-800 hover:bg-orange-100',
+  half_day: 'bg-sky-100 text-sky-800 hover:bg-sky-100',
+  absent: 'bg-red-100 text-red-800 hover:bg-red-100',
+  on_leave: 'bg-purple-100 text-purple-800 hover:bg-purple-100',
+};
+
+export const isAttendanceStatus = (status: string): status is AttendanceStatus => status in attendanceStatusLabels;
+
+// ISO weekday numbers, listed Sunday first as the working week starts on Sunday in Nepal
+export const weekdays = [
+  { value: 7, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
+// A department's own schedule wins over the organisation-wide default
+export const getScheduleForDepartment = (schedules: WorkSchedule[], department?: string | null) => {
+  return schedules.find(schedule => schedule.department && schedule.department === department)
+    || schedules.find(schedule => schedule.department === null);
+};
+
+// Matches the column default, for when no schedule applies
+export const defaultWorkingDays = [7, 1, 2, 3, 4, 5];
+
+export const getWorkingDays = (schedules: WorkSchedule[], department?: string | null) =>
+  getScheduleForDepartment(schedules, department)?.working_days || defaultWorkingDays;
+
+export const fetchWorkSchedules = async () => {
+  const { data, error } = await supabase
+    .from('work_schedules')
+    .select('id, department, start_time, end_time, grace_minutes, required_hours, half_day_hours, working_days, timezone, reminder_time, auto_checkout_time')
+    .order('department', { nullsFirst: true });
+
+  if (error) {
+    console.error('Error fetching work schedules:', error);
+    return [];
+  }
+
+  return (data || []) as WorkSchedule[];
+};
+
+// Each user's working days, keyed by user id
+export const fetchWorkingDaysByUser = async (userIds: string[]) => {
+  if (userIds.length === 0) return {};
+
+  const [schedules, { data, error }] = await Promise.all([
+    fetchWorkSchedules(),
+    supabase.from('profiles').select('id, department').in('id', userIds),
+  ]);
+
+  if (error) {
+    console.error('Error fetching departments:', error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    (data || []).map(profile => [profile.id, getWorkingDays(schedules, profile.department)])
+  ) as Record<string, number[]>;
+};
+
+// Departments that appear on profiles, for picking which one a schedule applies to
+export const fetchDepartments = async () => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('department')
+    .not('department', 'is', null);
+
+  if (error) {
+    console.error('Error fetching departments:', error);
+    return [];
+  }
+
+  return [...new Set((data || []).map(profile => profile.department!.trim()).filter(Boolean))].sort();
+};
+
+export const saveWorkSchedule = async (schedule: Omit<WorkSchedule, 'id'> & { id?: string }) => {
+  const { id, ...values } = schedule;
+  const { error } = id
+    ? await supabase.from('work_schedules').update(values).eq('id', id)
+    : await supabase.from('work_schedules').insert(values);
+
+  if (error) throw error;
+};
+
+export const deleteWorkSchedule = async (scheduleId: string) => {
+  const { error } = await supabase.from('work_schedules').delete().eq('id', scheduleId);
+  if (error) throw error;
+};
@@ -0,0 +1,92 @@
+-- Add account status and requested role to profiles
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active',
+ADD COLUMN IF NOT EXISTS requested_role text;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_role_check CHECK (role IN ('intern', 'supervisor', 'admin')),
+ADD CONSTRAINT profiles_status_check CHECK (status IN ('active', 'pending', 'deactivated'));
+
+-- Only active accounts carry a role for RLS purposes
+CREATE OR REPLACE FUNCTION public.get_current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT role FROM public.profiles
+  WHERE id = auth.uid()
+  AND status = 'active';
+$function$;
+
+-- Never trust the role sent by the client: everyone starts as an intern and
+-- supervisor sign-ups wait for an admin to approve them
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  requested text := NEW.raw_user_meta_data->>'role';
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, role, phone, status, requested_role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'full_name',
+    'intern',
+    NEW.raw_user_meta_data->>'phone',
+    CASE WHEN requested = 'supervisor' THEN 'pending' ELSE 'active' END,
+    CASE WHEN requested = 'supervisor' THEN 'supervisor' ELSE NULL END
+  );
+  RETURN NEW;
+END;
+$function$;
+
+-- Users may edit their own profile details but not their role or status
+CREATE OR REPLACE FUNCTION public.prevent_profile_privilege_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.requested_role IS DISTINCT FROM OLD.requested_role)
+     AND auth.uid() IS NOT NULL
+     AND COALESCE(public.get_current_user_role(), '') <> 'admin' THEN
+    RAISE EXCEPTION 'Only administrators can change roles or account status';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_profile_privilege_change
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_profile_privilege_change();
+
+-- Admin policies for profiles
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Admins can update all profiles"
+ON public.profiles
+FOR UPDATE
+USING (public.get_current_user_role() = 'admin');
+
+-- Attendance visibility now goes through the active role instead of a raw profile lookup
+DROP POLICY IF EXISTS "Supervisors can view all attendance" ON public.attendance;
+
+CREATE POLICY "Supervisors can view all attendance"
+ON public.attendance
+FOR SELECT
+USING (public.get_current_user_role() IN ('supervisor', 'admin'));
+
+-- The first administrator has to be promoted by hand, e.g.
+-- UPDATE public.profiles SET role = 'admin', status = 'active' WHERE email = '<admin email>';
@@ -0,0 +1,108 @@
+-- Create invitations table
+CREATE TABLE public.invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'intern' CHECK (role IN ('intern', 'supervisor', 'admin')),
+  department TEXT,
+  supervisor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  invited_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (timezone('utc'::text, now()) + interval '7 days'),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+-- Enable RLS
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for invitations
+CREATE POLICY "Users can view invitations they sent"
+ON public.invitations
+FOR SELECT
+USING (auth.uid() = invited_by OR public.get_current_user_role() = 'admin');
+
+-- Supervisors may only invite interns; admins may invite any role
+CREATE POLICY "Supervisors and admins can create invitations"
+ON public.invitations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = invited_by
+  AND (
+    public.get_current_user_role() = 'admin'
+    OR (public.get_current_user_role() = 'supervisor' AND role = 'intern')
+  )
+);
+
+CREATE POLICY "Users can revoke pending invitations they sent"
+ON public.invitations
+FOR DELETE
+USING (
+  accepted_at IS NULL
+  AND (auth.uid() = invited_by OR public.get_current_user_role() = 'admin')
+);
+
+-- Look up an open invitation by token without exposing the table to anonymous users
+CREATE OR REPLACE FUNCTION public.get_invitation(invite_token text)
+RETURNS TABLE (
+  email text,
+  role text,
+  department text,
+  supervisor_id uuid,
+  invited_by uuid,
+  expires_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT i.email, i.role, i.department, i.supervisor_id, i.invited_by, i.expires_at
+  FROM public.invitations i
+  WHERE i.token = invite_token
+  AND i.accepted_at IS NULL
+  AND i.expires_at > now();
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation(text) TO anon, authenticated;
+
+-- Sign-up now requires a valid invitation; role and department come from it
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  invite public.invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invite
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+  AND accepted_at IS NULL
+  AND expires_at > now()
+  AND lower(email) = lower(NEW.email)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A valid invitation is required to sign up';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, role, phone, department, status)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'full_name',
+    invite.role,
+    NEW.raw_user_meta_data->>'phone',
+    invite.department,
+    'active'
+  );
+
+  UPDATE public.invitations
+  SET accepted_at = now(), accepted_by = NEW.id
+  WHERE id = invite.id;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,165 @@
+-- Create supervisor_assignments table
+CREATE TABLE public.supervisor_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  intern_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  supervisor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  assignment_type TEXT NOT NULL DEFAULT 'primary' CHECK (assignment_type IN ('primary', 'secondary')),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  assigned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- An intern has at most one open primary mentor
+CREATE UNIQUE INDEX supervisor_assignments_one_primary
+ON public.supervisor_assignments (intern_id)
+WHERE assignment_type = 'primary' AND end_date IS NULL;
+
+CREATE INDEX supervisor_assignments_supervisor_id_idx
+ON public.supervisor_assignments (supervisor_id);
+
+-- Enable RLS
+ALTER TABLE public.supervisor_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Is the current user an active mentor of the given intern?
+CREATE OR REPLACE FUNCTION public.is_supervisor_of(intern uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.supervisor_assignments
+    WHERE supervisor_id = auth.uid()
+    AND intern_id = intern
+    AND start_date <= CURRENT_DATE
+    AND (end_date IS NULL OR end_date >= CURRENT_DATE)
+  );
+$function$;
+
+-- Are the two users an active intern/mentor pair, in either direction?
+CREATE OR REPLACE FUNCTION public.is_mentorship_pair(user_a uuid, user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.supervisor_assignments
+    WHERE ((supervisor_id = user_a AND intern_id = user_b)
+      OR (supervisor_id = user_b AND intern_id = user_a))
+    AND start_date <= CURRENT_DATE
+    AND (end_date IS NULL OR end_date >= CURRENT_DATE)
+  );
+$function$;
+
+-- Create policies for supervisor_assignments
+CREATE POLICY "Users can view their own assignments"
+ON public.supervisor_assignments
+FOR SELECT
+USING (
+  auth.uid() = supervisor_id
+  OR auth.uid() = intern_id
+  OR public.get_current_user_role() IN ('supervisor', 'admin')
+);
+
+CREATE POLICY "Supervisors and admins can create assignments"
+ON public.supervisor_assignments
+FOR INSERT
+WITH CHECK (public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Mentors and admins can update assignments"
+ON public.supervisor_assignments
+FOR UPDATE
+USING (auth.uid() = supervisor_id OR public.get_current_user_role() = 'admin');
+
+-- Supervisors only see attendance for their own interns
+DROP POLICY IF EXISTS "Supervisors can view all attendance" ON public.attendance;
+
+CREATE POLICY "Supervisors can view their interns' attendance"
+ON public.attendance
+FOR SELECT
+USING (public.is_supervisor_of(user_id) OR public.get_current_user_role() = 'admin');
+
+-- Narrow the existing task, feedback and message policies to mentorship relationships
+CREATE POLICY "Supervisors can only assign tasks to their interns"
+ON public.tasks
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  assigned_to IS NULL
+  OR public.get_current_user_role() = 'admin'
+  OR public.is_supervisor_of(assigned_to)
+);
+
+CREATE POLICY "Supervisors can only give feedback to their interns"
+ON public.feedback
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (public.get_current_user_role() = 'admin' OR public.is_supervisor_of(intern_id));
+
+CREATE POLICY "Messages are limited to mentorship pairs"
+ON public.messages
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  public.get_current_user_role() = 'admin'
+  OR public.is_mentorship_pair(sender_id, receiver_id)
+);
+
+-- Invitations that name a supervisor now create the primary assignment on sign-up
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  invite public.invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invite
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+  AND accepted_at IS NULL
+  AND expires_at > now()
+  AND lower(email) = lower(NEW.email)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A valid invitation is required to sign up';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name, role, phone, department, status)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'full_name',
+    invite.role,
+    NEW.raw_user_meta_data->>'phone',
+    invite.department,
+    'active'
+  );
+
+  IF invite.role = 'intern' AND invite.supervisor_id IS NOT NULL THEN
+    INSERT INTO public.supervisor_assignments (intern_id, supervisor_id, assignment_type, assigned_by)
+    VALUES (NEW.id, invite.supervisor_id, 'primary', invite.invited_by);
+  END IF;
+
+  UPDATE public.invitations
+  SET accepted_at = now(), accepted_by = NEW.id
+  WHERE id = invite.id;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Existing interns keep working with whoever created their tasks until reassigned
+INSERT INTO public.supervisor_assignments (intern_id, supervisor_id, assignment_type)
+SELECT DISTINCT ON (t.assigned_to) t.assigned_to, t.created_by, 'primary'
+FROM public.tasks t
+JOIN public.profiles p ON p.id = t.assigned_to AND p.role = 'intern'
+WHERE t.assigned_to IS NOT NULL
+ORDER BY t.assigned_to, t.created_at DESC;
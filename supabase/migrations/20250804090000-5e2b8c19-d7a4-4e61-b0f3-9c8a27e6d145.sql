@@ -0,0 +1,121 @@
+-- Create programs table
+CREATE TABLE public.programs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  department TEXT,
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+-- Create cohorts table
+CREATE TABLE public.cohorts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id UUID NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CHECK (end_date >= start_date)
+);
+
+-- Supervisors responsible for a cohort
+CREATE TABLE public.cohort_supervisors (
+  cohort_id UUID NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  supervisor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  PRIMARY KEY (cohort_id, supervisor_id)
+);
+
+-- Interns enrolled in a cohort; an intern belongs to one cohort at a time
+CREATE TABLE public.cohort_enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cohort_id UUID NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  intern_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  enrolled_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+-- Enable RLS
+ALTER TABLE public.programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohorts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_supervisors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can read programs and cohorts; supervisors and admins manage them
+CREATE POLICY "Authenticated users can view programs"
+ON public.programs
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Supervisors and admins can manage programs"
+ON public.programs
+FOR ALL
+USING (public.get_current_user_role() IN ('supervisor', 'admin'))
+WITH CHECK (public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Authenticated users can view cohorts"
+ON public.cohorts
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Supervisors and admins can manage cohorts"
+ON public.cohorts
+FOR ALL
+USING (public.get_current_user_role() IN ('supervisor', 'admin'))
+WITH CHECK (public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Authenticated users can view cohort supervisors"
+ON public.cohort_supervisors
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Supervisors and admins can manage cohort supervisors"
+ON public.cohort_supervisors
+FOR ALL
+USING (public.get_current_user_role() IN ('supervisor', 'admin'))
+WITH CHECK (public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Interns can view their own enrollment"
+ON public.cohort_enrollments
+FOR SELECT
+USING (auth.uid() = intern_id OR public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Supervisors and admins can manage enrollments"
+ON public.cohort_enrollments
+FOR ALL
+USING (public.get_current_user_role() IN ('supervisor', 'admin'))
+WITH CHECK (public.get_current_user_role() IN ('supervisor', 'admin'));
+
+-- Enforce cohort capacity on enrollment
+CREATE OR REPLACE FUNCTION public.check_cohort_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  cohort_capacity integer;
+  enrolled integer;
+BEGIN
+  SELECT capacity INTO cohort_capacity FROM public.cohorts WHERE id = NEW.cohort_id;
+
+  IF cohort_capacity IS NOT NULL THEN
+    SELECT count(*) INTO enrolled
+    FROM public.cohort_enrollments
+    WHERE cohort_id = NEW.cohort_id
+    AND id <> NEW.id;
+
+    IF enrolled >= cohort_capacity THEN
+      RAISE EXCEPTION 'Cohort is full';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_cohort_capacity
+BEFORE INSERT OR UPDATE OF cohort_id ON public.cohort_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.check_cohort_capacity();
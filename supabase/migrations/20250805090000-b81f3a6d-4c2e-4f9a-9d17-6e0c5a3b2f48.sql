@@ -0,0 +1,122 @@
+-- Add the in_review state to the task workflow
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_status_check CHECK (status IN ('todo', 'in_progress', 'in_review', 'done'));
+
+-- Reason given by the supervisor when requesting changes
+ALTER TABLE public.tasks ADD COLUMN review_note TEXT;
+
+-- Record of every status transition
+CREATE TABLE public.task_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX task_status_history_task_id_idx ON public.task_status_history (task_id, created_at);
+
+ALTER TABLE public.task_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History is written by the trigger below; users can read the history of tasks they can see
+CREATE POLICY "Users can view history of their tasks"
+ON public.task_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_status_history.task_id
+    AND (
+      tasks.assigned_to = auth.uid()
+      OR tasks.created_by = auth.uid()
+      OR public.is_supervisor_of(tasks.assigned_to)
+      OR public.get_current_user_role() = 'admin'
+    )
+  )
+);
+
+-- Enforce the workflow: interns start and submit, supervisors approve or send back with a reason
+CREATE OR REPLACE FUNCTION public.enforce_task_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  is_reviewer boolean;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Service role and scheduled jobs are not bound by the workflow
+  IF auth.uid() IS NOT NULL THEN
+    is_reviewer := OLD.created_by = auth.uid()
+      OR public.is_supervisor_of(OLD.assigned_to)
+      OR public.get_current_user_role() = 'admin';
+
+    IF (OLD.status, NEW.status) IN (('todo', 'in_progress'), ('in_progress', 'in_review')) THEN
+      IF OLD.assigned_to IS DISTINCT FROM auth.uid() AND NOT is_reviewer THEN
+        RAISE EXCEPTION 'Only the assignee can move this task';
+      END IF;
+    ELSIF (OLD.status, NEW.status) IN (('in_review', 'done'), ('in_review', 'in_progress')) THEN
+      IF NOT is_reviewer THEN
+        RAISE EXCEPTION 'Only a supervisor can review this task';
+      END IF;
+
+      IF NEW.status = 'in_progress' AND coalesce(trim(NEW.review_note), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required when requesting changes';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'done' THEN
+    NEW.completed_at := now();
+    NEW.review_note := NULL;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_task_workflow
+BEFORE UPDATE OF status ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_task_workflow();
+
+CREATE OR REPLACE FUNCTION public.record_task_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_status_history (task_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.task_status_history (task_id, from_status, to_status, reason, changed_by)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      CASE WHEN OLD.status = 'in_review' AND NEW.status = 'in_progress' THEN NEW.review_note END,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER record_task_status_change
+AFTER INSERT OR UPDATE OF status ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.record_task_status_change();
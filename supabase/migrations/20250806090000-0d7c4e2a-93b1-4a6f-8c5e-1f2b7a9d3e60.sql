@@ -0,0 +1,13 @@
+-- Manual ordering of tasks within a board column
+ALTER TABLE public.tasks ADD COLUMN position DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Keep the current newest-first order for existing tasks
+UPDATE public.tasks
+SET position = ordered.row_number
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY status ORDER BY created_at DESC) AS row_number
+  FROM public.tasks
+) AS ordered
+WHERE tasks.id = ordered.id;
+
+CREATE INDEX tasks_status_position_idx ON public.tasks (status, position);
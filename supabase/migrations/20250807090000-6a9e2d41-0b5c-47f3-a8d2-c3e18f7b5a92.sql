@@ -0,0 +1,100 @@
+-- Subtasks are regular tasks linked to a parent task
+ALTER TABLE public.tasks
+ADD COLUMN parent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX tasks_parent_task_id_idx ON public.tasks (parent_task_id);
+
+-- Lightweight checklist items on a task
+CREATE TABLE public.task_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  is_completed BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX task_checklist_items_task_id_idx ON public.task_checklist_items (task_id, position);
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view checklist items of their tasks"
+ON public.task_checklist_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND (
+      tasks.assigned_to = auth.uid()
+      OR tasks.created_by = auth.uid()
+      OR public.is_supervisor_of(tasks.assigned_to)
+      OR public.get_current_user_role() = 'admin'
+    )
+  )
+);
+
+CREATE POLICY "Task creators can manage checklist items"
+ON public.task_checklist_items
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND (tasks.created_by = auth.uid() OR public.get_current_user_role() = 'admin')
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND (tasks.created_by = auth.uid() OR public.get_current_user_role() = 'admin')
+  )
+);
+
+CREATE POLICY "Assignees can tick checklist items"
+ON public.task_checklist_items
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_checklist_items.task_id
+    AND tasks.assigned_to = auth.uid()
+  )
+);
+
+-- Assignees may only change the completion state of an item
+CREATE OR REPLACE FUNCTION public.restrict_checklist_item_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = OLD.task_id
+    AND tasks.created_by = auth.uid()
+  ) OR public.get_current_user_role() = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.task_id IS DISTINCT FROM OLD.task_id
+    OR NEW.position IS DISTINCT FROM OLD.position THEN
+    RAISE EXCEPTION 'Only the task creator can edit checklist items';
+  END IF;
+
+  NEW.completed_by := CASE WHEN NEW.is_completed THEN auth.uid() END;
+  NEW.completed_at := CASE WHEN NEW.is_completed THEN now() END;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER restrict_checklist_item_update
+BEFORE UPDATE ON public.task_checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_checklist_item_update();
@@ -0,0 +1,52 @@
+-- Whether the current user can see a task: its assignee, creator, the assignee's mentors, or an admin
+CREATE OR REPLACE FUNCTION public.can_view_task(_task_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = _task_id
+    AND (
+      tasks.assigned_to = auth.uid()
+      OR tasks.created_by = auth.uid()
+      OR public.is_supervisor_of(tasks.assigned_to)
+      OR public.get_current_user_role() = 'admin'
+    )
+  );
+$function$;
+
+-- Threaded comments on tasks
+CREATE TABLE public.task_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  parent_comment_id UUID REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX task_comments_task_id_idx ON public.task_comments (task_id, created_at);
+
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on their tasks"
+ON public.task_comments
+FOR SELECT
+USING (public.can_view_task(task_id));
+
+CREATE POLICY "Users can comment on their tasks"
+ON public.task_comments
+FOR INSERT
+WITH CHECK (auth.uid() = author_id AND public.can_view_task(task_id));
+
+CREATE POLICY "Users can delete their own comments"
+ON public.task_comments
+FOR DELETE
+USING (auth.uid() = author_id);
+
+-- Feedback linked to a task shows up in the task's activity timeline
+CREATE INDEX IF NOT EXISTS feedback_task_id_idx ON public.feedback (task_id);
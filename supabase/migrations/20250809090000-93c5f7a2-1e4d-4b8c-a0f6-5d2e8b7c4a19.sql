@@ -0,0 +1,142 @@
+-- Tasks can require a deliverable file before they are submitted or completed
+ALTER TABLE public.tasks ADD COLUMN requires_deliverable BOOLEAN NOT NULL DEFAULT false;
+
+-- Private bucket for task files, stored under <task_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'task-attachments',
+  'task-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'application/zip',
+    'application/x-zip-compressed',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Task members can read task files"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'task-attachments'
+  AND public.can_view_task(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Task members can upload task files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'task-attachments'
+  AND public.can_view_task(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Uploaders can delete their task files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'task-attachments'
+  AND owner = auth.uid()
+);
+
+-- Metadata for each uploaded file
+CREATE TABLE public.task_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX task_attachments_task_id_idx ON public.task_attachments (task_id);
+
+ALTER TABLE public.task_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments on their tasks"
+ON public.task_attachments
+FOR SELECT
+USING (public.can_view_task(task_id));
+
+CREATE POLICY "Users can attach files to their tasks"
+ON public.task_attachments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = uploaded_by
+  AND public.can_view_task(task_id)
+  AND split_part(file_path, '/', 1) = task_id::text
+);
+
+CREATE POLICY "Users can delete their own attachments"
+ON public.task_attachments
+FOR DELETE
+USING (auth.uid() = uploaded_by);
+
+-- Re-create the workflow check with the deliverable requirement
+CREATE OR REPLACE FUNCTION public.enforce_task_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  is_reviewer boolean;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Service role and scheduled jobs are not bound by the workflow
+  IF auth.uid() IS NOT NULL THEN
+    is_reviewer := OLD.created_by = auth.uid()
+      OR public.is_supervisor_of(OLD.assigned_to)
+      OR public.get_current_user_role() = 'admin';
+
+    IF (OLD.status, NEW.status) IN (('todo', 'in_progress'), ('in_progress', 'in_review')) THEN
+      IF OLD.assigned_to IS DISTINCT FROM auth.uid() AND NOT is_reviewer THEN
+        RAISE EXCEPTION 'Only the assignee can move this task';
+      END IF;
+    ELSIF (OLD.status, NEW.status) IN (('in_review', 'done'), ('in_review', 'in_progress')) THEN
+      IF NOT is_reviewer THEN
+        RAISE EXCEPTION 'Only a supervisor can review this task';
+      END IF;
+
+      IF NEW.status = 'in_progress' AND coalesce(trim(NEW.review_note), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required when requesting changes';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('in_review', 'done')
+    AND NEW.requires_deliverable
+    AND NOT EXISTS (SELECT 1 FROM public.task_attachments WHERE task_id = NEW.id) THEN
+    RAISE EXCEPTION 'A deliverable must be attached before this task can be submitted';
+  END IF;
+
+  IF NEW.status = 'done' THEN
+    NEW.completed_at := now();
+    NEW.review_note := NULL;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
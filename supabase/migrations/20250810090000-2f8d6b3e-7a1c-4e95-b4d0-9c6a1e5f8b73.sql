@@ -0,0 +1,175 @@
+-- Reusable task templates
+CREATE TABLE public.task_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  checklist TEXT[] NOT NULL DEFAULT '{}',
+  due_offset_days INTEGER CHECK (due_offset_days IS NULL OR due_offset_days >= 0),
+  requires_deliverable BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+-- Recurrence rules that spawn tasks from a template, either for one intern or a whole department
+CREATE TABLE public.task_recurrences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.task_templates(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+  assignee_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  department TEXT,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  next_run_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CHECK ((assignee_id IS NOT NULL) <> (department IS NOT NULL)),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX task_recurrences_next_run_idx ON public.task_recurrences (next_run_date) WHERE is_active;
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Supervisors can manage their task templates"
+ON public.task_templates
+FOR ALL
+USING (auth.uid() = created_by OR public.get_current_user_role() = 'admin')
+WITH CHECK (auth.uid() = created_by AND public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Supervisors can manage their recurrences"
+ON public.task_recurrences
+FOR ALL
+USING (auth.uid() = created_by OR public.get_current_user_role() = 'admin')
+WITH CHECK (auth.uid() = created_by AND public.get_current_user_role() IN ('supervisor', 'admin'));
+
+-- Creates one task (with checklist) per assignee from a template
+CREATE OR REPLACE FUNCTION public.spawn_tasks_from_template(_template_id uuid, _assignee_ids uuid[], _created_by uuid, _run_date date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  template public.task_templates%ROWTYPE;
+  assignee uuid;
+  new_task_id uuid;
+  spawned integer := 0;
+BEGIN
+  SELECT * INTO template FROM public.task_templates WHERE id = _template_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOREACH assignee IN ARRAY _assignee_ids LOOP
+    INSERT INTO public.tasks (title, description, priority, due_date, created_by, assigned_to, status, requires_deliverable, position)
+    VALUES (
+      template.title,
+      template.description,
+      template.priority,
+      CASE WHEN template.due_offset_days IS NOT NULL THEN _run_date + template.due_offset_days END,
+      _created_by,
+      assignee,
+      'todo',
+      template.requires_deliverable,
+      coalesce((SELECT min(position) FROM public.tasks WHERE status = 'todo'), 0) - 1
+    )
+    RETURNING id INTO new_task_id;
+
+    INSERT INTO public.task_checklist_items (task_id, title, position)
+    SELECT new_task_id, item.title, item.ordinality - 1
+    FROM unnest(template.checklist) WITH ORDINALITY AS item(title, ordinality);
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      assignee,
+      'New Task Assigned',
+      format('You have been assigned a new task: "%s"', template.title),
+      'info',
+      jsonb_build_object('taskId', new_task_id, 'taskTitle', template.title)
+    );
+
+    spawned := spawned + 1;
+  END LOOP;
+
+  RETURN spawned;
+END;
+$function$;
+
+-- Spawns tasks for every recurrence that is due and advances its next run date
+CREATE OR REPLACE FUNCTION public.run_task_recurrences()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  recurrence public.task_recurrences%ROWTYPE;
+  assignees uuid[];
+  spawned integer := 0;
+BEGIN
+  FOR recurrence IN
+    SELECT * FROM public.task_recurrences
+    WHERE is_active
+    AND next_run_date <= CURRENT_DATE
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF recurrence.end_date IS NOT NULL AND recurrence.next_run_date > recurrence.end_date THEN
+      UPDATE public.task_recurrences SET is_active = false WHERE id = recurrence.id;
+      CONTINUE;
+    END IF;
+
+    IF recurrence.assignee_id IS NOT NULL THEN
+      assignees := ARRAY[recurrence.assignee_id];
+    ELSE
+      -- Active interns in the department; supervisors only reach the interns they mentor
+      SELECT coalesce(array_agg(p.id), '{}') INTO assignees
+      FROM public.profiles p
+      WHERE p.role = 'intern'
+      AND p.status = 'active'
+      AND p.department = recurrence.department
+      AND (
+        EXISTS (SELECT 1 FROM public.profiles c WHERE c.id = recurrence.created_by AND c.role = 'admin')
+        OR EXISTS (
+          SELECT 1 FROM public.supervisor_assignments sa
+          WHERE sa.intern_id = p.id
+          AND sa.supervisor_id = recurrence.created_by
+          AND sa.start_date <= CURRENT_DATE
+          AND (sa.end_date IS NULL OR sa.end_date >= CURRENT_DATE)
+        )
+      );
+    END IF;
+
+    spawned := spawned + public.spawn_tasks_from_template(recurrence.template_id, assignees, recurrence.created_by, recurrence.next_run_date);
+
+    UPDATE public.task_recurrences
+    SET
+      last_run_at = now(),
+      next_run_date = CASE recurrence.frequency
+        WHEN 'daily' THEN recurrence.next_run_date + recurrence.interval
+        WHEN 'weekly' THEN recurrence.next_run_date + recurrence.interval * 7
+        ELSE (recurrence.next_run_date + make_interval(months => recurrence.interval))::date
+      END
+    WHERE id = recurrence.id;
+  END LOOP;
+
+  RETURN spawned;
+END;
+$function$;
+
+-- Only the scheduler should run these
+REVOKE EXECUTE ON FUNCTION public.spawn_tasks_from_template(uuid, uuid[], uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_task_recurrences() FROM PUBLIC, anon, authenticated;
+
+-- Run every day just after midnight UTC, the same day boundary the app uses for dates
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'spawn-recurring-tasks',
+  '5 0 * * *',
+  $$SELECT public.run_task_recurrences();$$
+);
@@ -0,0 +1,133 @@
+-- A task can be blocked by other tasks that must be finished first
+CREATE TABLE public.task_dependencies (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  depends_on_task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  PRIMARY KEY (task_id, depends_on_task_id),
+  CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX task_dependencies_depends_on_idx ON public.task_dependencies (depends_on_task_id);
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view dependencies of their tasks"
+ON public.task_dependencies
+FOR SELECT
+USING (public.can_view_task(task_id));
+
+CREATE POLICY "Task creators can manage dependencies"
+ON public.task_dependencies
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_dependencies.task_id
+    AND (tasks.created_by = auth.uid() OR public.get_current_user_role() = 'admin')
+  )
+)
+WITH CHECK (
+  public.can_view_task(depends_on_task_id)
+  AND EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_dependencies.task_id
+    AND (tasks.created_by = auth.uid() OR public.get_current_user_role() = 'admin')
+  )
+);
+
+-- Reject a dependency when the blocking task already (transitively) depends on the blocked one
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE upstream AS (
+      SELECT depends_on_task_id AS id
+      FROM public.task_dependencies
+      WHERE task_id = NEW.depends_on_task_id
+      UNION
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      JOIN upstream u ON d.task_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'This dependency would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_task_dependency_cycle
+BEFORE INSERT OR UPDATE ON public.task_dependencies
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+-- Re-create the workflow check so blocked tasks cannot be started
+CREATE OR REPLACE FUNCTION public.enforce_task_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  is_reviewer boolean;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Service role and scheduled jobs are not bound by the workflow
+  IF auth.uid() IS NOT NULL THEN
+    is_reviewer := OLD.created_by = auth.uid()
+      OR public.is_supervisor_of(OLD.assigned_to)
+      OR public.get_current_user_role() = 'admin';
+
+    IF (OLD.status, NEW.status) IN (('todo', 'in_progress'), ('in_progress', 'in_review')) THEN
+      IF OLD.assigned_to IS DISTINCT FROM auth.uid() AND NOT is_reviewer THEN
+        RAISE EXCEPTION 'Only the assignee can move this task';
+      END IF;
+    ELSIF (OLD.status, NEW.status) IN (('in_review', 'done'), ('in_review', 'in_progress')) THEN
+      IF NOT is_reviewer THEN
+        RAISE EXCEPTION 'Only a supervisor can review this task';
+      END IF;
+
+      IF NEW.status = 'in_progress' AND coalesce(trim(NEW.review_note), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required when requesting changes';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+
+  IF OLD.status = 'todo' AND EXISTS (
+    SELECT 1
+    FROM public.task_dependencies d
+    JOIN public.tasks blocker ON blocker.id = d.depends_on_task_id
+    WHERE d.task_id = NEW.id
+    AND blocker.status <> 'done'
+  ) THEN
+    RAISE EXCEPTION 'This task is blocked by unfinished tasks';
+  END IF;
+
+  IF NEW.status IN ('in_review', 'done')
+    AND NEW.requires_deliverable
+    AND NOT EXISTS (SELECT 1 FROM public.task_attachments WHERE task_id = NEW.id) THEN
+    RAISE EXCEPTION 'A deliverable must be attached before this task can be submitted';
+  END IF;
+
+  IF NEW.status = 'done' THEN
+    NEW.completed_at := now();
+    NEW.review_note := NULL;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,137 @@
+-- Effort estimate for planning against actual time spent
+ALTER TABLE public.tasks ADD COLUMN estimated_hours NUMERIC(6,2) CHECK (estimated_hours IS NULL OR estimated_hours > 0);
+
+-- Time spent on a task; a row without ended_at is a running timer
+CREATE TABLE public.task_time_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  intern_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  is_manual BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX task_time_logs_task_idx ON public.task_time_logs (task_id);
+CREATE INDEX task_time_logs_intern_started_idx ON public.task_time_logs (intern_id, started_at);
+
+-- Only one timer can run at a time per intern
+CREATE UNIQUE INDEX task_time_logs_running_idx ON public.task_time_logs (intern_id) WHERE ended_at IS NULL;
+
+ALTER TABLE public.task_time_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Interns, their supervisors and admins can view time logs"
+ON public.task_time_logs
+FOR SELECT
+USING (
+  intern_id = auth.uid()
+  OR public.is_supervisor_of(intern_id)
+  OR public.get_current_user_role() = 'admin'
+);
+
+CREATE POLICY "Interns can log time on their own tasks"
+ON public.task_time_logs
+FOR INSERT
+WITH CHECK (
+  intern_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_time_logs.task_id
+    AND tasks.assigned_to = auth.uid()
+  )
+);
+
+CREATE POLICY "Interns can update their own time logs"
+ON public.task_time_logs
+FOR UPDATE
+USING (intern_id = auth.uid())
+WITH CHECK (intern_id = auth.uid());
+
+CREATE POLICY "Interns can delete their own time logs"
+ON public.task_time_logs
+FOR DELETE
+USING (intern_id = auth.uid());
+
+CREATE TRIGGER update_task_time_logs_updated_at
+BEFORE UPDATE ON public.task_time_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Time can only be logged inside the day's check-in/check-out window, so logged
+-- hours never exceed hours on site
+CREATE OR REPLACE FUNCTION public.validate_task_time_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _log_date date := (NEW.started_at AT TIME ZONE 'utc')::date;
+  _check_in timestamptz;
+  _check_out timestamptz;
+BEGIN
+  IF NEW.ended_at IS NOT NULL AND NEW.ended_at <= NEW.started_at THEN
+    RAISE EXCEPTION 'A time log must end after it starts';
+  END IF;
+
+  IF NEW.ended_at IS NOT NULL AND (NEW.ended_at AT TIME ZONE 'utc')::date <> _log_date THEN
+    RAISE EXCEPTION 'A time log cannot span more than one day';
+  END IF;
+
+  SELECT check_in_time, check_out_time INTO _check_in, _check_out
+  FROM public.attendance
+  WHERE user_id = NEW.intern_id AND date = _log_date;
+
+  IF _check_in IS NULL THEN
+    RAISE EXCEPTION 'No check-in recorded on %', _log_date;
+  END IF;
+
+  -- A small allowance covers clock drift between the browser and the database
+  IF NEW.started_at < _check_in - interval '1 minute'
+     OR COALESCE(NEW.ended_at, NEW.started_at) > COALESCE(_check_out, now()) + interval '1 minute' THEN
+    RAISE EXCEPTION 'Time must be logged between check-in and check-out';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.task_time_logs
+    WHERE intern_id = NEW.intern_id
+    AND id <> NEW.id
+    AND tstzrange(started_at, COALESCE(ended_at, now())) && tstzrange(NEW.started_at, COALESCE(NEW.ended_at, now()))
+  ) THEN
+    RAISE EXCEPTION 'This time overlaps another time log';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_task_time_log
+BEFORE INSERT OR UPDATE OF started_at, ended_at ON public.task_time_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_task_time_log();
+
+-- Checking out stops any timer that is still running
+CREATE OR REPLACE FUNCTION public.stop_running_timers_on_check_out()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.check_out_time IS NOT NULL AND OLD.check_out_time IS DISTINCT FROM NEW.check_out_time THEN
+    UPDATE public.task_time_logs
+    SET ended_at = GREATEST(NEW.check_out_time, started_at + interval '1 second')
+    WHERE intern_id = NEW.user_id
+    AND ended_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER stop_running_timers_on_check_out
+AFTER UPDATE OF check_out_time ON public.attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.stop_running_timers_on_check_out();
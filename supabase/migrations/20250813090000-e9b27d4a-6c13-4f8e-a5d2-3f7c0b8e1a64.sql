@@ -0,0 +1,102 @@
+-- Reminders and escalations already sent, so the scheduler notifies each tier once per due date
+CREATE TABLE public.task_escalations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  tier TEXT NOT NULL CHECK (tier IN ('due_soon', 'overdue', 'escalated', 'critical')),
+  due_date DATE NOT NULL,
+  recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE (task_id, tier, due_date)
+);
+
+ALTER TABLE public.task_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view escalations of tasks they can see"
+ON public.task_escalations
+FOR SELECT
+USING (public.can_view_task(task_id));
+
+-- Tiers, by days relative to the due date:
+--   due_soon   due today or tomorrow      -> assignee
+--   overdue    past due                   -> assignee
+--   escalated  3 to 6 days past due       -> task creator
+--   critical   7 or more days past due    -> task creator
+-- Tasks waiting in review are the supervisor's move, so only open work is chased.
+CREATE OR REPLACE FUNCTION public.run_task_escalations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  candidate record;
+  sent integer := 0;
+BEGIN
+  FOR candidate IN
+    SELECT
+      t.id,
+      t.title,
+      t.due_date::date AS due_date,
+      p.full_name AS intern_name,
+      tier.name AS tier,
+      CASE WHEN tier.name IN ('due_soon', 'overdue') THEN t.assigned_to ELSE t.created_by END AS recipient_id,
+      CURRENT_DATE - t.due_date::date AS days_overdue
+    FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.assigned_to
+    CROSS JOIN LATERAL (
+      VALUES
+        ('due_soon', t.due_date::date BETWEEN CURRENT_DATE AND CURRENT_DATE + 1),
+        ('overdue', t.due_date::date < CURRENT_DATE),
+        ('escalated', t.due_date::date BETWEEN CURRENT_DATE - 6 AND CURRENT_DATE - 3),
+        ('critical', t.due_date::date <= CURRENT_DATE - 7)
+    ) AS tier(name, applies)
+    WHERE tier.applies
+    AND t.status IN ('todo', 'in_progress')
+    AND t.due_date IS NOT NULL
+    AND t.created_by IS NOT NULL
+  LOOP
+    INSERT INTO public.task_escalations (task_id, tier, due_date, recipient_id)
+    VALUES (candidate.id, candidate.tier, candidate.due_date, candidate.recipient_id)
+    ON CONFLICT (task_id, tier, due_date) DO NOTHING;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      candidate.recipient_id,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN 'Task Due Soon'
+        WHEN 'overdue' THEN 'Task Overdue'
+        WHEN 'escalated' THEN 'Overdue Task Escalated'
+        ELSE 'Task Seriously Overdue'
+      END,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN format('"%s" is due on %s', candidate.title, to_char(candidate.due_date, 'Mon DD'))
+        WHEN 'overdue' THEN format('"%s" was due on %s and is now overdue', candidate.title, to_char(candidate.due_date, 'Mon DD'))
+        ELSE format('%s''s task "%s" is %s days overdue', candidate.intern_name, candidate.title, candidate.days_overdue)
+      END,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN 'info'
+        WHEN 'critical' THEN 'error'
+        ELSE 'warning'
+      END,
+      jsonb_build_object('taskId', candidate.id, 'taskTitle', candidate.title, 'tier', candidate.tier)
+    );
+
+    sent := sent + 1;
+  END LOOP;
+
+  RETURN sent;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.run_task_escalations() FROM PUBLIC, anon, authenticated;
+
+-- 03:00 UTC is 08:45 in Nepal, so reminders arrive at the start of the working day
+SELECT cron.schedule(
+  'task-deadline-escalations',
+  '0 3 * * *',
+  $$SELECT public.run_task_escalations();$$
+);
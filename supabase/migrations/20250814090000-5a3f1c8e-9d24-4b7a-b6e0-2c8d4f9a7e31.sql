@@ -0,0 +1,23 @@
+-- Free-form labels on tasks
+ALTER TABLE public.tasks ADD COLUMN labels TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX tasks_labels_idx ON public.tasks USING GIN (labels);
+
+-- Named filter presets, private to the user who saved them
+CREATE TABLE public.saved_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  board TEXT NOT NULL DEFAULT 'tasks',
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE (user_id, board, name)
+);
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own saved views"
+ON public.saved_views
+FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
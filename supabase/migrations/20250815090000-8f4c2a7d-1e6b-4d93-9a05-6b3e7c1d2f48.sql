@@ -0,0 +1,10 @@
+-- Copies of one task assigned to several interns at once share a batch id
+ALTER TABLE public.tasks ADD COLUMN batch_id UUID;
+
+CREATE INDEX tasks_batch_id_idx ON public.tasks (batch_id) WHERE batch_id IS NOT NULL;
+
+-- Bulk delete from the task board
+CREATE POLICY "Task creators can delete their tasks"
+ON public.tasks
+FOR DELETE
+USING (created_by = auth.uid() OR public.get_current_user_role() = 'admin');
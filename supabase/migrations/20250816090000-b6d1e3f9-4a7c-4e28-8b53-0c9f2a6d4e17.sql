@@ -0,0 +1,31 @@
+-- Details captured when interns are imported in bulk, used to pre-fill sign-up
+ALTER TABLE public.invitations ADD COLUMN full_name TEXT;
+ALTER TABLE public.invitations ADD COLUMN phone TEXT;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.get_invitation(text);
+
+CREATE OR REPLACE FUNCTION public.get_invitation(invite_token text)
+RETURNS TABLE (
+  email text,
+  role text,
+  department text,
+  supervisor_id uuid,
+  invited_by uuid,
+  expires_at timestamp with time zone,
+  full_name text,
+  phone text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT i.email, i.role, i.department, i.supervisor_id, i.invited_by, i.expires_at, i.full_name, i.phone
+  FROM public.invitations i
+  WHERE i.token = invite_token
+  AND i.accepted_at IS NULL
+  AND i.expires_at > now();
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation(text) TO anon, authenticated;
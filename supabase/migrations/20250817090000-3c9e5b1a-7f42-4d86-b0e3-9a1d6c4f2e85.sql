@@ -0,0 +1,286 @@
+-- Yearly leave allowance per leave type, maintained by admins. NULL annual_days means unlimited.
+CREATE TABLE public.leave_policies (
+  leave_type TEXT NOT NULL PRIMARY KEY CHECK (leave_type IN ('sick', 'casual', 'exam', 'official')),
+  annual_days INTEGER CHECK (annual_days IS NULL OR annual_days >= 0),
+  requires_attachment BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+INSERT INTO public.leave_policies (leave_type, annual_days, requires_attachment)
+VALUES
+  ('sick', 12, false),
+  ('casual', 6, false),
+  ('exam', 10, true),
+  ('official', NULL, false);
+
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view leave policies"
+ON public.leave_policies
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update leave policies"
+ON public.leave_policies
+FOR UPDATE
+USING (public.get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_leave_policies_updated_at
+BEFORE UPDATE ON public.leave_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE public.leave_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  intern_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL REFERENCES public.leave_policies(leave_type),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT NOT NULL,
+  attachment_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX leave_requests_intern_id_idx ON public.leave_requests (intern_id, start_date);
+
+ALTER TABLE public.leave_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Interns can view their own leave requests"
+ON public.leave_requests
+FOR SELECT
+USING (auth.uid() = intern_id);
+
+CREATE POLICY "Supervisors can view their interns' leave requests"
+ON public.leave_requests
+FOR SELECT
+USING (public.is_supervisor_of(intern_id) OR public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Interns can request leave"
+ON public.leave_requests
+FOR INSERT
+WITH CHECK (auth.uid() = intern_id AND status = 'pending');
+
+CREATE POLICY "Interns and their supervisors can update leave requests"
+ON public.leave_requests
+FOR UPDATE
+USING (
+  auth.uid() = intern_id
+  OR public.is_supervisor_of(intern_id)
+  OR public.get_current_user_role() = 'admin'
+);
+
+CREATE TRIGGER update_leave_requests_updated_at
+BEFORE UPDATE ON public.leave_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Working days in a date range. Saturday is the weekly holiday in Nepal.
+CREATE OR REPLACE FUNCTION public.leave_days(_start_date date, _end_date date)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT count(*)::integer
+  FROM generate_series(_start_date, _end_date, interval '1 day') AS day
+  WHERE extract(isodow FROM day) <> 6;
+$function$;
+
+-- Days used and pending per leave type in the current year, against the policy allowance
+CREATE OR REPLACE FUNCTION public.get_leave_balances(_intern_id uuid)
+RETURNS TABLE (
+  leave_type text,
+  annual_days integer,
+  requires_attachment boolean,
+  used_days integer,
+  pending_days integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  SELECT
+    p.leave_type,
+    p.annual_days,
+    p.requires_attachment,
+    coalesce(sum(public.leave_days(r.start_date, r.end_date)) FILTER (WHERE r.status = 'approved'), 0)::integer,
+    coalesce(sum(public.leave_days(r.start_date, r.end_date)) FILTER (WHERE r.status = 'pending'), 0)::integer
+  FROM public.leave_policies p
+  LEFT JOIN public.leave_requests r
+    ON r.leave_type = p.leave_type
+    AND r.intern_id = _intern_id
+    AND date_trunc('year', r.start_date) = date_trunc('year', CURRENT_DATE)
+  GROUP BY p.leave_type, p.annual_days, p.requires_attachment
+  ORDER BY p.leave_type;
+$function$;
+
+-- New requests must fit the remaining allowance and not overlap another request.
+-- Afterwards only the status moves: the intern may cancel, a supervisor or admin reviews.
+CREATE OR REPLACE FUNCTION public.validate_leave_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  policy public.leave_policies%ROWTYPE;
+  booked integer;
+  is_reviewer boolean;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO policy FROM public.leave_policies WHERE leave_type = NEW.leave_type;
+
+    IF public.leave_days(NEW.start_date, NEW.end_date) = 0 THEN
+      RAISE EXCEPTION 'The selected dates contain no working days';
+    END IF;
+
+    IF policy.requires_attachment AND NEW.attachment_path IS NULL THEN
+      RAISE EXCEPTION 'A supporting document is required for % leave', NEW.leave_type;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.leave_requests
+      WHERE intern_id = NEW.intern_id
+      AND status IN ('pending', 'approved')
+      AND daterange(start_date, end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+    ) THEN
+      RAISE EXCEPTION 'You already have a leave request covering these dates';
+    END IF;
+
+    IF policy.annual_days IS NOT NULL THEN
+      SELECT coalesce(sum(public.leave_days(start_date, end_date)), 0) INTO booked
+      FROM public.leave_requests
+      WHERE intern_id = NEW.intern_id
+      AND leave_type = NEW.leave_type
+      AND status IN ('pending', 'approved')
+      AND date_trunc('year', start_date) = date_trunc('year', NEW.start_date);
+
+      IF booked + public.leave_days(NEW.start_date, NEW.end_date) > policy.annual_days THEN
+        RAISE EXCEPTION 'Not enough % leave remaining: % of % days already booked this year',
+          NEW.leave_type, booked, policy.annual_days;
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.intern_id, NEW.leave_type, NEW.start_date, NEW.end_date, NEW.reason, NEW.attachment_path)
+    IS DISTINCT FROM (OLD.intern_id, OLD.leave_type, OLD.start_date, OLD.end_date, OLD.reason, OLD.attachment_path) THEN
+    RAISE EXCEPTION 'A leave request cannot be edited once submitted';
+  END IF;
+
+  IF NEW.status = OLD.status OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  is_reviewer := public.is_supervisor_of(OLD.intern_id) OR public.get_current_user_role() = 'admin';
+
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected') THEN
+    IF NOT is_reviewer THEN
+      RAISE EXCEPTION 'Only a supervisor can review leave requests';
+    END IF;
+
+    IF NEW.status = 'rejected' AND coalesce(trim(NEW.review_note), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required when rejecting a leave request';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSIF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'approved') THEN
+    IF OLD.intern_id <> auth.uid() AND NOT is_reviewer THEN
+      RAISE EXCEPTION 'Only the intern can cancel this leave request';
+    END IF;
+
+    IF OLD.status = 'approved' AND OLD.start_date <= CURRENT_DATE AND NOT is_reviewer THEN
+      RAISE EXCEPTION 'Leave that has already started can only be cancelled by a supervisor';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_leave_request
+BEFORE INSERT OR UPDATE ON public.leave_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_leave_request();
+
+-- Approved leave marks each working day as on_leave; cancelling it clears those days again.
+-- Days the intern actually checked in on are left alone.
+CREATE OR REPLACE FUNCTION public.sync_leave_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status <> 'approved' THEN
+    INSERT INTO public.attendance (user_id, date, status, notes)
+    SELECT NEW.intern_id, day::date, 'on_leave', initcap(NEW.leave_type) || ' leave'
+    FROM generate_series(NEW.start_date, NEW.end_date, interval '1 day') AS day
+    WHERE extract(isodow FROM day) <> 6
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET status = 'on_leave', notes = EXCLUDED.notes
+      WHERE attendance.check_in_time IS NULL;
+  ELSIF OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    DELETE FROM public.attendance
+    WHERE user_id = NEW.intern_id
+    AND date BETWEEN NEW.start_date AND NEW.end_date
+    AND status = 'on_leave'
+    AND check_in_time IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_leave_attendance
+AFTER UPDATE OF status ON public.leave_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_leave_attendance();
+
+-- Private bucket for supporting documents, stored under <intern_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'leave-attachments',
+  'leave-attachments',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Interns and their supervisors can read leave files"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'leave-attachments'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR public.is_supervisor_of(((storage.foldername(name))[1])::uuid)
+    OR public.get_current_user_role() = 'admin'
+  )
+);
+
+CREATE POLICY "Interns can upload their own leave files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'leave-attachments'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Uploaders can delete their leave files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'leave-attachments'
+  AND owner = auth.uid()
+);
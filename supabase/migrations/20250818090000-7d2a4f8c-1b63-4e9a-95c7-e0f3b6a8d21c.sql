@@ -0,0 +1,207 @@
+-- Every manual change to an attendance record, with who made it and why
+CREATE TABLE public.attendance_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'correction')),
+  reason TEXT NOT NULL,
+  old_check_in_time TIMESTAMP WITH TIME ZONE,
+  new_check_in_time TIMESTAMP WITH TIME ZONE,
+  old_check_out_time TIMESTAMP WITH TIME ZONE,
+  new_check_out_time TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX attendance_audit_attendance_id_idx ON public.attendance_audit (attendance_id, created_at);
+
+ALTER TABLE public.attendance_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the audit trail of their own attendance"
+ON public.attendance_audit
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Supervisors can view their interns' attendance audit trail"
+ON public.attendance_audit
+FOR SELECT
+USING (public.is_supervisor_of(user_id) OR public.get_current_user_role() = 'admin');
+
+-- Times an intern asks to have recorded, e.g. after forgetting to check out
+CREATE TABLE public.attendance_corrections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  proposed_check_in_time TIMESTAMP WITH TIME ZONE,
+  proposed_check_out_time TIMESTAMP WITH TIME ZONE,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CHECK (proposed_check_in_time IS NOT NULL OR proposed_check_out_time IS NOT NULL),
+  CHECK (proposed_check_out_time IS NULL OR proposed_check_in_time IS NULL OR proposed_check_out_time > proposed_check_in_time)
+);
+
+-- One open request per day at a time
+CREATE UNIQUE INDEX attendance_corrections_pending_idx
+ON public.attendance_corrections (user_id, date)
+WHERE status = 'pending';
+
+ALTER TABLE public.attendance_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own correction requests"
+ON public.attendance_corrections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Supervisors can view their interns' correction requests"
+ON public.attendance_corrections
+FOR SELECT
+USING (public.is_supervisor_of(user_id) OR public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Users can request corrections to their own attendance"
+ON public.attendance_corrections
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+-- Writes new times to an attendance record and logs the change. Returns the attendance id.
+CREATE OR REPLACE FUNCTION public.apply_attendance_change(
+  _user_id uuid,
+  _date date,
+  _check_in_time timestamp with time zone,
+  _check_out_time timestamp with time zone,
+  _source text,
+  _reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  existing public.attendance%ROWTYPE;
+  changed_id uuid;
+BEGIN
+  IF _check_in_time IS NOT NULL AND _check_out_time IS NOT NULL AND _check_out_time <= _check_in_time THEN
+    RAISE EXCEPTION 'Check out must be after check in';
+  END IF;
+
+  SELECT * INTO existing FROM public.attendance WHERE user_id = _user_id AND date = _date;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO public.attendance (user_id, date, check_in_time, check_out_time, status)
+    VALUES (_user_id, _date, _check_in_time, _check_out_time, 'present')
+    RETURNING id INTO changed_id;
+  ELSE
+    changed_id := existing.id;
+
+    UPDATE public.attendance
+    SET
+      check_in_time = coalesce(_check_in_time, check_in_time),
+      check_out_time = coalesce(_check_out_time, check_out_time),
+      status = CASE WHEN status = 'on_leave' THEN 'present' ELSE status END
+    WHERE id = existing.id;
+  END IF;
+
+  INSERT INTO public.attendance_audit (
+    attendance_id, user_id, changed_by, source, reason,
+    old_check_in_time, new_check_in_time, old_check_out_time, new_check_out_time
+  )
+  VALUES (
+    changed_id, _user_id, auth.uid(), _source, _reason,
+    existing.check_in_time, coalesce(_check_in_time, existing.check_in_time),
+    existing.check_out_time, coalesce(_check_out_time, existing.check_out_time)
+  );
+
+  RETURN changed_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_attendance_change(uuid, date, timestamp with time zone, timestamp with time zone, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Supervisor edit of an intern's record; a reason is required and ends up in the audit trail
+CREATE OR REPLACE FUNCTION public.edit_attendance(
+  _attendance_id uuid,
+  _reason text,
+  _check_in_time timestamp with time zone DEFAULT NULL,
+  _check_out_time timestamp with time zone DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  target public.attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.attendance WHERE id = _attendance_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Attendance record not found';
+  END IF;
+
+  IF NOT (public.is_supervisor_of(target.user_id) OR public.get_current_user_role() = 'admin') THEN
+    RAISE EXCEPTION 'Only a supervisor can edit this attendance record';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required when editing attendance';
+  END IF;
+
+  PERFORM public.apply_attendance_change(target.user_id, target.date, _check_in_time, _check_out_time, 'manual', trim(_reason));
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.review_attendance_correction(
+  _correction_id uuid,
+  _approve boolean,
+  _note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  correction public.attendance_corrections%ROWTYPE;
+BEGIN
+  SELECT * INTO correction FROM public.attendance_corrections WHERE id = _correction_id FOR UPDATE;
+
+  IF correction.id IS NULL THEN
+    RAISE EXCEPTION 'Correction request not found';
+  END IF;
+
+  IF NOT (public.is_supervisor_of(correction.user_id) OR public.get_current_user_role() = 'admin') THEN
+    RAISE EXCEPTION 'Only a supervisor can review this correction request';
+  END IF;
+
+  IF correction.status <> 'pending' THEN
+    RAISE EXCEPTION 'This correction request has already been reviewed';
+  END IF;
+
+  IF NOT _approve AND coalesce(trim(_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required when rejecting a correction request';
+  END IF;
+
+  UPDATE public.attendance_corrections
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_note = nullif(trim(_note), '')
+  WHERE id = _correction_id;
+
+  IF _approve THEN
+    PERFORM public.apply_attendance_change(
+      correction.user_id,
+      correction.date,
+      correction.proposed_check_in_time,
+      correction.proposed_check_out_time,
+      'correction',
+      correction.reason
+    );
+  END IF;
+END;
+$function$;
@@ -0,0 +1,150 @@
+-- Shift schedules per department. The row without a department applies to everyone else.
+CREATE TABLE public.work_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  department TEXT UNIQUE,
+  start_time TIME NOT NULL DEFAULT '09:00',
+  end_time TIME NOT NULL DEFAULT '17:00',
+  grace_minutes INTEGER NOT NULL DEFAULT 15 CHECK (grace_minutes >= 0),
+  required_hours NUMERIC(4,2) NOT NULL DEFAULT 8 CHECK (required_hours > 0),
+  half_day_hours NUMERIC(4,2) NOT NULL DEFAULT 4 CHECK (half_day_hours > 0),
+  -- ISO weekdays, 1 = Monday ... 7 = Sunday
+  working_days INTEGER[] NOT NULL DEFAULT '{7,1,2,3,4,5}' CHECK (working_days <@ '{1,2,3,4,5,6,7}'),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kathmandu',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CHECK (end_time > start_time),
+  CHECK (half_day_hours <= required_hours)
+);
+
+CREATE UNIQUE INDEX work_schedules_default_idx ON public.work_schedules ((department IS NULL)) WHERE department IS NULL;
+
+INSERT INTO public.work_schedules (department) VALUES (NULL);
+
+ALTER TABLE public.work_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view work schedules"
+ON public.work_schedules
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage work schedules"
+ON public.work_schedules
+FOR ALL
+USING (public.get_current_user_role() = 'admin')
+WITH CHECK (public.get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_work_schedules_updated_at
+BEFORE UPDATE ON public.work_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- The department's schedule, falling back to the default one
+CREATE OR REPLACE FUNCTION public.get_work_schedule(_user_id uuid)
+RETURNS public.work_schedules
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT s.*
+  FROM public.work_schedules s
+  LEFT JOIN public.profiles p ON p.id = _user_id
+  WHERE s.department = p.department OR s.department IS NULL
+  ORDER BY s.department IS NULL
+  LIMIT 1;
+$function$;
+
+-- Derives the status from the recorded times, most serious first:
+--   half_day     worked less than half_day_hours
+--   early_leave  left before end_time without working required_hours
+--   late         checked in after start_time plus the grace period
+--   present      otherwise
+-- Days without a check-in keep their status (on_leave, absent).
+CREATE OR REPLACE FUNCTION public.compute_attendance_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  schedule public.work_schedules%ROWTYPE;
+  local_check_in timestamp;
+  local_check_out timestamp;
+  worked_hours numeric;
+BEGIN
+  IF NEW.check_in_time IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  schedule := public.get_work_schedule(NEW.user_id);
+  local_check_in := NEW.check_in_time AT TIME ZONE schedule.timezone;
+
+  IF NEW.check_out_time IS NOT NULL THEN
+    local_check_out := NEW.check_out_time AT TIME ZONE schedule.timezone;
+    worked_hours := extract(epoch FROM NEW.check_out_time - NEW.check_in_time) / 3600;
+
+    IF worked_hours < schedule.half_day_hours THEN
+      NEW.status := 'half_day';
+      RETURN NEW;
+    END IF;
+
+    IF worked_hours < schedule.required_hours AND local_check_out::time < schedule.end_time THEN
+      NEW.status := 'early_leave';
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF local_check_in::time > schedule.start_time + make_interval(mins => schedule.grace_minutes) THEN
+    NEW.status := 'late';
+  ELSE
+    NEW.status := 'present';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER compute_attendance_status
+BEFORE INSERT OR UPDATE OF check_in_time, check_out_time, status ON public.attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.compute_attendance_status();
+
+-- Re-derive the status of existing check-ins
+UPDATE public.attendance SET status = status WHERE check_in_time IS NOT NULL;
+
+-- Records an absence for every active intern who was scheduled to work on the given day
+-- but has no attendance row (neither a check-in nor approved leave)
+CREATE OR REPLACE FUNCTION public.mark_absences(_date date DEFAULT CURRENT_DATE - 1)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  marked integer;
+BEGIN
+  INSERT INTO public.attendance (user_id, date, status)
+  SELECT p.id, _date, 'absent'
+  FROM public.profiles p
+  WHERE p.role = 'intern'
+  AND p.status = 'active'
+  AND p.created_at::date <= _date
+  AND extract(isodow FROM _date)::integer = ANY ((public.get_work_schedule(p.id)).working_days)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.attendance a WHERE a.user_id = p.id AND a.date = _date
+  )
+  ON CONFLICT (user_id, date) DO NOTHING;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_absences(date) FROM PUBLIC, anon, authenticated;
+
+-- 00:30 UTC is 06:15 in Nepal, well after the previous working day has ended
+SELECT cron.schedule(
+  'mark-attendance-absences',
+  '30 0 * * *',
+  $$SELECT public.mark_absences();$$
+);
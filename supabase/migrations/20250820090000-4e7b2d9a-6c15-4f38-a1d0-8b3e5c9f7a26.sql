@@ -0,0 +1,193 @@
+-- Public holidays observed by the organisation. Attendance and deadline jobs treat them like Saturdays.
+CREATE TABLE public.holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  date DATE NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view holidays"
+ON public.holidays
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage holidays"
+ON public.holidays
+FOR ALL
+USING (public.get_current_user_role() = 'admin')
+WITH CHECK (public.get_current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION public.is_holiday(_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (SELECT 1 FROM public.holidays WHERE date = _date);
+$function$;
+
+-- Days in the range that are neither Saturdays nor holidays
+CREATE OR REPLACE FUNCTION public.working_days_between(_start_date date, _end_date date)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT count(*)::integer
+  FROM generate_series(_start_date, _end_date, interval '1 day') AS day
+  WHERE extract(isodow FROM day) <> 6
+  AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = day::date);
+$function$;
+
+-- Holidays no longer count against the leave allowance
+CREATE OR REPLACE FUNCTION public.leave_days(_start_date date, _end_date date)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  SELECT public.working_days_between(_start_date, _end_date);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.sync_leave_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status <> 'approved' THEN
+    INSERT INTO public.attendance (user_id, date, status, notes)
+    SELECT NEW.intern_id, day::date, 'on_leave', initcap(NEW.leave_type) || ' leave'
+    FROM generate_series(NEW.start_date, NEW.end_date, interval '1 day') AS day
+    WHERE extract(isodow FROM day) <> 6
+    AND NOT public.is_holiday(day::date)
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET status = 'on_leave', notes = EXCLUDED.notes
+      WHERE attendance.check_in_time IS NULL;
+  ELSIF OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    DELETE FROM public.attendance
+    WHERE user_id = NEW.intern_id
+    AND date BETWEEN NEW.start_date AND NEW.end_date
+    AND status = 'on_leave'
+    AND check_in_time IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Nobody is absent on a holiday
+CREATE OR REPLACE FUNCTION public.mark_absences(_date date DEFAULT CURRENT_DATE - 1)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  marked integer;
+BEGIN
+  IF public.is_holiday(_date) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.attendance (user_id, date, status)
+  SELECT p.id, _date, 'absent'
+  FROM public.profiles p
+  WHERE p.role = 'intern'
+  AND p.status = 'active'
+  AND p.created_at::date <= _date
+  AND extract(isodow FROM _date)::integer = ANY ((public.get_work_schedule(p.id)).working_days)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.attendance a WHERE a.user_id = p.id AND a.date = _date
+  )
+  ON CONFLICT (user_id, date) DO NOTHING;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$function$;
+
+-- Same tiers as before, but lateness is counted in working days so a task due before
+-- Dashain does not escalate while the office is closed:
+--   due_soon   due today or tomorrow                   -> assignee
+--   overdue    at least one working day past due       -> assignee
+--   escalated  3 to 6 working days past due            -> task creator
+--   critical   7 or more working days past due         -> task creator
+CREATE OR REPLACE FUNCTION public.run_task_escalations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  candidate record;
+  sent integer := 0;
+BEGIN
+  FOR candidate IN
+    SELECT
+      t.id,
+      t.title,
+      t.due_date::date AS due_date,
+      p.full_name AS intern_name,
+      tier.name AS tier,
+      CASE WHEN tier.name IN ('due_soon', 'overdue') THEN t.assigned_to ELSE t.created_by END AS recipient_id,
+      late.days AS days_overdue
+    FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.assigned_to
+    CROSS JOIN LATERAL (
+      SELECT public.working_days_between(t.due_date::date + 1, CURRENT_DATE) AS days
+    ) AS late
+    CROSS JOIN LATERAL (
+      VALUES
+        ('due_soon', t.due_date::date BETWEEN CURRENT_DATE AND CURRENT_DATE + 1),
+        ('overdue', late.days >= 1),
+        ('escalated', late.days BETWEEN 3 AND 6),
+        ('critical', late.days >= 7)
+    ) AS tier(name, applies)
+    WHERE tier.applies
+    AND t.status IN ('todo', 'in_progress')
+    AND t.due_date IS NOT NULL
+    AND t.created_by IS NOT NULL
+  LOOP
+    INSERT INTO public.task_escalations (task_id, tier, due_date, recipient_id)
+    VALUES (candidate.id, candidate.tier, candidate.due_date, candidate.recipient_id)
+    ON CONFLICT (task_id, tier, due_date) DO NOTHING;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      candidate.recipient_id,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN 'Task Due Soon'
+        WHEN 'overdue' THEN 'Task Overdue'
+        WHEN 'escalated' THEN 'Overdue Task Escalated'
+        ELSE 'Task Seriously Overdue'
+      END,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN format('"%s" is due on %s', candidate.title, to_char(candidate.due_date, 'Mon DD'))
+        WHEN 'overdue' THEN format('"%s" was due on %s and is now overdue', candidate.title, to_char(candidate.due_date, 'Mon DD'))
+        ELSE format('%s''s task "%s" is %s working days overdue', candidate.intern_name, candidate.title, candidate.days_overdue)
+      END,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN 'info'
+        WHEN 'critical' THEN 'error'
+        ELSE 'warning'
+      END,
+      jsonb_build_object('taskId', candidate.id, 'taskTitle', candidate.title, 'tier', candidate.tier)
+    );
+
+    sent := sent + 1;
+  END LOOP;
+
+  RETURN sent;
+END;
+$function$;
@@ -0,0 +1,131 @@
+-- Interns check in by scanning a QR code shown at the office instead of pressing a button from
+-- anywhere. The code carries a token signed with a server-side secret that is only valid for the
+-- 30 second window it was issued in (plus the previous one, to allow for a slow scan).
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Single row, no policies: only the functions below can read it
+CREATE TABLE public.attendance_token_secret (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex')
+);
+
+INSERT INTO public.attendance_token_secret DEFAULT VALUES;
+
+ALTER TABLE public.attendance_token_secret ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.sign_attendance_token(_issuer_id uuid, _window bigint)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT encode(extensions.hmac(_issuer_id::text || '.' || _window::text, secret, 'sha256'), 'hex')
+  FROM public.attendance_token_secret;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_attendance_token(uuid, bigint) FROM PUBLIC, anon, authenticated;
+
+-- Token for the current window, shown as a QR code by a supervisor or the reception kiosk
+CREATE OR REPLACE FUNCTION public.issue_attendance_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  current_window bigint := floor(extract(epoch FROM now()) / 30)::bigint;
+BEGIN
+  IF public.get_current_user_role() NOT IN ('supervisor', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors can display the check-in code';
+  END IF;
+
+  RETURN auth.uid()::text || '.' || current_window::text || '.' || public.sign_attendance_token(auth.uid(), current_window);
+END;
+$function$;
+
+-- Checks the caller in, or out if they already checked in today. Returns 'checked_in',
+-- 'checked_out' or 'complete' when both times are already recorded.
+CREATE OR REPLACE FUNCTION public.scan_attendance_token(_token text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  parts text[];
+  issuer_id uuid;
+  token_window bigint;
+  current_window bigint := floor(extract(epoch FROM now()) / 30)::bigint;
+  target public.attendance%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to check in';
+  END IF;
+
+  parts := string_to_array(_token, '.');
+  IF coalesce(array_length(parts, 1), 0) <> 3
+    OR parts[1] !~ '^[0-9a-f-]{36}$'
+    OR parts[2] !~ '^[0-9]+$' THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  issuer_id := parts[1]::uuid;
+  token_window := parts[2]::bigint;
+
+  IF parts[3] IS DISTINCT FROM public.sign_attendance_token(issuer_id, token_window) THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  IF token_window NOT IN (current_window, current_window - 1) THEN
+    RAISE EXCEPTION 'This check-in code has expired. Scan the code on screen again.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = issuer_id AND role IN ('supervisor', 'admin') AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.attendance
+  WHERE user_id = auth.uid() AND date = CURRENT_DATE
+  FOR UPDATE;
+
+  IF target.check_in_time IS NULL THEN
+    INSERT INTO public.attendance (user_id, date, check_in_time, status)
+    VALUES (auth.uid(), CURRENT_DATE, now(), 'present')
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET check_in_time = EXCLUDED.check_in_time, status = 'present';
+    RETURN 'checked_in';
+  END IF;
+
+  IF target.check_out_time IS NULL THEN
+    -- Scanning twice on the way in should not check the intern straight back out
+    IF now() - target.check_in_time < interval '5 minutes' THEN
+      RETURN 'checked_in';
+    END IF;
+
+    UPDATE public.attendance SET check_out_time = now() WHERE id = target.id;
+    RETURN 'checked_out';
+  END IF;
+
+  RETURN 'complete';
+END;
+$function$;
+
+-- Interns can no longer write their own attendance directly; scanning the code is the only way in.
+-- Supervisors and admins still check themselves in from the dashboard.
+DROP POLICY IF EXISTS "Users can insert their own attendance" ON public.attendance;
+DROP POLICY IF EXISTS "Users can update their own attendance" ON public.attendance;
+
+CREATE POLICY "Staff can insert their own attendance"
+ON public.attendance
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.get_current_user_role() IN ('supervisor', 'admin'));
+
+CREATE POLICY "Staff can update their own attendance"
+ON public.attendance
+FOR UPDATE
+USING (auth.uid() = user_id AND public.get_current_user_role() IN ('supervisor', 'admin'));
@@ -0,0 +1,202 @@
+-- Where each check-in and check-out happened, as reported by the browser
+ALTER TABLE public.attendance
+  ADD COLUMN check_in_latitude DOUBLE PRECISION,
+  ADD COLUMN check_in_longitude DOUBLE PRECISION,
+  ADD COLUMN check_in_accuracy DOUBLE PRECISION,
+  ADD COLUMN check_out_latitude DOUBLE PRECISION,
+  ADD COLUMN check_out_longitude DOUBLE PRECISION,
+  ADD COLUMN check_out_accuracy DOUBLE PRECISION,
+  ADD COLUMN is_remote BOOLEAN NOT NULL DEFAULT false;
+
+-- Office locations. Fences with a department apply to its members; the ones without a
+-- department apply to everyone whose department has none of its own.
+CREATE TABLE public.office_geofences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  department TEXT,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  radius_meters INTEGER NOT NULL DEFAULT 200 CHECK (radius_meters > 0),
+  -- flag: the check-in is recorded as remote; reject: the check-in is refused
+  enforcement TEXT NOT NULL DEFAULT 'flag' CHECK (enforcement IN ('flag', 'reject')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.office_geofences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view office geofences"
+ON public.office_geofences
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage office geofences"
+ON public.office_geofences
+FOR ALL
+USING (public.get_current_user_role() = 'admin')
+WITH CHECK (public.get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_office_geofences_updated_at
+BEFORE UPDATE ON public.office_geofences
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Great-circle distance in meters (haversine)
+CREATE OR REPLACE FUNCTION public.distance_meters(_lat1 double precision, _lon1 double precision, _lat2 double precision, _lon2 double precision)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lon2 - _lon1) / 2), 2)
+  ));
+$function$;
+
+-- Checks a self check-in against the fences for the user's department. A position counts as
+-- inside when it is within the radius give or take its reported accuracy, capped at 100 m so a
+-- rough network fix cannot stretch the fence. No position at all counts as outside.
+CREATE OR REPLACE FUNCTION public.apply_attendance_geofence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  fence_count integer;
+  inside boolean;
+  must_reject boolean;
+BEGIN
+  IF NEW.check_in_time IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.check_in_time IS NOT NULL)
+    OR auth.uid() IS DISTINCT FROM NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  WITH fences AS (
+    SELECT f.*
+    FROM public.office_geofences f
+    LEFT JOIN public.profiles p ON p.id = NEW.user_id
+    WHERE f.department = p.department
+    OR (f.department IS NULL AND NOT EXISTS (
+      SELECT 1 FROM public.office_geofences d WHERE d.department = p.department
+    ))
+  )
+  SELECT
+    count(*),
+    coalesce(bool_or(
+      NEW.check_in_latitude IS NOT NULL
+      AND public.distance_meters(latitude, longitude, NEW.check_in_latitude, NEW.check_in_longitude)
+        - least(coalesce(NEW.check_in_accuracy, 0), 100) <= radius_meters
+    ), false),
+    coalesce(bool_or(enforcement = 'reject'), false)
+  INTO fence_count, inside, must_reject
+  FROM fences;
+
+  IF fence_count = 0 OR inside THEN
+    NEW.is_remote := false;
+    RETURN NEW;
+  END IF;
+
+  IF must_reject THEN
+    IF NEW.check_in_latitude IS NULL THEN
+      RAISE EXCEPTION 'Allow location access to check in. Check-ins are only accepted at the office.';
+    END IF;
+    RAISE EXCEPTION 'You are outside the office area. Check-ins are only accepted at the office.';
+  END IF;
+
+  NEW.is_remote := true;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_attendance_geofence
+BEFORE INSERT OR UPDATE OF check_in_time ON public.attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_attendance_geofence();
+
+-- Same as before, now recording where the code was scanned
+DROP FUNCTION public.scan_attendance_token(text);
+
+CREATE OR REPLACE FUNCTION public.scan_attendance_token(
+  _token text,
+  _latitude double precision DEFAULT NULL,
+  _longitude double precision DEFAULT NULL,
+  _accuracy double precision DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  parts text[];
+  issuer_id uuid;
+  token_window bigint;
+  current_window bigint := floor(extract(epoch FROM now()) / 30)::bigint;
+  target public.attendance%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to check in';
+  END IF;
+
+  parts := string_to_array(_token, '.');
+  IF coalesce(array_length(parts, 1), 0) <> 3
+    OR parts[1] !~ '^[0-9a-f-]{36}$'
+    OR parts[2] !~ '^[0-9]+$' THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  issuer_id := parts[1]::uuid;
+  token_window := parts[2]::bigint;
+
+  IF parts[3] IS DISTINCT FROM public.sign_attendance_token(issuer_id, token_window) THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  IF token_window NOT IN (current_window, current_window - 1) THEN
+    RAISE EXCEPTION 'This check-in code has expired. Scan the code on screen again.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = issuer_id AND role IN ('supervisor', 'admin') AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.attendance
+  WHERE user_id = auth.uid() AND date = CURRENT_DATE
+  FOR UPDATE;
+
+  IF target.check_in_time IS NULL THEN
+    INSERT INTO public.attendance (user_id, date, check_in_time, status, check_in_latitude, check_in_longitude, check_in_accuracy)
+    VALUES (auth.uid(), CURRENT_DATE, now(), 'present', _latitude, _longitude, _accuracy)
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET check_in_time = EXCLUDED.check_in_time,
+        status = 'present',
+        check_in_latitude = EXCLUDED.check_in_latitude,
+        check_in_longitude = EXCLUDED.check_in_longitude,
+        check_in_accuracy = EXCLUDED.check_in_accuracy;
+    RETURN 'checked_in';
+  END IF;
+
+  IF target.check_out_time IS NULL THEN
+    -- Scanning twice on the way in should not check the intern straight back out
+    IF now() - target.check_in_time < interval '5 minutes' THEN
+      RETURN 'checked_in';
+    END IF;
+
+    UPDATE public.attendance
+    SET check_out_time = now(),
+      check_out_latitude = _latitude,
+      check_out_longitude = _longitude,
+      check_out_accuracy = _accuracy
+    WHERE id = target.id;
+    RETURN 'checked_out';
+  END IF;
+
+  RETURN 'complete';
+END;
+$function$;
@@ -0,0 +1,174 @@
+-- Local times, in the schedule's timezone, for the daily attendance jobs. NULL turns a job off.
+--   reminder_time       remind interns who have not checked in yet
+--   auto_checkout_time  close open check-ins and tell supervisors who never came in
+ALTER TABLE public.work_schedules
+ADD COLUMN reminder_time TIME DEFAULT '09:30',
+ADD COLUMN auto_checkout_time TIME DEFAULT '20:00',
+ADD CONSTRAINT work_schedules_reminder_time_check CHECK (reminder_time IS NULL OR auto_checkout_time IS NULL OR reminder_time < auto_checkout_time);
+
+-- Set when the end-of-day job closed a check-in the intern left open
+ALTER TABLE public.attendance
+ADD COLUMN auto_checked_out BOOLEAN NOT NULL DEFAULT false;
+
+-- A check-out recorded later by hand replaces the automatic one
+CREATE OR REPLACE FUNCTION public.clear_auto_checkout()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.auto_checked_out AND OLD.auto_checked_out AND NEW.check_out_time IS DISTINCT FROM OLD.check_out_time THEN
+    NEW.auto_checked_out := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER clear_auto_checkout
+BEFORE UPDATE OF check_out_time ON public.attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_auto_checkout();
+
+-- Jobs already run per schedule and day, so each fires once however often the scheduler ticks
+CREATE TABLE public.attendance_job_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.work_schedules(id) ON DELETE CASCADE,
+  job TEXT NOT NULL CHECK (job IN ('reminder', 'end_of_day')),
+  date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE (schedule_id, job, date)
+);
+
+ALTER TABLE public.attendance_job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view attendance job runs"
+ON public.attendance_job_runs
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+-- Runs every schedule's jobs that are due:
+--   reminder    at reminder_time, notify interns with no attendance row today
+--   end_of_day  from auto_checkout_time, check out open check-ins at the scheduled end time
+--               (or the check-in time, if later) and send each mentor the list of interns
+--               who never checked in
+-- Check-ins are stored under the UTC date, which is also the local date during office hours
+-- in Nepal. Days off and holidays are skipped; leave already has an attendance row.
+CREATE OR REPLACE FUNCTION public.run_attendance_jobs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  schedule public.work_schedules%ROWTYPE;
+  local_time time;
+  intern_ids uuid[];
+  mentor record;
+  reminded integer;
+  sent integer := 0;
+BEGIN
+  FOR schedule IN SELECT * FROM public.work_schedules LOOP
+    local_time := (now() AT TIME ZONE schedule.timezone)::time;
+
+    IF NOT extract(isodow FROM CURRENT_DATE)::integer = ANY (schedule.working_days) OR public.is_holiday(CURRENT_DATE) THEN
+      CONTINUE;
+    END IF;
+
+    SELECT coalesce(array_agg(p.id), '{}')
+    INTO intern_ids
+    FROM public.profiles p
+    WHERE p.role = 'intern'
+    AND p.status = 'active'
+    AND p.created_at::date <= CURRENT_DATE
+    AND (public.get_work_schedule(p.id)).id = schedule.id;
+
+    -- Same wording as notificationTemplates.attendanceReminder
+    IF schedule.reminder_time IS NOT NULL
+      AND local_time >= schedule.reminder_time
+      AND (schedule.auto_checkout_time IS NULL OR local_time < schedule.auto_checkout_time)
+    THEN
+      INSERT INTO public.attendance_job_runs (schedule_id, job, date)
+      VALUES (schedule.id, 'reminder', CURRENT_DATE)
+      ON CONFLICT (schedule_id, job, date) DO NOTHING;
+
+      IF FOUND THEN
+        INSERT INTO public.notifications (user_id, title, message, type, data)
+        SELECT i.id, 'Attendance Reminder', 'Don''t forget to mark your attendance for today!', 'warning',
+          jsonb_build_object('date', CURRENT_DATE)
+        FROM unnest(intern_ids) AS i(id)
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.attendance a WHERE a.user_id = i.id AND a.date = CURRENT_DATE
+        );
+
+        GET DIAGNOSTICS reminded = ROW_COUNT;
+        sent := sent + reminded;
+      END IF;
+    END IF;
+
+    IF schedule.auto_checkout_time IS NULL OR local_time < schedule.auto_checkout_time THEN
+      CONTINUE;
+    END IF;
+
+    -- Also picks up check-ins made after the job already ran today
+    UPDATE public.attendance a
+    SET
+      check_out_time = greatest(a.check_in_time, (a.date + schedule.end_time) AT TIME ZONE schedule.timezone),
+      auto_checked_out = true
+    WHERE a.user_id = ANY (intern_ids)
+    AND a.date <= CURRENT_DATE
+    AND a.check_in_time IS NOT NULL
+    AND a.check_out_time IS NULL;
+
+    INSERT INTO public.attendance_job_runs (schedule_id, job, date)
+    VALUES (schedule.id, 'end_of_day', CURRENT_DATE)
+    ON CONFLICT (schedule_id, job, date) DO NOTHING;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    FOR mentor IN
+      SELECT
+        sa.supervisor_id,
+        count(*) AS absent_count,
+        string_agg(p.full_name, ', ' ORDER BY p.full_name) AS names,
+        jsonb_agg(p.id) AS absent_ids
+      FROM public.profiles p
+      JOIN public.supervisor_assignments sa ON sa.intern_id = p.id
+      WHERE p.id = ANY (intern_ids)
+      AND sa.start_date <= CURRENT_DATE
+      AND (sa.end_date IS NULL OR sa.end_date >= CURRENT_DATE)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a WHERE a.user_id = p.id AND a.date = CURRENT_DATE
+      )
+      GROUP BY sa.supervisor_id
+    LOOP
+      INSERT INTO public.notifications (user_id, title, message, type, data)
+      VALUES (
+        mentor.supervisor_id,
+        'Interns Absent Today',
+        CASE
+          WHEN mentor.absent_count = 1 THEN format('%s did not check in today', mentor.names)
+          ELSE format('%s interns did not check in today: %s', mentor.absent_count, mentor.names)
+        END,
+        'warning',
+        jsonb_build_object('date', CURRENT_DATE, 'internIds', mentor.absent_ids)
+      );
+
+      sent := sent + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN sent;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.run_attendance_jobs() FROM PUBLIC, anon, authenticated;
+
+-- Each schedule sets its own local times, so check every quarter of an hour which jobs are due
+SELECT cron.schedule(
+  'attendance-daily-jobs',
+  '*/15 * * * *',
+  $$SELECT public.run_attendance_jobs();$$
+);
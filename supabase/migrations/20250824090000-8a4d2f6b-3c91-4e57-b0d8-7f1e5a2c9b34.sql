@@ -0,0 +1,182 @@
+-- A single assignment row passes every is_supervisor_of() check, so supervisors may only
+-- claim interns who have no primary mentor yet. Everything else goes through the RPCs below.
+CREATE OR REPLACE FUNCTION public.can_claim_intern(_intern_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _intern_id AND role = 'intern' AND status = 'active'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.supervisor_assignments
+    WHERE intern_id = _intern_id
+    AND assignment_type = 'primary'
+    AND (end_date IS NULL OR end_date >= CURRENT_DATE)
+  );
+$function$;
+
+DROP POLICY IF EXISTS "Supervisors and admins can create assignments" ON public.supervisor_assignments;
+
+CREATE POLICY "Admins and supervisors claiming unassigned interns can create assignments"
+ON public.supervisor_assignments
+FOR INSERT
+WITH CHECK (
+  public.get_current_user_role() = 'admin'
+  OR (
+    public.get_current_user_role() = 'supervisor'
+    AND supervisor_id = auth.uid()
+    AND assignment_type = 'primary'
+    AND public.can_claim_intern(intern_id)
+  )
+);
+
+-- Without a WITH CHECK a mentor could point their own row at any intern
+DROP POLICY IF EXISTS "Mentors and admins can update assignments" ON public.supervisor_assignments;
+
+CREATE POLICY "Admins can update assignments"
+ON public.supervisor_assignments
+FOR UPDATE
+USING (public.get_current_user_role() = 'admin')
+WITH CHECK (public.get_current_user_role() = 'admin');
+
+-- Is the current user the intern's active primary mentor?
+CREATE OR REPLACE FUNCTION public.is_primary_supervisor_of(intern uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.supervisor_assignments
+    WHERE supervisor_id = auth.uid()
+    AND intern_id = intern
+    AND assignment_type = 'primary'
+    AND start_date <= CURRENT_DATE
+    AND (end_date IS NULL OR end_date >= CURRENT_DATE)
+  );
+$function$;
+
+-- Ends an assignment today. One that has not started yet is removed instead, since
+-- end_date may not come before start_date.
+CREATE OR REPLACE FUNCTION public.end_supervisor_assignment(_assignment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  assignment public.supervisor_assignments%ROWTYPE;
+BEGIN
+  SELECT * INTO assignment
+  FROM public.supervisor_assignments
+  WHERE id = _assignment_id
+  AND (end_date IS NULL OR end_date >= CURRENT_DATE)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment not found or already ended';
+  END IF;
+
+  IF assignment.supervisor_id IS DISTINCT FROM auth.uid()
+    AND NOT public.is_primary_supervisor_of(assignment.intern_id)
+    AND public.get_current_user_role() IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Only the intern''s primary mentor or an admin can end this assignment';
+  END IF;
+
+  IF assignment.start_date > CURRENT_DATE THEN
+    DELETE FROM public.supervisor_assignments WHERE id = assignment.id;
+  ELSE
+    UPDATE public.supervisor_assignments SET end_date = CURRENT_DATE WHERE id = assignment.id;
+  END IF;
+END;
+$function$;
+
+-- Assigns a mentor on behalf of an admin or the intern's current primary mentor. A new primary
+-- mentor takes over from the day before they start; an open primary assignment that would not
+-- have started by then is replaced outright.
+CREATE OR REPLACE FUNCTION public.assign_supervisor(
+  _intern_id uuid,
+  _supervisor_id uuid,
+  _assignment_type text DEFAULT 'primary',
+  _start_date date DEFAULT CURRENT_DATE
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  open_primary public.supervisor_assignments%ROWTYPE;
+  assignment_id uuid;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' AND NOT public.is_primary_supervisor_of(_intern_id) THEN
+    RAISE EXCEPTION 'Only the intern''s primary mentor or an admin can assign mentors';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _intern_id AND role = 'intern') THEN
+    RAISE EXCEPTION 'Mentors can only be assigned to interns';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _supervisor_id AND role IN ('supervisor', 'admin') AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'The mentor must be an active supervisor';
+  END IF;
+
+  IF _assignment_type = 'primary' THEN
+    SELECT * INTO open_primary
+    FROM public.supervisor_assignments
+    WHERE intern_id = _intern_id
+    AND assignment_type = 'primary'
+    AND end_date IS NULL
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF open_primary.start_date >= _start_date THEN
+        DELETE FROM public.supervisor_assignments WHERE id = open_primary.id;
+      ELSE
+        UPDATE public.supervisor_assignments SET end_date = _start_date - 1 WHERE id = open_primary.id;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO public.supervisor_assignments (intern_id, supervisor_id, assignment_type, start_date, assigned_by)
+  VALUES (_intern_id, _supervisor_id, _assignment_type, _start_date, auth.uid())
+  RETURNING id INTO assignment_id;
+
+  RETURN assignment_id;
+END;
+$function$;
+
+-- The restrictive INSERT policy on tasks does not cover moving an existing task to someone else
+CREATE OR REPLACE FUNCTION public.enforce_task_assignee()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    AND public.get_current_user_role() IS DISTINCT FROM 'admin'
+    AND NOT public.is_supervisor_of(NEW.assigned_to)
+  THEN
+    RAISE EXCEPTION 'Tasks can only be assigned to your own interns';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_task_assignee
+BEFORE UPDATE OF assigned_to ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_task_assignee();
@@ -0,0 +1,154 @@
+-- Recurrences may only target the creator's own interns
+DROP POLICY IF EXISTS "Supervisors can manage their recurrences" ON public.task_recurrences;
+
+CREATE POLICY "Supervisors can manage their recurrences"
+ON public.task_recurrences
+FOR ALL
+USING (auth.uid() = created_by OR public.get_current_user_role() = 'admin')
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.get_current_user_role() IN ('supervisor', 'admin')
+  AND (
+    assignee_id IS NULL
+    OR public.is_supervisor_of(assignee_id)
+    OR public.get_current_user_role() = 'admin'
+  )
+);
+
+-- Creates one task (with checklist) per assignee from a template, skipping interns the
+-- creator no longer mentors
+CREATE OR REPLACE FUNCTION public.spawn_tasks_from_template(_template_id uuid, _assignee_ids uuid[], _created_by uuid, _run_date date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  template public.task_templates%ROWTYPE;
+  assignee uuid;
+  new_task_id uuid;
+  spawned integer := 0;
+BEGIN
+  SELECT * INTO template FROM public.task_templates WHERE id = _template_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOREACH assignee IN ARRAY _assignee_ids LOOP
+    -- Runs without RLS, so repeat the tasks policy: only the creator's own interns, unless an admin
+    IF NOT EXISTS (SELECT 1 FROM public.profiles c WHERE c.id = _created_by AND c.role = 'admin')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.supervisor_assignments sa
+        WHERE sa.intern_id = assignee
+        AND sa.supervisor_id = _created_by
+        AND sa.start_date <= CURRENT_DATE
+        AND (sa.end_date IS NULL OR sa.end_date >= CURRENT_DATE)
+      )
+    THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.tasks (title, description, priority, due_date, created_by, assigned_to, status, requires_deliverable, position)
+    VALUES (
+      template.title,
+      template.description,
+      template.priority,
+      CASE WHEN template.due_offset_days IS NOT NULL THEN _run_date + template.due_offset_days END,
+      _created_by,
+      assignee,
+      'todo',
+      template.requires_deliverable,
+      coalesce((SELECT min(position) FROM public.tasks WHERE status = 'todo'), 0) - 1
+    )
+    RETURNING id INTO new_task_id;
+
+    INSERT INTO public.task_checklist_items (task_id, title, position)
+    SELECT new_task_id, item.title, item.ordinality - 1
+    FROM unnest(template.checklist) WITH ORDINALITY AS item(title, ordinality);
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      assignee,
+      'New Task Assigned',
+      format('You have been assigned a new task: "%s"', template.title),
+      'info',
+      jsonb_build_object('taskId', new_task_id, 'taskTitle', template.title)
+    );
+
+    spawned := spawned + 1;
+  END LOOP;
+
+  RETURN spawned;
+END;
+$function$;
+
+-- Spawns tasks for every recurrence that is due and advances its next run date
+CREATE OR REPLACE FUNCTION public.run_task_recurrences()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  recurrence public.task_recurrences%ROWTYPE;
+  assignees uuid[];
+  months integer;
+  next_date date;
+  spawned integer := 0;
+BEGIN
+  FOR recurrence IN
+    SELECT * FROM public.task_recurrences
+    WHERE is_active
+    AND next_run_date <= CURRENT_DATE
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF recurrence.end_date IS NOT NULL AND recurrence.next_run_date > recurrence.end_date THEN
+      UPDATE public.task_recurrences SET is_active = false WHERE id = recurrence.id;
+      CONTINUE;
+    END IF;
+
+    IF recurrence.assignee_id IS NOT NULL THEN
+      assignees := ARRAY[recurrence.assignee_id];
+    ELSE
+      -- Active interns in the department; supervisors only reach the interns they mentor
+      SELECT coalesce(array_agg(p.id), '{}') INTO assignees
+      FROM public.profiles p
+      WHERE p.role = 'intern'
+      AND p.status = 'active'
+      AND p.department = recurrence.department
+      AND (
+        EXISTS (SELECT 1 FROM public.profiles c WHERE c.id = recurrence.created_by AND c.role = 'admin')
+        OR EXISTS (
+          SELECT 1 FROM public.supervisor_assignments sa
+          WHERE sa.intern_id = p.id
+          AND sa.supervisor_id = recurrence.created_by
+          AND sa.start_date <= CURRENT_DATE
+          AND (sa.end_date IS NULL OR sa.end_date >= CURRENT_DATE)
+        )
+      );
+    END IF;
+
+    spawned := spawned + public.spawn_tasks_from_template(recurrence.template_id, assignees, recurrence.created_by, recurrence.next_run_date);
+
+    IF recurrence.frequency = 'daily' THEN
+      next_date := recurrence.next_run_date + recurrence.interval;
+    ELSIF recurrence.frequency = 'weekly' THEN
+      next_date := recurrence.next_run_date + recurrence.interval * 7;
+    ELSE
+      -- Count months from the start date so the 31st stays on the last day of each month
+      -- instead of drifting to the 28th after February
+      months := recurrence.interval;
+      WHILE (recurrence.start_date + make_interval(months => months))::date <= recurrence.next_run_date LOOP
+        months := months + recurrence.interval;
+      END LOOP;
+      next_date := (recurrence.start_date + make_interval(months => months))::date;
+    END IF;
+
+    UPDATE public.task_recurrences
+    SET last_run_at = now(), next_run_date = next_date
+    WHERE id = recurrence.id;
+  END LOOP;
+
+  RETURN spawned;
+END;
+$function$;
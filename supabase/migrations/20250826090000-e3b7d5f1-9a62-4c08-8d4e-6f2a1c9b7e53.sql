@@ -0,0 +1,56 @@
+-- Time logs are validated on the UTC day, which ends at 05:45 in Nepal. Clamp a timer that is
+-- stopped late rather than rejecting the stop.
+CREATE OR REPLACE FUNCTION public.validate_task_time_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _log_date date := (NEW.started_at AT TIME ZONE 'utc')::date;
+  _check_in timestamptz;
+  _check_out timestamptz;
+BEGIN
+  SELECT check_in_time, check_out_time INTO _check_in, _check_out
+  FROM public.attendance
+  WHERE user_id = NEW.intern_id AND date = _log_date;
+
+  -- Stopping a timer left running past check-out or past the end of the day closes it at
+  -- whichever comes first instead of failing, otherwise it could never be stopped
+  IF TG_OP = 'UPDATE' AND OLD.ended_at IS NULL AND NEW.ended_at IS NOT NULL THEN
+    NEW.ended_at := GREATEST(
+      LEAST(NEW.ended_at, COALESCE(_check_out, NEW.ended_at), (_log_date + 1)::timestamp AT TIME ZONE 'utc' - interval '1 second'),
+      NEW.started_at + interval '1 second'
+    );
+  END IF;
+
+  IF NEW.ended_at IS NOT NULL AND NEW.ended_at <= NEW.started_at THEN
+    RAISE EXCEPTION 'A time log must end after it starts';
+  END IF;
+
+  IF NEW.ended_at IS NOT NULL AND (NEW.ended_at AT TIME ZONE 'utc')::date <> _log_date THEN
+    RAISE EXCEPTION 'A time log cannot span more than one day';
+  END IF;
+
+  IF _check_in IS NULL THEN
+    RAISE EXCEPTION 'No check-in recorded on %', _log_date;
+  END IF;
+
+  -- A small allowance covers clock drift between the browser and the database
+  IF NEW.started_at < _check_in - interval '1 minute'
+     OR COALESCE(NEW.ended_at, NEW.started_at) > COALESCE(_check_out, now()) + interval '1 minute' THEN
+    RAISE EXCEPTION 'Time must be logged between check-in and check-out';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.task_time_logs
+    WHERE intern_id = NEW.intern_id
+    AND id <> NEW.id
+    AND tstzrange(started_at, COALESCE(ended_at, now())) && tstzrange(NEW.started_at, COALESCE(NEW.ended_at, now()))
+  ) THEN
+    RAISE EXCEPTION 'This time overlaps another time log';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,104 @@
+-- Times recorded for an attendance day must fall on that day (the UTC date, as for check-ins),
+-- be in order and not be in the future
+CREATE OR REPLACE FUNCTION public.validate_attendance_times(
+  _date date,
+  _check_in_time timestamp with time zone,
+  _check_out_time timestamp with time zone
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $function$
+BEGIN
+  IF _date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Attendance cannot be recorded for a future date';
+  END IF;
+
+  IF (_check_in_time AT TIME ZONE 'UTC')::date <> _date OR (_check_out_time AT TIME ZONE 'UTC')::date <> _date THEN
+    RAISE EXCEPTION 'Check in and check out must fall on %', _date;
+  END IF;
+
+  IF _check_in_time > now() OR _check_out_time > now() THEN
+    RAISE EXCEPTION 'Check in and check out cannot be in the future';
+  END IF;
+
+  IF _check_out_time <= _check_in_time THEN
+    RAISE EXCEPTION 'Check out must be after check in';
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.validate_attendance_correction()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.validate_attendance_times(NEW.date, NEW.proposed_check_in_time, NEW.proposed_check_out_time);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_attendance_correction
+BEFORE INSERT ON public.attendance_corrections
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_attendance_correction();
+
+-- Validates the times the record ends up with, not just the ones passed in, so a new
+-- check-out cannot land before a check-in that is kept
+CREATE OR REPLACE FUNCTION public.apply_attendance_change(
+  _user_id uuid,
+  _date date,
+  _check_in_time timestamp with time zone,
+  _check_out_time timestamp with time zone,
+  _source text,
+  _reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  existing public.attendance%ROWTYPE;
+  changed_id uuid;
+BEGIN
+  SELECT * INTO existing FROM public.attendance WHERE user_id = _user_id AND date = _date FOR UPDATE;
+
+  PERFORM public.validate_attendance_times(
+    _date,
+    coalesce(_check_in_time, existing.check_in_time),
+    coalesce(_check_out_time, existing.check_out_time)
+  );
+
+  IF existing.id IS NULL THEN
+    INSERT INTO public.attendance (user_id, date, check_in_time, check_out_time, status)
+    VALUES (_user_id, _date, _check_in_time, _check_out_time, 'present')
+    RETURNING id INTO changed_id;
+  ELSE
+    changed_id := existing.id;
+
+    UPDATE public.attendance
+    SET
+      check_in_time = coalesce(_check_in_time, check_in_time),
+      check_out_time = coalesce(_check_out_time, check_out_time),
+      status = CASE WHEN status = 'on_leave' THEN 'present' ELSE status END
+    WHERE id = existing.id;
+  END IF;
+
+  INSERT INTO public.attendance_audit (
+    attendance_id, user_id, changed_by, source, reason,
+    old_check_in_time, new_check_in_time, old_check_out_time, new_check_out_time
+  )
+  VALUES (
+    changed_id, _user_id, auth.uid(), _source, _reason,
+    existing.check_in_time, coalesce(_check_in_time, existing.check_in_time),
+    existing.check_out_time, coalesce(_check_out_time, existing.check_out_time)
+  );
+
+  RETURN changed_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_attendance_change(uuid, date, timestamp with time zone, timestamp with time zone, text, text) FROM PUBLIC, anon, authenticated;
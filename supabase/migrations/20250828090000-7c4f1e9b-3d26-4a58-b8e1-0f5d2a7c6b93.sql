@@ -0,0 +1,241 @@
+-- Working days come from the person's work schedule rather than assuming Saturday is the
+-- only day off. Without a user the default schedule applies.
+DROP FUNCTION public.leave_days(date, date);
+DROP FUNCTION public.working_days_between(date, date);
+
+CREATE OR REPLACE FUNCTION public.working_days_between(_start_date date, _end_date date, _user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT count(*)::integer
+  FROM generate_series(_start_date, _end_date, interval '1 day') AS day
+  CROSS JOIN public.get_work_schedule(_user_id) AS schedule
+  WHERE extract(isodow FROM day)::integer = ANY (schedule.working_days)
+  AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = day::date);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.leave_days(_start_date date, _end_date date, _user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  SELECT public.working_days_between(_start_date, _end_date, _user_id);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_leave_balances(_intern_id uuid)
+RETURNS TABLE (
+  leave_type text,
+  annual_days integer,
+  requires_attachment boolean,
+  used_days integer,
+  pending_days integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  SELECT
+    p.leave_type,
+    p.annual_days,
+    p.requires_attachment,
+    coalesce(sum(public.leave_days(r.start_date, r.end_date, _intern_id)) FILTER (WHERE r.status = 'approved'), 0)::integer,
+    coalesce(sum(public.leave_days(r.start_date, r.end_date, _intern_id)) FILTER (WHERE r.status = 'pending'), 0)::integer
+  FROM public.leave_policies p
+  LEFT JOIN public.leave_requests r
+    ON r.leave_type = p.leave_type
+    AND r.intern_id = _intern_id
+    AND date_trunc('year', r.start_date) = date_trunc('year', CURRENT_DATE)
+  GROUP BY p.leave_type, p.annual_days, p.requires_attachment
+  ORDER BY p.leave_type;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.validate_leave_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  policy public.leave_policies%ROWTYPE;
+  booked integer;
+  is_reviewer boolean;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO policy FROM public.leave_policies WHERE leave_type = NEW.leave_type;
+
+    IF public.leave_days(NEW.start_date, NEW.end_date, NEW.intern_id) = 0 THEN
+      RAISE EXCEPTION 'The selected dates contain no working days';
+    END IF;
+
+    IF policy.requires_attachment AND NEW.attachment_path IS NULL THEN
+      RAISE EXCEPTION 'A supporting document is required for % leave', NEW.leave_type;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.leave_requests
+      WHERE intern_id = NEW.intern_id
+      AND status IN ('pending', 'approved')
+      AND daterange(start_date, end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+    ) THEN
+      RAISE EXCEPTION 'You already have a leave request covering these dates';
+    END IF;
+
+    IF policy.annual_days IS NOT NULL THEN
+      SELECT coalesce(sum(public.leave_days(start_date, end_date, intern_id)), 0) INTO booked
+      FROM public.leave_requests
+      WHERE intern_id = NEW.intern_id
+      AND leave_type = NEW.leave_type
+      AND status IN ('pending', 'approved')
+      AND date_trunc('year', start_date) = date_trunc('year', NEW.start_date);
+
+      IF booked + public.leave_days(NEW.start_date, NEW.end_date, NEW.intern_id) > policy.annual_days THEN
+        RAISE EXCEPTION 'Not enough % leave remaining: % of % days already booked this year',
+          NEW.leave_type, booked, policy.annual_days;
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.intern_id, NEW.leave_type, NEW.start_date, NEW.end_date, NEW.reason, NEW.attachment_path)
+    IS DISTINCT FROM (OLD.intern_id, OLD.leave_type, OLD.start_date, OLD.end_date, OLD.reason, OLD.attachment_path) THEN
+    RAISE EXCEPTION 'A leave request cannot be edited once submitted';
+  END IF;
+
+  IF NEW.status = OLD.status OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  is_reviewer := public.is_supervisor_of(OLD.intern_id) OR public.get_current_user_role() = 'admin';
+
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected') THEN
+    IF NOT is_reviewer THEN
+      RAISE EXCEPTION 'Only a supervisor can review leave requests';
+    END IF;
+
+    IF NEW.status = 'rejected' AND coalesce(trim(NEW.review_note), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required when rejecting a leave request';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSIF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'approved') THEN
+    IF OLD.intern_id <> auth.uid() AND NOT is_reviewer THEN
+      RAISE EXCEPTION 'Only the intern can cancel this leave request';
+    END IF;
+
+    IF OLD.status = 'approved' AND OLD.start_date <= CURRENT_DATE AND NOT is_reviewer THEN
+      RAISE EXCEPTION 'Leave that has already started can only be cancelled by a supervisor';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.sync_leave_attendance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status <> 'approved' THEN
+    INSERT INTO public.attendance (user_id, date, status, notes)
+    SELECT NEW.intern_id, day::date, 'on_leave', initcap(NEW.leave_type) || ' leave'
+    FROM generate_series(NEW.start_date, NEW.end_date, interval '1 day') AS day
+    WHERE extract(isodow FROM day)::integer = ANY ((public.get_work_schedule(NEW.intern_id)).working_days)
+    AND NOT public.is_holiday(day::date)
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET status = 'on_leave', notes = EXCLUDED.notes
+      WHERE attendance.check_in_time IS NULL;
+  ELSIF OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    DELETE FROM public.attendance
+    WHERE user_id = NEW.intern_id
+    AND date BETWEEN NEW.start_date AND NEW.end_date
+    AND status = 'on_leave'
+    AND check_in_time IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.run_task_escalations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  candidate record;
+  sent integer := 0;
+BEGIN
+  FOR candidate IN
+    SELECT
+      t.id,
+      t.title,
+      t.due_date::date AS due_date,
+      p.full_name AS intern_name,
+      tier.name AS tier,
+      CASE WHEN tier.name IN ('due_soon', 'overdue') THEN t.assigned_to ELSE t.created_by END AS recipient_id,
+      late.days AS days_overdue
+    FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.assigned_to
+    CROSS JOIN LATERAL (
+      SELECT public.working_days_between(t.due_date::date + 1, CURRENT_DATE, t.assigned_to) AS days
+    ) AS late
+    CROSS JOIN LATERAL (
+      VALUES
+        ('due_soon', t.due_date::date BETWEEN CURRENT_DATE AND CURRENT_DATE + 1),
+        ('overdue', late.days >= 1),
+        ('escalated', late.days BETWEEN 3 AND 6),
+        ('critical', late.days >= 7)
+    ) AS tier(name, applies)
+    WHERE tier.applies
+    AND t.status IN ('todo', 'in_progress')
+    AND t.due_date IS NOT NULL
+    AND t.created_by IS NOT NULL
+  LOOP
+    INSERT INTO public.task_escalations (task_id, tier, due_date, recipient_id)
+    VALUES (candidate.id, candidate.tier, candidate.due_date, candidate.recipient_id)
+    ON CONFLICT (task_id, tier, due_date) DO NOTHING;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      candidate.recipient_id,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN 'Task Due Soon'
+        WHEN 'overdue' THEN 'Task Overdue'
+        WHEN 'escalated' THEN 'Overdue Task Escalated'
+        ELSE 'Task Seriously Overdue'
+      END,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN format('"%s" is due on %s', candidate.title, to_char(candidate.due_date, 'Mon DD'))
+        WHEN 'overdue' THEN format('"%s" was due on %s and is now overdue', candidate.title, to_char(candidate.due_date, 'Mon DD'))
+        ELSE format('%s''s task "%s" is %s working days overdue', candidate.intern_name, candidate.title, candidate.days_overdue)
+      END,
+      CASE candidate.tier
+        WHEN 'due_soon' THEN 'info'
+        WHEN 'critical' THEN 'error'
+        ELSE 'warning'
+      END,
+      jsonb_build_object('taskId', candidate.id, 'taskTitle', candidate.title, 'tier', candidate.tier)
+    );
+
+    sent := sent + 1;
+  END LOOP;
+
+  RETURN sent;
+END;
+$function$;
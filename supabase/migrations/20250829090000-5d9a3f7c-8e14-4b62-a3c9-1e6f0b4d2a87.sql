@@ -0,0 +1,146 @@
+-- The reception kiosk signs in with its own account that can do nothing but show the check-in code
+-- and today's arrivals. Leaving it unattended no longer exposes a supervisor's dashboard, and
+-- check-in codes can no longer be shown from anywhere outside the office.
+ALTER TABLE public.profiles DROP CONSTRAINT profiles_role_check;
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_role_check CHECK (role IN ('intern', 'supervisor', 'admin', 'kiosk'));
+
+-- Kiosk accounts are invited by an admin like everyone else
+ALTER TABLE public.invitations DROP CONSTRAINT invitations_role_check;
+ALTER TABLE public.invitations
+ADD CONSTRAINT invitations_role_check CHECK (role IN ('intern', 'supervisor', 'admin', 'kiosk'));
+
+CREATE OR REPLACE FUNCTION public.issue_attendance_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  current_window bigint := floor(extract(epoch FROM now()) / 30)::bigint;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'kiosk' THEN
+    RAISE EXCEPTION 'Only the reception kiosk can display the check-in code';
+  END IF;
+
+  RETURN auth.uid()::text || '.' || current_window::text || '.' || public.sign_attendance_token(auth.uid(), current_window);
+END;
+$function$;
+
+-- Only codes shown by an active kiosk account are accepted
+CREATE OR REPLACE FUNCTION public.scan_attendance_token(
+  _token text,
+  _latitude double precision DEFAULT NULL,
+  _longitude double precision DEFAULT NULL,
+  _accuracy double precision DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  parts text[];
+  issuer_id uuid;
+  token_window bigint;
+  current_window bigint := floor(extract(epoch FROM now()) / 30)::bigint;
+  target public.attendance%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to check in';
+  END IF;
+
+  IF public.get_current_user_role() IS NULL OR public.get_current_user_role() = 'kiosk' THEN
+    RAISE EXCEPTION 'Sign in with your own account to check in';
+  END IF;
+
+  parts := string_to_array(_token, '.');
+  IF coalesce(array_length(parts, 1), 0) <> 3
+    OR parts[1] !~ '^[0-9a-f-]{36}$'
+    OR parts[2] !~ '^[0-9]+$' THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  issuer_id := parts[1]::uuid;
+  token_window := parts[2]::bigint;
+
+  IF parts[3] IS DISTINCT FROM public.sign_attendance_token(issuer_id, token_window) THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  IF token_window NOT IN (current_window, current_window - 1) THEN
+    RAISE EXCEPTION 'This check-in code has expired. Scan the code on screen again.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = issuer_id AND role = 'kiosk' AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Invalid check-in code';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.attendance
+  WHERE user_id = auth.uid() AND date = CURRENT_DATE
+  FOR UPDATE;
+
+  IF target.check_in_time IS NULL THEN
+    INSERT INTO public.attendance (user_id, date, check_in_time, status, check_in_latitude, check_in_longitude, check_in_accuracy)
+    VALUES (auth.uid(), CURRENT_DATE, now(), 'present', _latitude, _longitude, _accuracy)
+    ON CONFLICT (user_id, date) DO UPDATE
+      SET check_in_time = EXCLUDED.check_in_time,
+        status = 'present',
+        check_in_latitude = EXCLUDED.check_in_latitude,
+        check_in_longitude = EXCLUDED.check_in_longitude,
+        check_in_accuracy = EXCLUDED.check_in_accuracy;
+    RETURN 'checked_in';
+  END IF;
+
+  IF target.check_out_time IS NULL THEN
+    -- Scanning twice on the way in should not check the intern straight back out
+    IF now() - target.check_in_time < interval '5 minutes' THEN
+      RETURN 'checked_in';
+    END IF;
+
+    UPDATE public.attendance
+    SET check_out_time = now(),
+      check_out_latitude = _latitude,
+      check_out_longitude = _longitude,
+      check_out_accuracy = _accuracy
+    WHERE id = target.id;
+    RETURN 'checked_out';
+  END IF;
+
+  RETURN 'complete';
+END;
+$function$;
+
+-- Who has checked in today, for the kiosk screen. The kiosk account cannot read attendance or
+-- profiles directly.
+CREATE OR REPLACE FUNCTION public.get_kiosk_arrivals()
+RETURNS TABLE (
+  id uuid,
+  user_name text,
+  check_in_time timestamp with time zone,
+  check_out_time timestamp with time zone,
+  status text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'kiosk' THEN
+    RAISE EXCEPTION 'Only the reception kiosk can list arrivals';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.id, coalesce(p.full_name, 'Unknown User'), a.check_in_time, a.check_out_time, a.status
+  FROM public.attendance a
+  LEFT JOIN public.profiles p ON p.id = a.user_id
+  WHERE a.date = CURRENT_DATE
+  AND a.check_in_time IS NOT NULL
+  ORDER BY a.check_in_time DESC;
+END;
+$function$;
@@ -0,0 +1,129 @@
+-- The end-of-day check-out no longer aborts the whole run when an intern started a timer after
+-- the scheduled end time, and each schedule's jobs run on their own
+CREATE OR REPLACE FUNCTION public.run_attendance_jobs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  schedule public.work_schedules%ROWTYPE;
+  local_time time;
+  intern_ids uuid[];
+  mentor record;
+  reminded integer;
+  sent integer := 0;
+BEGIN
+  FOR schedule IN SELECT * FROM public.work_schedules LOOP
+    -- One schedule failing, e.g. on a time log that cannot be closed, must not hold up the rest
+    BEGIN
+      local_time := (now() AT TIME ZONE schedule.timezone)::time;
+
+      IF NOT extract(isodow FROM CURRENT_DATE)::integer = ANY (schedule.working_days) OR public.is_holiday(CURRENT_DATE) THEN
+        CONTINUE;
+      END IF;
+
+      SELECT coalesce(array_agg(p.id), '{}')
+      INTO intern_ids
+      FROM public.profiles p
+      WHERE p.role = 'intern'
+      AND p.status = 'active'
+      AND p.created_at::date <= CURRENT_DATE
+      AND (public.get_work_schedule(p.id)).id = schedule.id;
+
+      -- Same wording as notificationTemplates.attendanceReminder
+      IF schedule.reminder_time IS NOT NULL
+        AND local_time >= schedule.reminder_time
+        AND (schedule.auto_checkout_time IS NULL OR local_time < schedule.auto_checkout_time)
+      THEN
+        INSERT INTO public.attendance_job_runs (schedule_id, job, date)
+        VALUES (schedule.id, 'reminder', CURRENT_DATE)
+        ON CONFLICT (schedule_id, job, date) DO NOTHING;
+
+        IF FOUND THEN
+          INSERT INTO public.notifications (user_id, title, message, type, data)
+          SELECT i.id, 'Attendance Reminder', 'Don''t forget to mark your attendance for today!', 'warning',
+            jsonb_build_object('date', CURRENT_DATE)
+          FROM unnest(intern_ids) AS i(id)
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.attendance a WHERE a.user_id = i.id AND a.date = CURRENT_DATE
+          );
+
+          GET DIAGNOSTICS reminded = ROW_COUNT;
+          sent := sent + reminded;
+        END IF;
+      END IF;
+
+      IF schedule.auto_checkout_time IS NULL OR local_time < schedule.auto_checkout_time THEN
+        CONTINUE;
+      END IF;
+
+      -- Also picks up check-ins made after the job already ran today. A timer started after the
+      -- scheduled end moves the check-out past it, so stopping the timer stays within the day.
+      UPDATE public.attendance a
+      SET
+        check_out_time = greatest(
+          a.check_in_time,
+          (a.date + schedule.end_time) AT TIME ZONE schedule.timezone,
+          (
+            SELECT max(t.started_at) + interval '1 second'
+            FROM public.task_time_logs t
+            WHERE t.intern_id = a.user_id
+            AND t.ended_at IS NULL
+            AND (t.started_at AT TIME ZONE 'utc')::date = a.date
+          )
+        ),
+        auto_checked_out = true
+      WHERE a.user_id = ANY (intern_ids)
+      AND a.date <= CURRENT_DATE
+      AND a.check_in_time IS NOT NULL
+      AND a.check_out_time IS NULL;
+
+      INSERT INTO public.attendance_job_runs (schedule_id, job, date)
+      VALUES (schedule.id, 'end_of_day', CURRENT_DATE)
+      ON CONFLICT (schedule_id, job, date) DO NOTHING;
+
+      IF NOT FOUND THEN
+        CONTINUE;
+      END IF;
+
+      FOR mentor IN
+        SELECT
+          sa.supervisor_id,
+          count(*) AS absent_count,
+          string_agg(p.full_name, ', ' ORDER BY p.full_name) AS names,
+          jsonb_agg(p.id) AS absent_ids
+        FROM public.profiles p
+        JOIN public.supervisor_assignments sa ON sa.intern_id = p.id
+        WHERE p.id = ANY (intern_ids)
+        AND sa.start_date <= CURRENT_DATE
+        AND (sa.end_date IS NULL OR sa.end_date >= CURRENT_DATE)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attendance a WHERE a.user_id = p.id AND a.date = CURRENT_DATE
+        )
+        GROUP BY sa.supervisor_id
+      LOOP
+        INSERT INTO public.notifications (user_id, title, message, type, data)
+        VALUES (
+          mentor.supervisor_id,
+          'Interns Absent Today',
+          CASE
+            WHEN mentor.absent_count = 1 THEN format('%s did not check in today', mentor.names)
+            ELSE format('%s interns did not check in today: %s', mentor.absent_count, mentor.names)
+          END,
+          'warning',
+          jsonb_build_object('date', CURRENT_DATE, 'internIds', mentor.absent_ids)
+        );
+
+        sent := sent + 1;
+      END LOOP;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Attendance jobs for schedule % failed: %', schedule.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN sent;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.run_attendance_jobs() FROM PUBLIC, anon, authenticated;
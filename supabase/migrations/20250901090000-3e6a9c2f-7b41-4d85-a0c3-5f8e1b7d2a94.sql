@@ -0,0 +1,61 @@
+-- An attachment row must point at a file that was actually uploaded to the task's folder,
+-- otherwise a bare row would satisfy requires_deliverable
+DROP POLICY IF EXISTS "Users can attach files to their tasks" ON public.task_attachments;
+
+CREATE POLICY "Users can attach files to their tasks"
+ON public.task_attachments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = uploaded_by
+  AND public.can_view_task(task_id)
+  AND split_part(file_path, '/', 1) = task_id::text
+  AND EXISTS (
+    SELECT 1 FROM storage.objects o
+    WHERE o.bucket_id = 'task-attachments'
+    AND o.name = file_path
+    AND o.owner = auth.uid()
+  )
+);
+
+-- Files are removed after their attachment row, so the row's checks below cannot be bypassed
+-- by deleting the file directly
+DROP POLICY IF EXISTS "Uploaders can delete their task files" ON storage.objects;
+
+CREATE POLICY "Uploaders can delete their task files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'task-attachments'
+  AND owner = auth.uid()
+  AND NOT EXISTS (SELECT 1 FROM public.task_attachments a WHERE a.file_path = name)
+);
+
+-- A submitted or completed task that requires a deliverable keeps at least one
+CREATE OR REPLACE FUNCTION public.protect_task_deliverable()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = OLD.task_id
+    AND requires_deliverable
+    AND status IN ('in_review', 'done')
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.task_attachments
+    WHERE task_id = OLD.task_id
+    AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'The last deliverable cannot be removed once the task has been submitted';
+  END IF;
+
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER protect_task_deliverable
+BEFORE DELETE ON public.task_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_task_deliverable();
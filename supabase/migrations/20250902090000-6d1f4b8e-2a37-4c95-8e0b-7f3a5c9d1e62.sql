@@ -0,0 +1,95 @@
+-- Record who created a cohort, so its creator can staff it before anyone is assigned
+ALTER TABLE public.cohorts
+ADD COLUMN created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Is the current user a supervisor of the cohort, or the one who created it?
+CREATE OR REPLACE FUNCTION public.is_cohort_supervisor(_cohort_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.cohort_supervisors
+    WHERE cohort_id = _cohort_id
+    AND supervisor_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.cohorts
+    WHERE id = _cohort_id
+    AND created_by = auth.uid()
+  );
+$function$;
+
+-- Supervisors create programs and cohorts as themselves; changing them is left to their
+-- creator, the cohort's supervisors and admins
+DROP POLICY IF EXISTS "Supervisors and admins can manage programs" ON public.programs;
+
+CREATE POLICY "Supervisors and admins can create programs"
+ON public.programs
+FOR INSERT
+WITH CHECK (
+  public.get_current_user_role() IN ('supervisor', 'admin')
+  AND created_by = auth.uid()
+);
+
+CREATE POLICY "Creators and admins can update programs"
+ON public.programs
+FOR UPDATE
+USING (created_by = auth.uid() OR public.get_current_user_role() = 'admin')
+WITH CHECK (created_by = auth.uid() OR public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Creators and admins can delete programs"
+ON public.programs
+FOR DELETE
+USING (created_by = auth.uid() OR public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Supervisors and admins can manage cohorts" ON public.cohorts;
+
+CREATE POLICY "Supervisors and admins can create cohorts"
+ON public.cohorts
+FOR INSERT
+WITH CHECK (
+  public.get_current_user_role() IN ('supervisor', 'admin')
+  AND created_by = auth.uid()
+);
+
+CREATE POLICY "Cohort supervisors and admins can update cohorts"
+ON public.cohorts
+FOR UPDATE
+USING (public.is_cohort_supervisor(id) OR public.get_current_user_role() = 'admin')
+WITH CHECK (public.is_cohort_supervisor(id) OR public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Cohort supervisors and admins can delete cohorts"
+ON public.cohorts
+FOR DELETE
+USING (public.is_cohort_supervisor(id) OR public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Supervisors and admins can manage cohort supervisors" ON public.cohort_supervisors;
+
+CREATE POLICY "Cohort supervisors and admins can manage cohort supervisors"
+ON public.cohort_supervisors
+FOR ALL
+USING (public.is_cohort_supervisor(cohort_id) OR public.get_current_user_role() = 'admin')
+WITH CHECK (
+  public.get_current_user_role() = 'admin'
+  OR (
+    public.is_cohort_supervisor(cohort_id)
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = supervisor_id AND role = 'supervisor')
+  )
+);
+
+-- A supervisor enrolls only their own interns, and only in cohorts they supervise
+DROP POLICY IF EXISTS "Supervisors and admins can manage enrollments" ON public.cohort_enrollments;
+
+CREATE POLICY "Cohort supervisors and admins can manage enrollments"
+ON public.cohort_enrollments
+FOR ALL
+USING (
+  public.get_current_user_role() = 'admin'
+  OR (public.is_cohort_supervisor(cohort_id) AND public.is_supervisor_of(intern_id))
+)
+WITH CHECK (
+  public.get_current_user_role() = 'admin'
+  OR (public.is_cohort_supervisor(cohort_id) AND public.is_supervisor_of(intern_id))
+);
@@ -0,0 +1,94 @@
+-- Recurrences may only use the creator's own templates, since they are spawned with definer rights
+DROP POLICY IF EXISTS "Supervisors can manage their recurrences" ON public.task_recurrences;
+
+CREATE POLICY "Supervisors can manage their recurrences"
+ON public.task_recurrences
+FOR ALL
+USING (auth.uid() = created_by OR public.get_current_user_role() = 'admin')
+WITH CHECK (
+  auth.uid() = created_by
+  AND public.get_current_user_role() IN ('supervisor', 'admin')
+  AND (
+    EXISTS (SELECT 1 FROM public.task_templates t WHERE t.id = template_id AND t.created_by = auth.uid())
+    OR public.get_current_user_role() = 'admin'
+  )
+  AND (
+    assignee_id IS NULL
+    OR public.is_supervisor_of(assignee_id)
+    OR public.get_current_user_role() = 'admin'
+  )
+);
+
+-- Creates one task (with checklist) per assignee from a template, skipping interns the
+-- creator no longer mentors and templates that belong to someone else
+CREATE OR REPLACE FUNCTION public.spawn_tasks_from_template(_template_id uuid, _assignee_ids uuid[], _created_by uuid, _run_date date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  template public.task_templates%ROWTYPE;
+  assignee uuid;
+  new_task_id uuid;
+  spawned integer := 0;
+BEGIN
+  SELECT * INTO template FROM public.task_templates WHERE id = _template_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Only admins may spawn from a template they did not write
+  IF template.created_by <> _created_by
+    AND NOT EXISTS (SELECT 1 FROM public.profiles c WHERE c.id = _created_by AND c.role = 'admin')
+  THEN
+    RETURN 0;
+  END IF;
+
+  FOREACH assignee IN ARRAY _assignee_ids LOOP
+    -- Runs without RLS, so repeat the tasks policy: only the creator's own interns, unless an admin
+    IF NOT EXISTS (SELECT 1 FROM public.profiles c WHERE c.id = _created_by AND c.role = 'admin')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.supervisor_assignments sa
+        WHERE sa.intern_id = assignee
+        AND sa.supervisor_id = _created_by
+        AND sa.start_date <= CURRENT_DATE
+        AND (sa.end_date IS NULL OR sa.end_date >= CURRENT_DATE)
+      )
+    THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.tasks (title, description, priority, due_date, created_by, assigned_to, status, requires_deliverable, position)
+    VALUES (
+      template.title,
+      template.description,
+      template.priority,
+      CASE WHEN template.due_offset_days IS NOT NULL THEN _run_date + template.due_offset_days END,
+      _created_by,
+      assignee,
+      'todo',
+      template.requires_deliverable,
+      coalesce((SELECT min(position) FROM public.tasks WHERE status = 'todo'), 0) - 1
+    )
+    RETURNING id INTO new_task_id;
+
+    INSERT INTO public.task_checklist_items (task_id, title, position)
+    SELECT new_task_id, item.title, item.ordinality - 1
+    FROM unnest(template.checklist) WITH ORDINALITY AS item(title, ordinality);
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      assignee,
+      'New Task Assigned',
+      format('You have been assigned a new task: "%s"', template.title),
+      'info',
+      jsonb_build_object('taskId', new_task_id, 'taskTitle', template.title)
+    );
+
+    spawned := spawned + 1;
+  END LOOP;
+
+  RETURN spawned;
+END;
+$function$;
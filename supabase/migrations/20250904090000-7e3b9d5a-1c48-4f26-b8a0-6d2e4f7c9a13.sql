@@ -0,0 +1,134 @@
+-- Leave that runs over New Year counts against each year's allowance for the working days
+-- that fall in it, rather than entirely against the year it starts in
+CREATE OR REPLACE FUNCTION public.get_leave_balances(_intern_id uuid)
+RETURNS TABLE (
+  leave_type text,
+  annual_days integer,
+  requires_attachment boolean,
+  used_days integer,
+  pending_days integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  WITH bounds AS (
+    SELECT
+      date_trunc('year', CURRENT_DATE)::date AS year_start,
+      (date_trunc('year', CURRENT_DATE) + interval '1 year - 1 day')::date AS year_end
+  )
+  SELECT
+    p.leave_type,
+    p.annual_days,
+    p.requires_attachment,
+    coalesce(sum(public.leave_days(greatest(r.start_date, b.year_start), least(r.end_date, b.year_end), _intern_id))
+      FILTER (WHERE r.status = 'approved'), 0)::integer,
+    coalesce(sum(public.leave_days(greatest(r.start_date, b.year_start), least(r.end_date, b.year_end), _intern_id))
+      FILTER (WHERE r.status = 'pending'), 0)::integer
+  FROM public.leave_policies p
+  CROSS JOIN bounds b
+  LEFT JOIN public.leave_requests r
+    ON r.leave_type = p.leave_type
+    AND r.intern_id = _intern_id
+    AND r.start_date <= b.year_end
+    AND r.end_date >= b.year_start
+  GROUP BY p.leave_type, p.annual_days, p.requires_attachment
+  ORDER BY p.leave_type;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.validate_leave_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  policy public.leave_policies%ROWTYPE;
+  booked integer;
+  leave_year integer;
+  year_start date;
+  year_end date;
+  is_reviewer boolean;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO policy FROM public.leave_policies WHERE leave_type = NEW.leave_type;
+
+    IF public.leave_days(NEW.start_date, NEW.end_date, NEW.intern_id) = 0 THEN
+      RAISE EXCEPTION 'The selected dates contain no working days';
+    END IF;
+
+    IF policy.requires_attachment AND NEW.attachment_path IS NULL THEN
+      RAISE EXCEPTION 'A supporting document is required for % leave', NEW.leave_type;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.leave_requests
+      WHERE intern_id = NEW.intern_id
+      AND status IN ('pending', 'approved')
+      AND daterange(start_date, end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+    ) THEN
+      RAISE EXCEPTION 'You already have a leave request covering these dates';
+    END IF;
+
+    IF policy.annual_days IS NOT NULL THEN
+      FOR leave_year IN extract(year FROM NEW.start_date)::integer..extract(year FROM NEW.end_date)::integer LOOP
+        year_start := make_date(leave_year, 1, 1);
+        year_end := make_date(leave_year, 12, 31);
+
+        SELECT coalesce(sum(public.leave_days(greatest(start_date, year_start), least(end_date, year_end), intern_id)), 0)
+        INTO booked
+        FROM public.leave_requests
+        WHERE intern_id = NEW.intern_id
+        AND leave_type = NEW.leave_type
+        AND status IN ('pending', 'approved')
+        AND start_date <= year_end
+        AND end_date >= year_start;
+
+        IF booked + public.leave_days(greatest(NEW.start_date, year_start), least(NEW.end_date, year_end), NEW.intern_id)
+          > policy.annual_days THEN
+          RAISE EXCEPTION 'Not enough % leave remaining: % of % days already booked in %',
+            NEW.leave_type, booked, policy.annual_days, leave_year;
+        END IF;
+      END LOOP;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.intern_id, NEW.leave_type, NEW.start_date, NEW.end_date, NEW.reason, NEW.attachment_path)
+    IS DISTINCT FROM (OLD.intern_id, OLD.leave_type, OLD.start_date, OLD.end_date, OLD.reason, OLD.attachment_path) THEN
+    RAISE EXCEPTION 'A leave request cannot be edited once submitted';
+  END IF;
+
+  IF NEW.status = OLD.status OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  is_reviewer := public.is_supervisor_of(OLD.intern_id) OR public.get_current_user_role() = 'admin';
+
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected') THEN
+    IF NOT is_reviewer THEN
+      RAISE EXCEPTION 'Only a supervisor can review leave requests';
+    END IF;
+
+    IF NEW.status = 'rejected' AND coalesce(trim(NEW.review_note), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required when rejecting a leave request';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSIF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'approved') THEN
+    IF OLD.intern_id <> auth.uid() AND NOT is_reviewer THEN
+      RAISE EXCEPTION 'Only the intern can cancel this leave request';
+    END IF;
+
+    IF OLD.status = 'approved' AND OLD.start_date <= CURRENT_DATE AND NOT is_reviewer THEN
+      RAISE EXCEPTION 'Leave that has already started can only be cancelled by a supervisor';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;